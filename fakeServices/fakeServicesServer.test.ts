@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createHash, webcrypto } from "crypto";
+import { FAKE_SERVICE_PATHS, type FakeServicesServer, startFakeServicesServer } from "./fakeServicesServer";
+import { getFakePrisma } from "~/server/testUtils/fakePrisma";
+import { createGamebananaApiClient } from "~/gamebananaApi/gamebananaApiClient";
+
+
+
+
+/** Not in the fixtures, so the fake generates it from its id. */
+const GAMEBANANA_MOD_ID = 999;
+
+const GAMEBANANA_FILE_ID = GAMEBANANA_MOD_ID * 10;
+
+const MIRROR_FILE_NAME = `${GAMEBANANA_FILE_ID}.zip`;
+
+const DOWNLOAD_URL = `https://gamebanana.com/dl/${GAMEBANANA_FILE_ID}`;
+
+
+
+
+/** The mirror's storage requests are signed, so the worker handlers need a private key. The fake doesn't check the signature. */
+const getStoragePrivateKeyString = async (): Promise<string> => {
+    const { privateKey } = await webcrypto.subtle.generateKey(
+        { name: "RSA-PSS", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+        true,
+        ["sign", "verify"],
+    );
+
+
+    return Buffer.from(await webcrypto.subtle.exportKey("pkcs8", privateKey)).toString("base64");
+};
+
+
+
+
+let fakeServicesServer: FakeServicesServer;
+
+
+beforeAll(async () => {
+    fakeServicesServer = await startFakeServicesServer(0);
+
+    const { baseUrl } = fakeServicesServer;
+
+
+    //the mirror modules read these when they are loaded. the fake server already loaded some of them, so they are reset, then imported again in each test.
+    vi.stubEnv("GAMEBANANA_MIRROR_CLOUDFLARE_R2_WORKER_URL", `${baseUrl}${FAKE_SERVICE_PATHS.mirrorWorker}`);
+    vi.stubEnv("GAMEBANANA_MIRROR_CLOUDFLARE_R2_S3_API_URL", `${baseUrl}${FAKE_SERVICE_PATHS.mirrorS3Api}`);
+    vi.stubEnv("GAMEBANANA_MIRROR_CLOUDFLARE_R2_ACCESS_KEY_ID", "fake-access-key-id");
+    vi.stubEnv("GAMEBANANA_MIRROR_CLOUDFLARE_R2_SECRET_ACCESS_KEY", "fake-secret-access-key");
+    vi.stubEnv("GAMEBANANA_MIRROR_CLOUDFLARE_R2_MODS_BUCKET_NAME", "mods");
+    vi.stubEnv("GAMEBANANA_MIRROR_CLOUDFLARE_R2_SCREENSHOTS_BUCKET_NAME", "screenshots");
+    vi.stubEnv("GAMEBANANA_MIRROR_STORAGE_API_PRIVATE_KEY", await getStoragePrivateKeyString());
+
+    vi.resetModules();
+});
+
+
+afterAll(async () => {
+    vi.unstubAllEnvs();
+
+    await fakeServicesServer.close();
+});
+
+
+
+
+describe("refreshGamebananaModMetadata", () => {
+    it("fetches a mod's metadata from the fake GameBanana API and caches it", async () => {
+        const { refreshGamebananaModMetadata } = await import("~/server/gamebanana/modMetadataCache");
+
+        const { prisma, committedWrites } = getFakePrisma();
+
+        const gamebananaApiClient = createGamebananaApiClient({
+            apiUrl: `${fakeServicesServer.baseUrl}${FAKE_SERVICE_PATHS.gamebananaApi}`,
+            apiV11Url: `${fakeServicesServer.baseUrl}${FAKE_SERVICE_PATHS.gamebananaApiV11}`,
+        });
+
+
+        const metadata = await refreshGamebananaModMetadata(prisma, GAMEBANANA_MOD_ID, gamebananaApiClient);
+
+
+        expect(metadata.screenshots).toEqual([`fake-mod-${GAMEBANANA_MOD_ID}-1.png`, `fake-mod-${GAMEBANANA_MOD_ID}-2.png`]);
+
+        expect(metadata.files).toEqual([expect.objectContaining({ id: GAMEBANANA_FILE_ID, fileName: `fakemod${GAMEBANANA_MOD_ID}.zip`, md5: "d41d8cd98f00b204e9800998ecf8427e" })]);
+
+        expect(committedWrites.map((write) => write.query)).toEqual(["gamebananaModMetadata.upsert"]);
+    });
+});
+
+
+
+
+describe("mirror worker", () => {
+    it("lists the files that were downloaded and uploaded to the fake mirror, until they are deleted", async () => {
+        const { getFileMetadataListForCategory } = await import("~/server/gamebananaMirror/cloudflareApi/getFileListForCategory");
+        const { deleteFilesFromMirror, sendDownloadRequestToMirror, uploadFileToMirror } = await import("~/server/gamebananaMirror/cloudflareApi/httpHandlers");
+
+
+        await expect(getFileMetadataListForCategory("mods")).resolves.toEqual([]);
+
+
+        await expect(sendDownloadRequestToMirror("mods", MIRROR_FILE_NAME, DOWNLOAD_URL)).resolves.toBe(200);
+
+        await expect(getFileMetadataListForCategory("mods")).resolves.toEqual([{
+            fileName: MIRROR_FILE_NAME,
+            etag: `"${createHash("md5").update(DOWNLOAD_URL).digest("hex")}"`,     //the fake doesn't download the file, so it hashes the URL instead
+            size: undefined,
+        }]);
+
+
+        const screenshot = new TextEncoder().encode("not really a png");
+
+        await expect(uploadFileToMirror("screenshots", "screenshot.png", screenshot.buffer)).resolves.toBe(200);
+
+        await expect(getFileMetadataListForCategory("screenshots")).resolves.toEqual([{
+            fileName: "screenshot.png",
+            etag: `"${createHash("md5").update(screenshot).digest("hex")}"`,
+            size: screenshot.length,
+        }]);
+
+
+        await expect(deleteFilesFromMirror("mods", [MIRROR_FILE_NAME])).resolves.toBe(200);
+
+        await expect(getFileMetadataListForCategory("mods")).resolves.toEqual([]);
+
+        expect(fakeServicesServer.getMirrorFileNames()).toEqual({ mods: [], screenshots: ["screenshot.png"], richPresenceIcons: [] });
+    });
+});
\ No newline at end of file
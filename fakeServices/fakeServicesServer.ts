@@ -0,0 +1,436 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import {
+    FILE_CATEGORIES, FILE_DELETION_REQUEST_BODY_REQUIRED_PARAMETERS, FILE_DOWNLOAD_REQUEST_BODY_REQUIRED_PARAMETERS, FILE_UPLOAD_REQUEST_BODY_REQUIRED_PARAMETERS,
+    isFileCategory, type FileCategory,
+} from "~/server/gamebananaMirror/cloudflareApi/constsAndTypes";
+import gamebananaFixtures from "./fixtures/gamebanana.json";
+
+
+
+
+const FIXTURES_DIRECTORY = join(__dirname, "fixtures");
+
+const CELESTE_DATABASE_FILE_NAMES = ["everest_update.yaml", "mod_dependency_graph.yaml", "mod_search_database.yaml"] as const;
+
+
+/** The paths that each service is served under. Point the matching environment variables at `${baseUrl}${path}`. */
+export const FAKE_SERVICE_PATHS = {
+    /** NEXT_PUBLIC_GAMEBANANA_API_URL */
+    gamebananaApi: "/gamebanana/api",
+    /** NEXT_PUBLIC_GAMEBANANA_API_V11_URL */
+    gamebananaApiV11: "/gamebanana/apiv11",
+    /** NEXT_PUBLIC_GAMEBANANA_MOD_IMAGES_URL. include the trailing slash. */
+    gamebananaModImages: "/gamebanana/images/",
+    /** CELESTE_DATABASES_URL */
+    celesteDatabases: "/celeste",
+    /** GAMEBANANA_MIRROR_CLOUDFLARE_R2_WORKER_URL */
+    mirrorWorker: "/mirror-worker",
+    /** GAMEBANANA_MIRROR_CLOUDFLARE_R2_S3_API_URL */
+    mirrorS3Api: "/r2",
+    /** GAMEBANANA_MIRROR_SCREENSHOTS_URL */
+    mirrorScreenshots: "/mirror/screenshots",
+} as const;
+
+
+
+
+type FakeGamebananaFile = {
+    id: number;
+    fileName: string;
+    size: number;
+    dateAdded: number;
+    downloadCount: number;
+    md5: string;
+};
+
+
+type FakeGamebananaMod = {
+    name: string;
+    userid: number;
+    date: number;
+    screenshots: string[];
+    files: FakeGamebananaFile[];
+};
+
+
+type FakeGamebananaMember = {
+    name: string;
+    bio: string;
+};
+
+
+const fixtureMods: Record<string, FakeGamebananaMod | undefined> = gamebananaFixtures.mods;
+
+const fixtureMembers: Record<string, FakeGamebananaMember | undefined> = gamebananaFixtures.members;
+
+
+
+
+/** Mods and members that aren't in the fixtures are generated from their id, so that randomly seeded data still works. */
+const getFakeMod = (gamebananaModId: number): FakeGamebananaMod => fixtureMods[gamebananaModId] ?? {
+    name: `Fake Mod ${gamebananaModId}`,
+    userid: 2000 + gamebananaModId % 50,
+    date: 1500000000 + gamebananaModId,
+    screenshots: [`fake-mod-${gamebananaModId}-1.png`, `fake-mod-${gamebananaModId}-2.png`],
+    files: [{
+        id: gamebananaModId * 10,
+        fileName: `fakemod${gamebananaModId}.zip`,
+        size: 1024 * 1024,
+        dateAdded: 1500000000 + gamebananaModId,
+        downloadCount: 0,
+        md5: "d41d8cd98f00b204e9800998ecf8427e",
+    }],
+};
+
+
+const getFakeMember = (gamebananaMemberId: number): FakeGamebananaMember => fixtureMembers[gamebananaMemberId] ?? {
+    name: `FakeMember${gamebananaMemberId}`,
+    bio: "",
+};
+
+
+/** Returns the field in the shape sent by Core/Item/Data, or undefined for fields that the fake doesn't support. */
+const getModField = (gamebananaModId: number, field: string): unknown => {
+    const mod = getFakeMod(gamebananaModId);
+
+    switch (field) {
+        case "userid":
+            return mod.userid;
+        case "Owner().name":
+            return getFakeMember(mod.userid).name;
+        case "date":
+            return mod.date;
+        case "name":
+            return mod.name;
+        case "screenshots":
+            return JSON.stringify(mod.screenshots.map((fileName) => ({ _sFile: fileName, _nFilesize: 0, _sRelativeImageDir: "img/ss/mods" })));
+        case "Files().aFiles()":
+            if (mod.files.length === 0) return [];     //matches GameBanana
+
+            return Object.fromEntries(mod.files.map((file) => [
+                String(file.id),
+                {
+                    _idRow: file.id,
+                    _sFile: file.fileName,
+                    _nFilesize: file.size,
+                    _sDescription: "",
+                    _tsDateAdded: file.dateAdded,
+                    _nDownloadCount: file.downloadCount,
+                    _sAnalysisState: "done",
+                    _sDownloadUrl: `https://gamebanana.com/dl/${file.id}`,
+                    _sMd5Checksum: file.md5,
+                    _sClamAvResult: "clean",
+                    _sAnalysisResult: "ok",
+                    _bContainsExe: false,
+                },
+            ]));
+        default:
+            return undefined;
+    }
+};
+
+
+
+
+/** Downloaded files are never fetched, so their size is unknown. The ETag is the MD5 of the download URL or the uploaded file. */
+type MirrorFile = {
+    downloadUrl: string | null;
+    etag: string;
+    size: number | undefined;
+};
+
+/** The files "stored" by the fake mirror worker. Lost when the server stops. */
+type MirrorFiles = Record<FileCategory, Map<string, MirrorFile>>;
+
+
+const getBucketCategory = (bucketName: string): FileCategory | undefined => {
+    const bucketNames: Record<FileCategory, string | undefined> = {
+        mods: process.env.GAMEBANANA_MIRROR_CLOUDFLARE_R2_MODS_BUCKET_NAME,
+        screenshots: process.env.GAMEBANANA_MIRROR_CLOUDFLARE_R2_SCREENSHOTS_BUCKET_NAME,
+        richPresenceIcons: process.env.GAMEBANANA_MIRROR_CLOUDFLARE_R2_RICH_PRESENCE_ICONS_BUCKET_NAME,
+    };
+
+
+    const category = FILE_CATEGORIES.find((fileCategory) => bucketNames[fileCategory] === bucketName);
+
+    if (category) return category;
+
+
+    return isFileCategory(bucketName) ? bucketName : undefined;     //also accept the category name, so the bucket names don't need to be set
+};
+
+
+const escapeXml = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+
+
+/** A minimal S3 ListObjectsV2 response. Everything fits in one page. */
+const getListObjectsXml = (bucketName: string, files: [string, MirrorFile][]) => [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">`,
+    `<Name>${escapeXml(bucketName)}</Name>`,
+    `<Prefix></Prefix>`,
+    `<KeyCount>${files.length}</KeyCount>`,
+    `<MaxKeys>1000</MaxKeys>`,
+    `<IsTruncated>false</IsTruncated>`,
+    ...files.map(([fileName, { etag, size }]) => `<Contents><Key>${escapeXml(fileName)}</Key><ETag>${escapeXml(etag)}</ETag>${size === undefined ? "" : `<Size>${size}</Size>`}<StorageClass>STANDARD</StorageClass></Contents>`),
+    `</ListBucketResult>`,
+].join("");
+
+
+
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+};
+
+
+const sendText = (response: ServerResponse, status: number, body: string, contentType = "text/plain") => {
+    response.writeHead(status, { "Content-Type": contentType });
+    response.end(body);
+};
+
+
+const readRequestBody = async (request: IncomingMessage): Promise<string> => {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of request) chunks.push(chunk as Buffer);
+
+    return Buffer.concat(chunks).toString("utf-8");
+};
+
+
+const parseJsonObject = (value: string): Record<string, unknown> | undefined => {
+    try {
+        const parsedValue: unknown = JSON.parse(value);
+
+        if (typeof parsedValue !== "object" || parsedValue === null || Array.isArray(parsedValue)) return undefined;
+
+        return parsedValue as Record<string, unknown>;
+    }
+    catch {
+        return undefined;
+    }
+};
+
+
+const parsePositiveInteger = (value: string | null | undefined): number | undefined => {
+    const number = Number(value);
+
+    return Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+
+
+
+const handleGamebananaApiRequest = (path: string, searchParams: URLSearchParams, response: ServerResponse) => {
+    if (path === "/Core/Item/Data") {
+        const itemId = parsePositiveInteger(searchParams.get("itemid"));
+
+        if (searchParams.get("itemtype") !== "Mod" || itemId === undefined) return sendJson(response, 200, { error: "Only Mods with a valid itemid are supported by the fake." });
+
+
+        const fields = (searchParams.get("fields") ?? "").split(",");
+
+        const itemData: Record<string, unknown> = {};
+
+        for (const field of fields) {
+            const value = getModField(itemId, field);
+
+            if (value === undefined) return sendJson(response, 200, { error: `The field "${field}" isn't supported by the fake.` });
+
+            itemData[field] = value;
+        }
+
+
+        return sendJson(response, 200, itemData);
+    }
+
+
+    if (path === "/Core/Member/IdentifyById") {
+        const userId = parsePositiveInteger(searchParams.get("userid"));
+
+        if (userId === undefined) return sendJson(response, 200, { error: "Invalid userid." });
+
+
+        return sendJson(response, 200, [getFakeMember(userId).name]);
+    }
+
+
+    sendText(response, 404, "Not found.");
+};
+
+
+const handleGamebananaApiV11Request = (path: string, response: ServerResponse) => {
+    const profilePageMatch = /^\/Member\/(\d+)\/ProfilePage$/.exec(path);
+
+    const memberId = parsePositiveInteger(profilePageMatch?.[1]);
+
+    if (memberId === undefined) return sendText(response, 404, "Not found.");
+
+
+    sendJson(response, 200, { _idRow: memberId, _sName: getFakeMember(memberId).name, _sBio: getFakeMember(memberId).bio });
+};
+
+
+/** Every screenshot is the same placeholder image, whether it's from GameBanana or the mirror. */
+const handleScreenshotRequest = async (response: ServerResponse) => {
+    const image = await readFile(join(FIXTURES_DIRECTORY, "screenshot.png"));
+
+    response.writeHead(200, { "Content-Type": "image/png" });
+    response.end(image);
+};
+
+
+/** Read on every request, so the fixtures can be edited while the server is running. */
+const handleCelesteDatabaseRequest = async (path: string, response: ServerResponse) => {
+    const fileName = CELESTE_DATABASE_FILE_NAMES.find((databaseFileName) => path === `/${databaseFileName}`);
+
+    if (!fileName) return sendText(response, 404, "Not found.");
+
+
+    sendText(response, 200, await readFile(join(FIXTURES_DIRECTORY, fileName), "utf-8"), "text/yaml");
+};
+
+
+/** Accepts the same request bodies as the real worker. Files are recorded, not downloaded. The signature isn't verified. */
+const handleMirrorWorkerRequest = async (request: IncomingMessage, response: ServerResponse, mirrorFiles: MirrorFiles) => {
+    if (request.method !== "PUT" && request.method !== "DELETE") return sendText(response, 405, "Method not allowed.");
+
+    if (!request.headers.authorization) return sendText(response, 401, "Missing Authorization header.");
+
+
+    const body = parseJsonObject(await readRequestBody(request));
+
+    if (!body || !isFileCategory(body.fileCategory)) return sendText(response, 400, "Invalid request body.");
+
+    const categoryFiles = mirrorFiles[body.fileCategory];
+
+
+    if (request.method === "DELETE") {
+        if (!FILE_DELETION_REQUEST_BODY_REQUIRED_PARAMETERS.every((parameter) => parameter in body) || !Array.isArray(body.fileNames)) return sendText(response, 400, "Invalid request body.");
+
+        for (const fileName of body.fileNames) {
+            if (typeof fileName === "string") categoryFiles.delete(fileName);
+        }
+
+
+        return sendText(response, 200, "Deleted.");
+    }
+
+
+    const isDownloadRequest = FILE_DOWNLOAD_REQUEST_BODY_REQUIRED_PARAMETERS.every((parameter) => typeof body[parameter] === "string");
+    const isUploadRequest = FILE_UPLOAD_REQUEST_BODY_REQUIRED_PARAMETERS.every((parameter) => typeof body[parameter] === "string");
+
+    if (!isDownloadRequest && !isUploadRequest) return sendText(response, 400, "Invalid request body.");
+
+
+    const fileContents = isDownloadRequest ? body.downloadUrl as string : Buffer.from(body.file as string, "base64");
+
+    categoryFiles.set(body.fileName as string, {     //both request types require fileName
+        downloadUrl: isDownloadRequest ? body.downloadUrl as string : null,
+        etag: `"${createHash("md5").update(fileContents).digest("hex")}"`,
+        size: typeof fileContents === "string" ? undefined : fileContents.length,
+    });
+
+    sendText(response, 200, "Stored.");
+};
+
+
+/** Only supports ListObjectsV2, which is all getFileMetadataListForCategory uses. */
+const handleMirrorS3ApiRequest = (path: string, searchParams: URLSearchParams, response: ServerResponse, mirrorFiles: MirrorFiles) => {
+    const bucketName = decodeURIComponent(path.replace(/^\/|\/$/g, ""));     //the S3 client adds a trailing slash to path style bucket URLs
+
+    const category = getBucketCategory(bucketName);
+
+    if (!category || searchParams.get("list-type") !== "2") return sendText(response, 404, "Not found.");
+
+
+    sendText(response, 200, getListObjectsXml(bucketName, [...mirrorFiles[category]]), "application/xml");
+};
+
+
+
+
+export type FakeServicesServer = {
+    server: Server;
+    /** no trailing slash */
+    baseUrl: string;
+    /** the files currently stored by the fake mirror worker, by category */
+    getMirrorFileNames: () => Record<FileCategory, string[]>;
+    close: () => Promise<void>;
+};
+
+
+/**
+ * Starts a local stand-in for GameBanana, maddie480's Celeste databases and the GameBanana mirror's Cloudflare worker and R2 bucket listing.
+ * Pass port 0 to use any free port, ie. in test setup.
+ */
+export const startFakeServicesServer = async (port: number): Promise<FakeServicesServer> => {
+    const mirrorFiles: MirrorFiles = { mods: new Map(), screenshots: new Map(), richPresenceIcons: new Map() };
+
+
+    const server = createServer((request, response) => {
+        const url = new URL(request.url ?? "/", "http://localhost");
+
+        const pathname = url.pathname;
+
+        const getSubpath = (servicePath: string) => pathname.slice(servicePath.replace(/\/$/, "").length);
+
+
+        const handleRequest = async () => {
+            if (pathname.startsWith(FAKE_SERVICE_PATHS.mirrorWorker)) return handleMirrorWorkerRequest(request, response, mirrorFiles);
+
+            if (request.method !== "GET") return sendText(response, 405, "Method not allowed.");
+
+
+            if (pathname.startsWith(`${FAKE_SERVICE_PATHS.gamebananaApi}/`)) return handleGamebananaApiRequest(getSubpath(FAKE_SERVICE_PATHS.gamebananaApi), url.searchParams, response);
+
+            if (pathname.startsWith(`${FAKE_SERVICE_PATHS.gamebananaApiV11}/`)) return handleGamebananaApiV11Request(getSubpath(FAKE_SERVICE_PATHS.gamebananaApiV11), response);
+
+            if (pathname.startsWith(FAKE_SERVICE_PATHS.gamebananaModImages)) return handleScreenshotRequest(response);
+
+            if (pathname.startsWith(`${FAKE_SERVICE_PATHS.mirrorScreenshots}/`)) return handleScreenshotRequest(response);
+
+            if (pathname.startsWith(`${FAKE_SERVICE_PATHS.celesteDatabases}/`)) return handleCelesteDatabaseRequest(getSubpath(FAKE_SERVICE_PATHS.celesteDatabases), response);
+
+            if (pathname.startsWith(`${FAKE_SERVICE_PATHS.mirrorS3Api}/`)) return handleMirrorS3ApiRequest(getSubpath(FAKE_SERVICE_PATHS.mirrorS3Api), url.searchParams, response, mirrorFiles);
+
+
+            sendText(response, 404, "Not found.");
+        };
+
+
+        handleRequest().catch((error) => {
+            console.error(`Fake services server failed to handle ${request.method} ${pathname}:`, error);
+
+            if (!response.headersSent) sendText(response, 500, "Internal server error.");
+        });
+    });
+
+
+    await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, "127.0.0.1", () => resolve());
+    });
+
+
+    const address = server.address();
+
+    if (typeof address !== "object" || address === null) throw new Error("The fake services server is not listening on a port.");
+
+
+    return {
+        server,
+        baseUrl: `http://127.0.0.1:${address.port}`,
+        getMirrorFileNames: () => ({
+            mods: [...mirrorFiles.mods.keys()],
+            screenshots: [...mirrorFiles.screenshots.keys()],
+            richPresenceIcons: [...mirrorFiles.richPresenceIcons.keys()],
+        }),
+        close: () => new Promise<void>((resolve, reject) => server.close((error) => error ? reject(error) : resolve())),
+    };
+};
\ No newline at end of file
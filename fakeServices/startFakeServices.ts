@@ -0,0 +1,34 @@
+import { FAKE_SERVICE_PATHS, startFakeServicesServer } from "./fakeServicesServer";
+
+
+
+
+const DEFAULT_PORT = 3001;
+
+
+
+
+const main = async () => {
+    const port = Number(process.env.FAKE_SERVICES_PORT || DEFAULT_PORT);
+
+    const { baseUrl } = await startFakeServicesServer(port);
+
+
+    console.log(`Fake services server listening on ${baseUrl}. Add the following to your .env file to use it:`);
+    console.log([
+        `NEXT_PUBLIC_GAMEBANANA_API_URL="${baseUrl}${FAKE_SERVICE_PATHS.gamebananaApi}"`,
+        `NEXT_PUBLIC_GAMEBANANA_API_V11_URL="${baseUrl}${FAKE_SERVICE_PATHS.gamebananaApiV11}"`,
+        `NEXT_PUBLIC_GAMEBANANA_MOD_IMAGES_URL="${baseUrl}${FAKE_SERVICE_PATHS.gamebananaModImages}"`,
+        `CELESTE_DATABASES_URL="${baseUrl}${FAKE_SERVICE_PATHS.celesteDatabases}"`,
+        `GAMEBANANA_MIRROR_CLOUDFLARE_R2_WORKER_URL="${baseUrl}${FAKE_SERVICE_PATHS.mirrorWorker}"`,
+        `GAMEBANANA_MIRROR_CLOUDFLARE_R2_S3_API_URL="${baseUrl}${FAKE_SERVICE_PATHS.mirrorS3Api}"`,
+        `GAMEBANANA_MIRROR_SCREENSHOTS_URL="${baseUrl}${FAKE_SERVICE_PATHS.mirrorScreenshots}"`,
+    ].join("\n"));
+};
+
+
+main().catch((error) => {
+    console.error(error);
+
+    process.exit(1);
+});
\ No newline at end of file
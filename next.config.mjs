@@ -43,6 +43,7 @@ const config = {
   experimental: {
     largePageDataBytes: 3 * 1024 * 1024, // 3 MB
     serverComponentsExternalPackages: ['pino'], // Context: https://github.com/vercel/next.js/issues/54289#issuecomment-1686401300
+    instrumentationHook: true, // Starts the GameBanana mirror update worker when the server starts. See src/instrumentation.ts
   },
   eslint: { ignoreDuringBuilds: true },
 };
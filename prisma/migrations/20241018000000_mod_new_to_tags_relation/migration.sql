@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE `mod-new-to-tags` DROP FOREIGN KEY `mod-new-to-tags_mod_NewId_fkey`;
+
+-- AddForeignKey
+ALTER TABLE `mod-new-to-tags` ADD CONSTRAINT `mod-new-to-tags_mod_NewId_fkey` FOREIGN KEY (`mod_NewId`) REFERENCES `mod-new`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE `map-rating-aggregate` (
+    `mapId` MEDIUMINT UNSIGNED NOT NULL,
+    `overallCount` INTEGER UNSIGNED NOT NULL,
+    `qualityCount` INTEGER UNSIGNED NOT NULL,
+    `qualitySum` DOUBLE NOT NULL,
+    `averageQualityId` TINYINT UNSIGNED NULL,
+    `difficultyCount` INTEGER UNSIGNED NOT NULL,
+    `difficultySum` DOUBLE NOT NULL,
+    `averageDifficultyId` SMALLINT UNSIGNED NULL,
+    `timeUpdated` INTEGER NOT NULL,
+
+    PRIMARY KEY (`mapId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `mod-rating-aggregate` (
+    `modId` SMALLINT UNSIGNED NOT NULL,
+    `overallCount` INTEGER UNSIGNED NOT NULL,
+    `qualityCount` INTEGER UNSIGNED NOT NULL,
+    `qualitySum` DOUBLE NOT NULL,
+    `averageQualityId` TINYINT UNSIGNED NULL,
+    `difficultyCount` INTEGER UNSIGNED NOT NULL,
+    `difficultySum` DOUBLE NOT NULL,
+    `averageDifficultyId` SMALLINT UNSIGNED NULL,
+    `timeUpdated` INTEGER NOT NULL,
+
+    PRIMARY KEY (`modId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `map-rating-aggregate` ADD CONSTRAINT `map-rating-aggregate_mapId_fkey` FOREIGN KEY (`mapId`) REFERENCES `map`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `mod-rating-aggregate` ADD CONSTRAINT `mod-rating-aggregate_modId_fkey` FOREIGN KEY (`modId`) REFERENCES `mod`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE `moderation-claim` (
+    `id` INTEGER UNSIGNED NOT NULL AUTO_INCREMENT,
+    `itemType` ENUM('Mod_New', 'Mod_Edit', 'Map_NewSolo', 'Map_NewWithMod_New', 'Map_Edit') NOT NULL,
+    `itemId` MEDIUMINT UNSIGNED NOT NULL,
+    `claimedBy` VARCHAR(191) NOT NULL,
+    `timeClaimed` INTEGER NOT NULL,
+
+    INDEX `moderation-claim_claimedBy_idx`(`claimedBy`),
+    UNIQUE INDEX `moderation-claim_itemType_itemId_key`(`itemType`, `itemId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `moderation-claim` ADD CONSTRAINT `moderation-claim_claimedBy_fkey` FOREIGN KEY (`claimedBy`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
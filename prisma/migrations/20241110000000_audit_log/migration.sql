@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `audit-log-entry` (
+    `id` INTEGER UNSIGNED NOT NULL AUTO_INCREMENT,
+    `actorId` VARCHAR(191) NULL,
+    `action` VARCHAR(100) NOT NULL,
+    `targetTable` VARCHAR(50) NULL,
+    `targetId` VARCHAR(191) NULL,
+    `input` JSON NULL,
+    `before` JSON NULL,
+    `after` JSON NULL,
+    `timeCreated` INTEGER NOT NULL,
+
+    INDEX `audit-log-entry_actorId_idx`(`actorId`),
+    INDEX `audit-log-entry_action_idx`(`action`),
+    INDEX `audit-log-entry_timeCreated_idx`(`timeCreated`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `audit-log-entry` ADD CONSTRAINT `audit-log-entry_actorId_fkey` FOREIGN KEY (`actorId`) REFERENCES `user`(`id`) ON DELETE SET NULL ON UPDATE RESTRICT;
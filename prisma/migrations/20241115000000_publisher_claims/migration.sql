@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE `publisher-claim` (
+    `id` INTEGER UNSIGNED NOT NULL AUTO_INCREMENT,
+    `publisherId` SMALLINT UNSIGNED NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `method` ENUM('Token', 'Moderator') NOT NULL,
+    `token` VARCHAR(64) NULL,
+    `timeCreated` INTEGER NOT NULL,
+
+    INDEX `publisher-claim_userId_idx`(`userId`),
+    UNIQUE INDEX `publisher-claim_publisherId_userId_key`(`publisherId`, `userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `publisher-claim` ADD CONSTRAINT `publisher-claim_publisherId_fkey` FOREIGN KEY (`publisherId`) REFERENCES `publisher`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `publisher-claim` ADD CONSTRAINT `publisher-claim_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE `gamebanana-mod-metadata` (
+    `gamebananaModId` MEDIUMINT UNSIGNED NOT NULL,
+    `screenshots` JSON NOT NULL,
+    `files` JSON NOT NULL,
+    `timeUpdatedGamebanana` INTEGER NOT NULL,
+    `timeFetched` INTEGER NOT NULL,
+
+    INDEX `gamebanana-mod-metadata_timeFetched_idx`(`timeFetched`),
+    PRIMARY KEY (`gamebananaModId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE `gamebanana-mirror-file` (
+    `fileCategory` ENUM('mods', 'screenshots', 'richPresenceIcons') NOT NULL,
+    `fileName` VARCHAR(255) NOT NULL,
+    `etag` VARCHAR(100) NULL,
+    `size` INTEGER UNSIGNED NULL,
+    `xxHash` VARCHAR(16) NULL,
+    `timeSynced` INTEGER NOT NULL,
+
+    PRIMARY KEY (`fileCategory`, `fileName`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `gamebanana-mirror-update-job` (
+    `id` INTEGER UNSIGNED NOT NULL AUTO_INCREMENT,
+    `status` ENUM('Queued', 'Running', 'Succeeded', 'Failed') NOT NULL DEFAULT 'Queued',
+    `update` JSON NOT NULL,
+    `report` JSON NULL,
+    `filesTotal` INTEGER UNSIGNED NOT NULL DEFAULT 0,
+    `filesProcessed` INTEGER UNSIGNED NOT NULL DEFAULT 0,
+    `filesFailed` INTEGER UNSIGNED NOT NULL DEFAULT 0,
+    `attempts` TINYINT UNSIGNED NOT NULL DEFAULT 0,
+    `error` VARCHAR(1000) NULL,
+    `timeCreated` INTEGER NOT NULL,
+    `timeStarted` INTEGER NULL,
+    `timeFinished` INTEGER NULL,
+
+    INDEX `gamebanana-mirror-update-job_status_timeCreated_idx`(`status`, `timeCreated`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE `rate-limit-window` (
+    `key` VARCHAR(255) NOT NULL,
+    `count` INTEGER UNSIGNED NOT NULL,
+    `resetTime` INTEGER NOT NULL,
+
+    INDEX `rate-limit-window_resetTime_idx`(`resetTime`),
+    PRIMARY KEY (`key`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `gamebanana-mirror-update-job` ADD COLUMN `timeHeartbeat` INTEGER NULL;
@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { serverLogger as logger } from "~/logger/serverLogger";
+import { authenticateUpdateWebhookRequest } from "~/server/gamebananaMirror/authentication/authenticateUpdateWebhookRequest";
+import { getMirrorUpdateJobStatusReports } from "~/server/gamebananaMirror/mirrorUpdateJobs";
+import { prisma } from "~/server/prisma";
+
+
+
+
+/** Reports the progress, per-file failures, and final status of GameBanana mirror update jobs.
+ * Authenticated like the update webhook, so the request body must contain the timestamp. It's a POST request because the signature covers the body.
+ * The request body may contain a jobId. If it does, that job is returned. Otherwise, the most recent jobs are returned.
+ */
+export const POST = async (request: NextRequest) => {
+    const requestBodyString = await request.text();
+
+
+    let requestBodyObject: unknown;
+
+    try {
+        requestBodyObject = JSON.parse(requestBodyString);
+    } catch {
+        requestBodyObject = undefined;
+    }
+
+    if (typeof requestBodyObject !== "object" || requestBodyObject === null) {
+        return new NextResponse(
+            "The request body was not a valid object.",
+            {
+                status: 400,
+            }
+        );
+    }
+
+
+    const authenticationStatusCode = await authenticateUpdateWebhookRequest(headers(), requestBodyString, requestBodyObject);
+
+    if (authenticationStatusCode !== 200) {
+        return new NextResponse(
+            null,
+            {
+                status: authenticationStatusCode,
+            }
+        );
+    }
+
+
+    const jobId = "jobId" in requestBodyObject ? requestBodyObject.jobId : undefined;
+
+    if (jobId !== undefined && (typeof jobId !== "number" || !Number.isInteger(jobId) || jobId < 1)) {
+        return new NextResponse(
+            "Invalid jobId.",
+            {
+                status: 400,
+            }
+        );
+    }
+
+
+    let jobStatusReports: Awaited<ReturnType<typeof getMirrorUpdateJobStatusReports>>;
+
+    try {
+        jobStatusReports = await getMirrorUpdateJobStatusReports(prisma, jobId);
+    } catch (error) {
+        logger.error(`Failed to get the GameBanana mirror update jobs. ${String(error)}`);
+
+        return new NextResponse(
+            null,
+            {
+                status: 500,
+            }
+        );
+    }
+
+    if (!jobStatusReports) {
+        return new NextResponse(
+            `Job ${jobId} does not exist.`,
+            {
+                status: 404,
+            }
+        );
+    }
+
+
+    return NextResponse.json(
+        jobId === undefined ? jobStatusReports : jobStatusReports[0],
+        {
+            status: 200,
+        }
+    );
+};
\ No newline at end of file
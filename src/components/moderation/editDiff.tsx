@@ -0,0 +1,133 @@
+import { Loader, Stack, Table, Text, createStyles } from "@mantine/core";
+import { api } from "~/utils/api";
+import type { ModerationEditDiff } from "~/server/api/routers/moderation";
+import type { FieldDiff, RelationDiff } from "~/server/api/utils/editDiff";
+
+
+
+
+const EMPTY_VALUE_STRING = "(empty)";
+
+
+
+
+const useStyles = createStyles(
+    (theme) => ({
+        editDiff: {
+            padding: `${theme.spacing.xs} ${theme.spacing.sm}`,
+        },
+        oldValue: {
+            color: theme.colors.red[4],
+            textDecoration: "line-through",
+        },
+        newValue: {
+            color: theme.colors.green[4],
+        },
+    }),
+);
+
+
+
+
+type FieldValueFormatter = (fieldDiff: FieldDiff, value: FieldDiff["oldValue"]) => string;
+
+
+const RelationDiffText = ({ label, relationDiff }: { label: string; relationDiff: RelationDiff; }) => {
+    const { classes } = useStyles();
+
+
+    const { added, removed, changed } = relationDiff;
+
+    if (!added.length && !removed.length && !changed.length) return null;
+
+
+    const getEntryString = (entry: RelationDiff["added"][number]) => entry.fullClearOnlyBool ? `${entry.name} (full clear only)` : entry.name;
+
+
+    return (
+        <Text size="sm">
+            {`${label}: `}
+            {added.length ? <Text span className={classes.newValue}>{`+ ${added.map(getEntryString).join(", ")} `}</Text> : null}
+            {removed.length ? <Text span className={classes.oldValue}>{`- ${removed.map(getEntryString).join(", ")} `}</Text> : null}
+            {changed.length ? <Text span>{`changed: ${changed.map(getEntryString).join(", ")}`}</Text> : null}
+        </Text>
+    );
+};
+
+
+
+
+type EditDiffProps = {
+    itemType: ModerationEditDiff["itemType"];
+    id: number;
+};
+
+
+export const EditDiff = ({ itemType, id }: EditDiffProps) => {
+    const editDiffQuery = api.moderation.getEditDiff.useQuery({ itemType, id }, { queryKey: ["moderation.getEditDiff", { itemType, id }] });
+
+    const difficultyQuery = api.difficulty.getAll.useQuery({}, { queryKey: ["difficulty.getAll", {}] });
+    const lengthQuery = api.length.getAll.useQuery({}, { queryKey: ["length.getAll", {}] });
+
+
+    const { classes } = useStyles();
+
+
+    if (editDiffQuery.isLoading) return <Loader />;
+
+    if (editDiffQuery.isError) return <Text size="sm">{editDiffQuery.error.message}</Text>;
+
+
+    const editDiff = editDiffQuery.data;
+
+
+    const formatValue: FieldValueFormatter = (fieldDiff, value) => {
+        if (value === null || value === "") return EMPTY_VALUE_STRING;
+
+        if (fieldDiff.field === "canonicalDifficultyId") return difficultyQuery.data?.find((difficulty) => difficulty.id === value)?.name ?? String(value);
+
+        if (fieldDiff.field === "lengthId") return lengthQuery.data?.find((length) => length.id === value)?.name ?? String(value);
+
+        return String(value);
+    };
+
+
+    const relationDiff = editDiff.tags ?? editDiff.techs;
+
+    const hasRelationChanges = !!relationDiff && (relationDiff.added.length > 0 || relationDiff.removed.length > 0 || relationDiff.changed.length > 0);
+
+
+    if (!editDiff.fields.length && !hasRelationChanges) return (
+        <Text size="sm" className={classes.editDiff}>This edit doesn&apos;t change anything.</Text>
+    );
+
+
+    return (
+        <Stack className={classes.editDiff} spacing="xs">
+            {editDiff.fields.length ? (
+                <Table fontSize="sm">
+                    <thead>
+                        <tr>
+                            <th>Field</th>
+                            <th>Current</th>
+                            <th>Proposed</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {editDiff.fields.map(
+                            (fieldDiff) => (
+                                <tr key={fieldDiff.field}>
+                                    <td>{fieldDiff.field}</td>
+                                    <td className={classes.oldValue}>{formatValue(fieldDiff, fieldDiff.oldValue)}</td>
+                                    <td className={classes.newValue}>{formatValue(fieldDiff, fieldDiff.newValue)}</td>
+                                </tr>
+                            ),
+                        )}
+                    </tbody>
+                </Table>
+            ) : null}
+            {editDiff.tags ? <RelationDiffText label="Tags" relationDiff={editDiff.tags} /> : null}
+            {editDiff.techs ? <RelationDiffText label="Techs" relationDiff={editDiff.techs} /> : null}
+        </Stack>
+    );
+};
\ No newline at end of file
@@ -0,0 +1,218 @@
+import { useMemo, useState } from "react";
+import { Button, Group, MultiSelect, Stack, Text, createStyles } from "@mantine/core";
+import { DataTable } from "mantine-datatable";
+import { api } from "~/utils/api";
+import type { ModerationBulkResult, ModerationQueueItem } from "~/server/api/routers/moderation";
+import { truncateString } from "~/utils/truncateString";
+import { EditDiff } from "./editDiff";
+
+
+
+
+const NAME_COLUMN_MAX_LETTERS = 40;
+
+const ITEM_TYPE_LABELS: Record<ModerationQueueItem["itemType"], string> = {
+    Mod_New: "New Mod",
+    Mod_Edit: "Mod Edit",
+    Map_NewSolo: "New Map",
+    Map_NewWithMod_New: "New Map (With New Mod)",
+    Map_Edit: "Map Edit",
+};
+
+
+
+
+const useStyles = createStyles(
+    (theme) => ({
+        queue: {
+            color: theme.white,
+        },
+        table: {
+            height: "470px",
+        },
+        failedResult: {
+            color: theme.colors.red[5],
+        },
+    }),
+);
+
+
+
+
+/** Formats a number of seconds as the largest whole unit, e.g. "3d" or "5h". */
+const getAgeString = (ageSeconds: number): string => {
+    const minutes = Math.floor(ageSeconds / 60);
+    const hours = Math.floor(minutes / 60);
+    const days = Math.floor(hours / 24);
+
+    if (days) return `${days}d`;
+    if (hours) return `${hours}h`;
+
+    return `${minutes}m`;
+};
+
+
+const getItemKey = (item: Pick<ModerationQueueItem, "itemType" | "id">) => `${item.itemType}-${item.id}`;
+
+
+
+
+type ModerationQueueProps = {
+    userId: string;
+};
+
+
+export const ModerationQueue = ({ userId }: ModerationQueueProps) => {
+    const [selectedItemTypes, setSelectedItemTypes] = useState<ModerationQueueItem["itemType"][]>([]);
+    const [selectedRecords, setSelectedRecords] = useState<ModerationQueueItem[]>([]);
+    const [failedResults, setFailedResults] = useState<ModerationBulkResult[]>([]);
+
+
+    const queueQueryInput = { itemTypes: selectedItemTypes.length ? selectedItemTypes : undefined };
+
+    const queueQuery = api.moderation.getQueue.useQuery(queueQueryInput, { queryKey: ["moderation.getQueue", queueQueryInput] });
+
+    const queue = useMemo(() => queueQuery.data ?? [], [queueQuery.data]);
+
+
+    const utils = api.useUtils();
+
+    const onSettled = async () => {
+        setSelectedRecords([]);
+
+        await utils.moderation.getQueue.invalidate();
+    };
+
+    const onBulkSuccess = (results: ModerationBulkResult[]) => setFailedResults(results.filter((result) => !result.success));
+
+
+    const claimMutation = api.moderation.claim.useMutation({ onSettled });
+    const releaseMutation = api.moderation.release.useMutation({ onSettled });
+    const approveManyMutation = api.moderation.approveMany.useMutation({ onSuccess: onBulkSuccess, onSettled });
+    const rejectManyMutation = api.moderation.rejectMany.useMutation({ onSuccess: onBulkSuccess, onSettled });
+
+    const isMutating = claimMutation.isLoading || releaseMutation.isLoading || approveManyMutation.isLoading || rejectManyMutation.isLoading;
+
+
+    const selectedItems = selectedRecords.map(({ itemType, id }) => ({ itemType, id }));
+
+
+    const { classes } = useStyles();
+
+
+    if (queueQuery.isError) return (
+        <Text className={classes.failedResult}>{queueQuery.error.message}</Text>    //non-moderators get a FORBIDDEN error here
+    );
+
+
+    return (
+        <Stack className={classes.queue} spacing="sm">
+            <Group position="apart">
+                <MultiSelect
+                    data={Object.entries(ITEM_TYPE_LABELS).map(([value, label]) => ({ value, label }))}
+                    value={selectedItemTypes}
+                    onChange={(value) => setSelectedItemTypes(value as ModerationQueueItem["itemType"][])}
+                    placeholder="All types"
+                    clearable
+                />
+                <Group spacing="xs">
+                    <Text size="sm">{selectedRecords.length} selected</Text>
+                    <Button
+                        disabled={!selectedRecords.length || isMutating}
+                        onClick={() => approveManyMutation.mutate({ items: selectedItems })}
+                    >
+                        Approve
+                    </Button>
+                    <Button
+                        color="red"
+                        disabled={!selectedRecords.length || isMutating}
+                        onClick={() => rejectManyMutation.mutate({ items: selectedItems })}
+                    >
+                        Reject
+                    </Button>
+                </Group>
+            </Group>
+            {failedResults.map(
+                (result) => (
+                    <Text key={getItemKey(result)} size="sm" className={classes.failedResult}>
+                        {`${ITEM_TYPE_LABELS[result.itemType]} ${result.id}: ${result.error ?? "Unknown error"}`}
+                    </Text>
+                ),
+            )}
+            <DataTable
+                className={classes.table}
+                withBorder
+                striped
+                idAccessor={getItemKey}
+                records={queue}
+                fetching={queueQuery.isLoading}
+                noRecordsText="The queue is empty"
+                selectedRecords={selectedRecords}
+                onSelectedRecordsChange={setSelectedRecords}
+                isRecordSelectable={(item) => !item.claim || item.claim.claimedBy === userId}     //items claimed by other moderators can't be acted on
+                rowExpansion={{
+                    trigger: "click",
+                    allowMultiple: false,
+                    content: ({ record }) => (record.itemType === "Mod_Edit" || record.itemType === "Map_Edit") ? (     //only edits have a live record to compare against
+                        <EditDiff
+                            itemType={record.itemType}
+                            id={record.id}
+                        />
+                    ) : null,
+                }}
+                columns={[
+                    {
+                        accessor: "itemType",
+                        title: "Type",
+                        render: (item) => ITEM_TYPE_LABELS[item.itemType],
+                    },
+                    {
+                        accessor: "name",
+                        title: "Name",
+                        ellipsis: true,
+                        render: (item) => truncateString(item.name, NAME_COLUMN_MAX_LETTERS),
+                    },
+                    {
+                        accessor: "submitterName",
+                        title: "Submitted By",
+                        render: (item) => item.submitterName ?? "Unknown",
+                    },
+                    {
+                        accessor: "age",
+                        title: "Age",
+                        render: (item) => getAgeString(item.age),
+                    },
+                    {
+                        accessor: "claim",
+                        title: "Claim",
+                        render: (item) => {
+                            if (!item.claim) return (
+                                <Button
+                                    compact
+                                    variant="outline"
+                                    disabled={isMutating}
+                                    onClick={() => claimMutation.mutate({ itemType: item.itemType, id: item.id })}
+                                >
+                                    Claim
+                                </Button>
+                            );
+
+                            if (item.claim.claimedBy === userId) return (
+                                <Button
+                                    compact
+                                    variant="outline"
+                                    disabled={isMutating}
+                                    onClick={() => releaseMutation.mutate({ itemType: item.itemType, id: item.id })}
+                                >
+                                    Release
+                                </Button>
+                            );
+
+                            return `Claimed by ${item.claim.claimerName}`;
+                        },
+                    },
+                ]}
+            />
+        </Stack>
+    );
+};
\ No newline at end of file
@@ -2,7 +2,9 @@ import { Flex, Loader, Stack, Text, createStyles } from "@mantine/core";
 import type { ModWithInfo } from "~/components/mods/types";
 import { Maps } from "./maps/maps";
 import { ModDownloadButton } from "./modDownloadButton";
+import { ModDependencies } from "./modDependencies";
 import { ModCarousel } from "./modCarousel";
+import { ModRatingHistogram } from "./ratingHistogram";
 import { LinkButton } from "~/components/linkButton";
 import { COMING_SOON_PATHNAME } from "~/consts/pathnames";
 import { expandedModColors } from "~/styles/expandedModColors";
@@ -96,11 +98,16 @@ export const ExpandedMod = ({
                         </Text>
                     </LinkButton>
                 </Flex>
+                <ModDependencies modId={mod.id} />
                 <ModCarousel
                     gamebananaModId={mod.gamebananaModId}
                     numberOfMaps={mod.mapCount}
                     colors={colors}
                 />
+                <ModRatingHistogram
+                    modId={mod.id}
+                    colors={colors}
+                />
             </Stack>
         </Flex>
     );
@@ -64,7 +64,7 @@ const getMapsWithTechAndRatingInfo = (
                 qualityCount = narrowedRating.qualityCount;
                 difficultyCount = narrowedRating.difficultyCount;
 
-                if (narrowedRating.averageQualityId) qualityId = narrowedRating.averageQualityId;
+                if (narrowedRating.adjustedQualityId !== undefined) qualityId = narrowedRating.adjustedQualityId;
 
                 if (narrowedRating.averageDifficultyId) difficultyId = narrowedRating.averageDifficultyId;
             }
@@ -147,36 +147,27 @@ export const Maps = ({
 
 
     //get ratings data
-    const ratingQueries = api.useQueries(
-        (useQueriesApi) => {
-            if (isLoadingMod) return [];
-
-            return mapsWithTechInfo.map(
-                (mapWithTechInfo) => useQueriesApi.rating.getMapRatingData(
-                    { mapId: mapWithTechInfo.id },
-                    { queryKey: ["rating.getMapRatingData", { mapId: mapWithTechInfo.id }] },
-                ),
-            );
+    const modId = mapsWithTechInfo[0]?.modId;
+
+    const ratingQuery = api.rating.getAllMapRatingData.useQuery(
+        { modId },
+        {
+            queryKey: ["rating.getAllMapRatingData", { modId }],
+            enabled: !isLoadingMod && modId !== undefined,
         },
     );
 
-    const isLoadingRatings = isLoadingMod || ratingQueries.some((query) => query.isLoading);
+    const isLoadingRatings = isLoadingMod || (modId !== undefined && ratingQuery.isLoading);
 
-    const ratingsFromMapIds = useMemo(() => {
+    const ratingsFromMapIds: MapRatingData[] = useMemo(() => {
         if (isLoadingRatings) return [];
 
-        const ratings_maybeEmpty: MapRatingData[] = [];
-
-        ratingQueries.forEach((ratingQuery) => {
-            const rating = ratingQuery.data;
-
-            if (rating !== undefined) ratings_maybeEmpty.push(rating);
-        });
+        const ratings_maybeEmpty = ratingQuery.data ?? [];
 
-        if (!ratings_maybeEmpty.length) console.log(`ratings_maybeEmpty is empty. mapsWithTechInfo = "${mapsWithTechInfo}"`);
+        if (!ratings_maybeEmpty.length) console.log(`ratings_maybeEmpty is empty. mapsWithTechInfo = "${JSON.stringify(mapsWithTechInfo)}"`);
 
         return ratings_maybeEmpty;
-    }, [isLoadingRatings, ratingQueries, mapsWithTechInfo]);  //TODO: figure out if mapsWithTechInfo can be removed from this dependency array
+    }, [isLoadingRatings, ratingQuery.data, mapsWithTechInfo]);
 
 
     //check that all data is loaded
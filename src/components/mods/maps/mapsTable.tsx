@@ -11,6 +11,7 @@ import type { DifficultyColor } from "~/styles/difficultyColors";
 import { getOrdinal } from "~/utils/getOrdinal";
 import { COMING_SOON_PATHNAME } from "~/consts/pathnames";
 import { truncateString } from "~/utils/truncateString";
+import { MapRatingHistogram } from "../ratingHistogram";
 
 
 
@@ -431,6 +432,16 @@ export const MapsTable = (
             ]}
             sortStatus={sortStatus}
             onSortStatusChange={setSortStatus as Dispatch<SetStateAction<DataTableSortStatus>>}     //un-narrow type to match types in DataTable
+            rowExpansion={{
+                trigger: "click",
+                allowMultiple: false,
+                content: ({ record }) => (
+                    <MapRatingHistogram
+                        mapId={record.id}
+                        colors={colors}
+                    />
+                ),
+            }}
         />
     );
 };
\ No newline at end of file
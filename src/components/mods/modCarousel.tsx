@@ -1,9 +1,11 @@
+import { useState } from "react";
 import { Carousel } from "@mantine/carousel";
 import { useModImageUrls } from "~/hooks/globalContexts/modImageUrls";
 import { createStyles } from "@mantine/core";
 import { Image } from "@mantine/core";      //TODO!: replace with nextjs Image component once next.config.mjs is fixed
 // import Image from "next/image";
 import type { DifficultyColor } from "~/styles/difficultyColors";
+import type { ModScreenshot } from "~/server/gamebananaMirror/resolveModScreenshots";
 
 
 
@@ -58,6 +60,27 @@ const useStyles = createStyles(
 
 
 
+/** Switches to GameBanana's copy if the mirror's copy fails to load. */
+const ModCarouselImage = ({ url, fallbackUrl }: ModScreenshot) => {
+    const [imageUrl, setImageUrl] = useState(url);
+
+
+    return (
+        <Image
+            src={imageUrl}
+            alt="Mod image"
+            imageProps={{
+                onError: () => {
+                    if (fallbackUrl !== null && imageUrl !== fallbackUrl) setImageUrl(fallbackUrl);
+                },
+            }}
+        />
+    );
+};
+
+
+
+
 type modCarouselProps = {
     gamebananaModId: number,
     numberOfMaps: number,
@@ -82,15 +105,15 @@ export const ModCarousel = ({ gamebananaModId, numberOfMaps, colors }: modCarous
             controls: classes.controls,
             control: classes.control,
         }}>
-            {imageUrls.map((imageUrl) => (
+            {imageUrls.map((screenshot) => (
                 <Carousel.Slide
-                    key={imageUrl}
+                    key={screenshot.url}
                     gap={"md"}
                     size={"400px"}
                 >
-                    <Image
-                        src={imageUrl}
-                        alt="Mod image"
+                    <ModCarouselImage
+                        url={screenshot.url}
+                        fallbackUrl={screenshot.fallbackUrl}
                     />
                 </Carousel.Slide>
             ))}
@@ -0,0 +1,47 @@
+import { Text, createStyles } from "@mantine/core";
+import { api } from "~/utils/api";
+
+
+
+
+const useStyles = createStyles(
+    (theme) => ({
+        dependencies: {
+            margin: `${theme.spacing.xs} 0 0`,
+            /** top and bottom | left and right */
+            padding: "0 20px",
+            textAlign: "center",
+        },
+    }),
+);
+
+
+
+
+type ModDependenciesProps = {
+    modId: number;
+};
+
+
+/** Lists the mods that the download button's 1-click install will also install. Renders nothing while loading, or if there aren't any. */
+export const ModDependencies = ({ modId }: ModDependenciesProps) => {
+    const dependenciesQuery = api.everestMod.getDependenciesByModId.useQuery({ id: modId }, { queryKey: ["everestMod.getDependenciesByModId", { id: modId }] });
+
+
+    const { classes } = useStyles();
+
+
+    const dependencies = dependenciesQuery.data ?? [];
+
+    if (dependencies.length === 0) return null;
+
+
+    return (
+        <Text
+            size="sm"
+            className={classes.dependencies}
+        >
+            Requires: {dependencies.map((dependency) => dependency.modName ?? dependency.name).join(", ")}
+        </Text>
+    );
+};
\ No newline at end of file
@@ -11,8 +11,9 @@ import { NumberSearch } from "~/components/filterPopovers/numberSearch";
 import { ListSelect } from "~/components/filterPopovers/listSelect";
 import { ModsTableTooltip, SEPARATOR_STRING, type AddPeriodToText_Base, type AddPeriodToText_Union } from "./modsTableTooltip";
 import { truncateString } from "~/utils/truncateString";
-import type { ModWithInfo, Tech } from "~/components/mods/types";
+import type { ModWithInfo, Tech, Tag } from "~/components/mods/types";
 import { noRatingsFoundMessage } from "~/consts/noRatingsFoundMessage";
+import { MINIMUM_QUALITY_RATINGS } from "~/consts/qualityScoring";
 import { defaultToLocaleDateStringOptions } from "~/consts/defaultToLocaleDateStringOptions";
 import { colorsForDifficultyIndex, greatestValidDifficultyIndex } from "~/styles/modsColors";
 import { canonicalDifficultyNames, difficultyColors, type DifficultyColor } from "~/styles/difficultyColors";
@@ -35,6 +36,7 @@ const ACTIVE_DIFFICULTY_TAB_BORDER_HEIGHT = "2px";
 const NAME_COLUMN_MAX_LETTERS = 35;
 const PUBLISHER_COLUMN_MAX_LETTERS = 15;
 const TECHS_COLUMN_MAX_LETTERS = 20;
+const TAGS_COLUMN_MAX_LETTERS = 20;
 
 
 /** Easiest difficulty first */
@@ -279,6 +281,7 @@ type ModsTableProps = {
     qualities: Quality[];
     difficulties: Difficulty[];
     techs: Tech[];
+    tags: Tag[];
     modsWithInfo: ModWithInfo[];
     isLoading: boolean;
 };
@@ -288,7 +291,7 @@ type ModsTableProps = {
 
 // We create a seperate ModsTable component to prevent the Mods queries
 // running again when the ModsTable state changes.
-export const ModsTable = ({ qualities, difficulties, techs, modsWithInfo, isLoading }: ModsTableProps) => {
+export const ModsTable = ({ qualities, difficulties, techs, tags, modsWithInfo, isLoading }: ModsTableProps) => {
     const [currentTabIndex, setCurrentTabIndex] = useState<number | null>(null);    //track the currently selected parent difficulty
 
 
@@ -314,6 +317,14 @@ export const ModsTable = ({ qualities, difficulties, techs, modsWithInfo, isLoad
     );
 
 
+    const tagNames = useMemo(   //get tag names for filter component
+        () => tags
+            .map((tag) => tag.name)
+            .sort((a, b) => a.localeCompare(b)),
+        [tags],
+    );
+
+
     const qualityNames = useMemo(   //get quality names for filter component
         () => [...qualities]
             .sort((a, b) => b.order - a.order)  //better qualities have higher orders, so we want them to sort first
@@ -415,6 +426,10 @@ export const ModsTable = ({ qualities, difficulties, techs, modsWithInfo, isLoad
     const [doesTechsFCFilterIncludeTechsAny, setDoesTechsFCFilterIncludeTechsAny] = useState<boolean>(false);
 
 
+    const [selectedTags, setSelectedTags] = useState<ModWithInfo["Tags"]>([]);
+    const isTagsFiltered = selectedTags.length > 0;
+
+
     const [selectedQualities, setSelectedQualities] = useState<string[]>([]);
     const isQualityFiltered = selectedQualities.length > 0;
 
@@ -513,6 +528,14 @@ export const ModsTable = ({ qualities, difficulties, techs, modsWithInfo, isLoad
             }
 
 
+            if (
+                selectedTags.length &&
+                !selectedTags.some(tagName => modWithInfo.Tags.includes(tagName))
+            ) {
+                return false;
+            }
+
+
             if (
                 selectedQualities.length &&
                 !selectedQualities.includes(modWithInfo.Quality.name)
@@ -600,7 +623,7 @@ export const ModsTable = ({ qualities, difficulties, techs, modsWithInfo, isLoad
 
             return true;
         });
-    }, [debouncedNameQuery, selectedModTypes, debouncedPublisherQuery, publicationDateRange, selectedTechsAny, selectedTechsFC, selectedQualities, qualityRatingsCountRange, selectedChildDifficulties, difficultyRatingsCountRange, mapCountRange, currentTabIndex, parentDifficultyNames, difficulties, modsWithInfo]);
+    }, [debouncedNameQuery, selectedModTypes, debouncedPublisherQuery, publicationDateRange, selectedTechsAny, selectedTechsFC, selectedTags, selectedQualities, qualityRatingsCountRange, selectedChildDifficulties, difficultyRatingsCountRange, mapCountRange, currentTabIndex, parentDifficultyNames, difficulties, modsWithInfo]);
 
 
 
@@ -727,7 +750,7 @@ export const ModsTable = ({ qualities, difficulties, techs, modsWithInfo, isLoad
     //reset page when required
     useEffect(() => {
         setPage(1);
-    }, [sortStatus, pageSize, debouncedNameQuery, selectedModTypes, debouncedPublisherQuery, publicationDateRange, selectedTechsAny, selectedTechsFC, selectedQualities, qualityRatingsCountRange, selectedChildDifficulties, difficultyRatingsCountRange, mapCountRange, currentTabIndex]);
+    }, [sortStatus, pageSize, debouncedNameQuery, selectedModTypes, debouncedPublisherQuery, publicationDateRange, selectedTechsAny, selectedTechsFC, selectedTags, selectedQualities, qualityRatingsCountRange, selectedChildDifficulties, difficultyRatingsCountRange, mapCountRange, currentTabIndex]);
 
     //handle providing datatable with correct subset of data
     // const [records, setRecords] = useState<ModWithInfo[]>(sortedModsWithIsExpanded.slice(0, pageSize));
@@ -985,13 +1008,18 @@ export const ModsTable = ({ qualities, difficulties, techs, modsWithInfo, isLoad
                                     </Text>
                                 );
 
+
+                                const qualityCountText = modWithInfo.isBelowMinimumQualityRatings ?
+                                    `Based on only ${modWithInfo.Quality.count} ratings. At least ${MINIMUM_QUALITY_RATINGS} ratings are needed for a reliable score.` :
+                                    `Based on ${modWithInfo.Quality.count} ratings.`;
+
                                 return (
                                     <ModsTableTooltip
                                         prefixDropdownWithTarget
                                         targetStrings={{
                                             label: "Quality",
-                                            text: modWithInfo.Quality.name,
-                                            textForDropdown: `${modWithInfo.Quality.name}. Based on ${modWithInfo.Quality.count} ratings.`,
+                                            text: modWithInfo.isBelowMinimumQualityRatings ? `${modWithInfo.Quality.name}*` : modWithInfo.Quality.name,   //flag mods with too few ratings for a reliable score
+                                            textForDropdown: `${modWithInfo.Quality.name}. ${qualityCountText}`,
                                             addPeriodToText: false,
                                         }}
                                         dropdownStrings={{
@@ -1090,6 +1118,53 @@ export const ModsTable = ({ qualities, difficulties, techs, modsWithInfo, isLoad
                             filtering: isMapCountFiltered,
                             titleClassName: isMapCountFiltered ? classes.filteredColumnTitle : classes.unfilteredColumnTitle,
                         },
+                        {
+                            accessor: "Tags",
+                            title: "Tags",
+                            sortable: false,
+                            ellipsis: true,
+                            render: (modWithInfo) => {
+                                const tagsString = modWithInfo.Tags.join(", ");
+
+                                if (tagsString === "") {
+                                    return (
+                                        <Text
+                                            size="sm"
+                                        >
+                                            None
+                                        </Text>
+                                    );
+                                }
+
+
+                                return (
+                                    <ModsTableTooltip
+                                        prefixDropdownWithTarget
+                                        targetStrings={{
+                                            text: truncateString(tagsString, TAGS_COLUMN_MAX_LETTERS),
+                                            textForDropdown: tagsString,
+                                            addPeriodToText: false,
+                                        }}
+                                        dropdownStrings={{
+                                            text: "",
+                                            addPeriodToText: false,
+                                        }}
+                                        multiline={true}
+                                        maxWidth={200}
+                                    />
+                                );
+                            },
+                            filter: (
+                                <ListSelect
+                                    permittedStrings={tagNames}
+                                    selectedStrings={selectedTags}
+                                    setSelectedStrings={setSelectedTags}
+                                    difficultyIndex={currentTabIndex}
+                                />
+                            ),
+                            filtering: isTagsFiltered,
+                            titleClassName: isTagsFiltered ? classes.filteredColumnTitle : classes.unfilteredColumnTitle,
+                        },
                         {
                             accessor: "techsAny",
                             title: "Techs",
@@ -0,0 +1,183 @@
+import { Group, Loader, Stack, Text, Title, createStyles } from "@mantine/core";
+import { api } from "~/utils/api";
+import type { MapRatingDistribution, ModRatingDistribution } from "~/components/mods/types";
+import type { DifficultyColor } from "~/styles/difficultyColors";
+
+
+
+
+const BAR_MAX_WIDTH_PIXELS = 150;
+const LABEL_WIDTH_PIXELS = 130;
+
+
+
+
+const useStyles = createStyles(
+    (
+        theme,
+        { colors }: { colors: DifficultyColor; },
+    ) => ({
+        histogram: {
+            padding: `${theme.spacing.xs} ${theme.spacing.sm}`,
+        },
+        label: {
+            width: `${LABEL_WIDTH_PIXELS}px`,
+            textAlign: "right",
+        },
+        barContainer: {
+            width: `${BAR_MAX_WIDTH_PIXELS}px`,
+        },
+        bar: {
+            height: "12px",
+            borderRadius: "0 6px 6px 0",
+            backgroundColor: colors.primary.backgroundColor,
+        },
+    }),
+);
+
+
+
+
+type HistogramRow = {
+    id: number;
+    label: string;
+    count: number;
+};
+
+
+type HistogramProps = {
+    title: string;
+    rows: HistogramRow[];
+    colors: DifficultyColor;
+};
+
+
+const Histogram = ({ title, rows, colors }: HistogramProps) => {
+    const { classes } = useStyles({ colors });
+
+
+    const maxCount = Math.max(0, ...rows.map((row) => row.count));
+
+
+    return (
+        <Stack spacing="2px">
+            <Text size="sm" weight="bold">{title}</Text>
+            {rows.map(
+                (row) => (
+                    <Group
+                        key={row.id}
+                        spacing="xs"
+                        noWrap
+                    >
+                        <Text size="xs" className={classes.label}>{row.label}</Text>
+                        <div className={classes.barContainer}>
+                            <div
+                                className={classes.bar}
+                                style={{ width: maxCount ? `${(row.count / maxCount) * 100}%` : "0" }}
+                            />
+                        </div>
+                        <Text size="xs">{row.count}</Text>
+                    </Group>
+                ),
+            )}
+        </Stack>
+    );
+};
+
+
+
+
+type RatingHistogramProps = {
+    isLoading: boolean;
+    ratingDistribution: ModRatingDistribution | MapRatingDistribution | undefined;
+    colors: DifficultyColor;
+};
+
+
+export const RatingHistogram = ({ isLoading, ratingDistribution, colors }: RatingHistogramProps) => {
+    const { classes } = useStyles({ colors });
+
+
+    if (isLoading) return <Loader />;
+
+    if (!ratingDistribution) return null;
+
+
+    const qualityRows: HistogramRow[] = [...ratingDistribution.qualityCounts]
+        .reverse()  //better qualities have higher orders, and we want them to be at the top
+        .map((qualityCount) => ({
+            id: qualityCount.id,
+            label: qualityCount.name,
+            count: qualityCount.count,
+        }));
+
+    const difficultyRows: HistogramRow[] = ratingDistribution.difficultyCounts.map(
+        (difficultyCount) => ({
+            id: difficultyCount.id,
+            label: `${difficultyCount.name} ${difficultyCount.parentDifficultyName}`,
+            count: difficultyCount.count,
+        }),
+    );
+
+
+    return (
+        <Stack
+            align="center"
+            spacing="xs"
+            className={classes.histogram}
+        >
+            <Title order={4}>Rating Distribution</Title>
+            <Group
+                align="flex-start"
+                spacing="xl"
+            >
+                <Histogram title="Quality" rows={qualityRows} colors={colors} />
+                <Histogram title="Difficulty" rows={difficultyRows} colors={colors} />
+            </Group>
+        </Stack>
+    );
+};
+
+
+
+
+type ModRatingHistogramProps = {
+    modId: number;
+    colors: DifficultyColor;
+};
+
+
+export const ModRatingHistogram = ({ modId, colors }: ModRatingHistogramProps) => {
+    const ratingDistributionQuery = api.rating.getModRatingDistribution.useQuery({ modId }, { queryKey: ["rating.getModRatingDistribution", { modId }] });
+
+
+    return (
+        <RatingHistogram
+            isLoading={ratingDistributionQuery.isLoading}
+            ratingDistribution={ratingDistributionQuery.data}
+            colors={colors}
+        />
+    );
+};
+
+
+
+
+type MapRatingHistogramProps = {
+    mapId: number;
+    colors: DifficultyColor;
+};
+
+
+export const MapRatingHistogram = ({ mapId, colors }: MapRatingHistogramProps) => {
+    const ratingDistributionQuery = api.rating.getMapRatingDistribution.useQuery({ mapId }, { queryKey: ["rating.getMapRatingDistribution", { mapId }] });
+
+
+    return (
+        <RatingHistogram
+            isLoading={ratingDistributionQuery.isLoading}
+            ratingDistribution={ratingDistributionQuery.data}
+            colors={colors}
+        />
+    );
+};
\ No newline at end of file
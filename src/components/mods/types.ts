@@ -20,6 +20,10 @@ export type ModYesRatingData = {    //TODO: figure out how to do this through na
 } & RatingsInfo;
 
 
+export type ModRatingDistribution = RouterOutputs["rating"]["getModRatingDistribution"];
+export type MapRatingDistribution = RouterOutputs["rating"]["getMapRatingDistribution"];
+
+
 export type Map = RouterOutputs["map"]["getById"];
 
 export type MapRatingData = RouterOutputs["rating"]["getMapRatingData"];
@@ -33,6 +37,7 @@ export type Quality = RouterOutputs["quality"]["getAll"][number];
 export type Difficulty = RouterOutputs["difficulty"]["getAll"][number];
 export type Publisher = RouterOutputs["publisher"]["getAll"][number];
 export type Tech = RouterOutputs["tech"]["getAll"][number];
+export type Tag = RouterOutputs["tag"]["getAll"][number];
 export type Length = RouterOutputs["length"]["getAll"][number];
 
 
@@ -68,10 +73,13 @@ export type ModWithInfo = {
     lowestCannonicalDifficulty: number | undefined;
     Quality: RatingInfo;
     qualityDescription: string;
+    /** true when the mod has too few quality ratings for its quality to be reliable */
+    isBelowMinimumQualityRatings: boolean;
     Difficulty: RatingInfo;
     mapCount: number;
     MapsWithTechInfo: MapWithTechInfo[];
     publisherName: Publisher["name"];
     TechsAny: Tech["name"][];
     TechsFC: Tech["name"][];
+    Tags: Tag["name"][];
 } & Omit<Mod, "Map">;
\ No newline at end of file
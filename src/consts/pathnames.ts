@@ -1,3 +1,4 @@
 export const MODS_PAGE_PATHNAME = "/mods";
 export const FAQ_PAGE_PATHNAME = "/faq";
-export const COMING_SOON_PATHNAME = "/coming-soon";
\ No newline at end of file
+export const COMING_SOON_PATHNAME = "/coming-soon";
+export const MODERATION_PAGE_PATHNAME = "/moderation";
\ No newline at end of file
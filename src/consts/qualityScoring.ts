@@ -0,0 +1,16 @@
+/**
+ * "mean" uses the plain average of a mod's or map's quality ratings.
+ * "bayesian" pulls the average towards the global average quality, so that a handful of ratings can't produce an extreme score.
+ */
+export const QUALITY_SCORING_MODES = ["mean", "bayesian"] as const;
+export type QualityScoringMode = typeof QUALITY_SCORING_MODES[number];
+
+export const DEFAULT_QUALITY_SCORING_MODE: QualityScoringMode = "bayesian";
+
+
+/** The number of "virtual" ratings at the global average quality that are mixed into each Bayesian score. */
+export const BAYESIAN_PRIOR_WEIGHT = 5;
+
+
+/** Mods and maps with fewer quality ratings than this are flagged as not having a reliable score. */
+export const MINIMUM_QUALITY_RATINGS = 3;
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+
+
+
+export const GAMEBANANA_API_ERROR_STRING = "GameBanana API not responding as expected.";
+
+
+
+
+const gamebananaFileMetadataSchema = z.object({
+    _idRow: z.union([z.string(), z.number()]),
+    _sFile: z.string(),
+    _nFilesize: z.number(),
+    _sDescription: z.string(),
+    _tsDateAdded: z.number(),
+    _nDownloadCount: z.number(),
+    _sAnalysisState: z.string(),
+    _sDownloadUrl: z.string(),
+    _sMd5Checksum: z.string(),
+    _sClamAvResult: z.string(),
+    _sAnalysisResult: z.string(),
+    _bContainsExe: z.boolean(),
+});
+
+export type GamebananaFileMetadata = z.infer<typeof gamebananaFileMetadataSchema>;
+
+
+/** Contains other properties, but we don't use them so they aren't specified or checked. */
+const gamebananaScreenshotSchema = z.object({
+    _sFile: z.string(),
+});
+
+export type GamebananaScreenshot = z.infer<typeof gamebananaScreenshotSchema>;
+
+
+
+
+/**
+ * The schema for each field that can be requested from the Core/Item/Data endpoint, by item type.
+ * Add a field here before requesting it, so that its response is always validated.
+ */
+export const GAMEBANANA_ITEM_FIELD_SCHEMAS = {
+    Mod: {
+        userid: z.number().int().positive(),
+        "Owner().name": z.string().min(1),
+        date: z.number().int().nonnegative(),
+        name: z.string().min(1),
+        /** GameBanana returns the screenshots as a JSON string */
+        screenshots: z.string().transform(
+            (screenshotsString, context) => {
+                try {
+                    return z.array(gamebananaScreenshotSchema).parse(JSON.parse(screenshotsString));
+                }
+                catch {
+                    context.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid screenshots JSON" });
+
+                    return z.NEVER;
+                }
+            },
+        ),
+        /** keyed by file id. GameBanana returns an empty array instead of an object when there are no files. */
+        "Files().aFiles()": z.union([
+            z.record(z.string(), gamebananaFileMetadataSchema),
+            z.array(z.never()).transform(() => ({}) as Record<string, GamebananaFileMetadata>),
+        ]),
+    },
+} as const satisfies Record<string, Record<string, z.ZodTypeAny>>;
+
+
+export type GamebananaItemType = keyof typeof GAMEBANANA_ITEM_FIELD_SCHEMAS;
+
+export type GamebananaItemField<ItemType extends GamebananaItemType> = keyof typeof GAMEBANANA_ITEM_FIELD_SCHEMAS[ItemType] & string;
+
+export type GamebananaItemData<
+    ItemType extends GamebananaItemType,
+    Fields extends GamebananaItemField<ItemType>,
+> = {
+        [Field in Fields]: typeof GAMEBANANA_ITEM_FIELD_SCHEMAS[ItemType][Field] extends z.ZodTypeAny ? z.output<typeof GAMEBANANA_ITEM_FIELD_SCHEMAS[ItemType][Field]> : never;
+    };
+
+
+
+
+/** Core/Member/IdentifyById returns an array whose first element is the member's name. */
+export const gamebananaMemberIdentitySchema = z.tuple([z.string().min(1)]).rest(z.unknown());
+
+
+/** Only the fields we use are specified. */
+export const gamebananaMemberProfileSchema = z.object({
+    _sBio: z.string().optional(),
+});
\ No newline at end of file
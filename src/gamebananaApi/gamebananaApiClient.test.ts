@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { type GamebananaApiClientOptions, createGamebananaApiClient } from "~/gamebananaApi/gamebananaApiClient";
+import { GAMEBANANA_API_ERROR_STRING } from "~/gamebananaApi/fieldSchemas";
+
+
+
+
+const MEMBER_ID = 1;
+
+const MEMBER_NAME = "Fake Member";
+
+const CACHE_TTL_MILLISECONDS = 1000;
+
+
+type FakeResponse = {
+    status: number;
+    body: unknown;
+};
+
+
+
+
+/** Returns a fetch that answers each attempt with the next response in `responses`, repeating the last one once they run out. */
+const getFakeFetch = (responses: FakeResponse[]) => {
+    let attemptCount = 0;
+
+    const fakeFetch = vi.fn(() => {
+        const response = responses[Math.min(attemptCount, responses.length - 1)];
+
+        attemptCount++;
+
+        if (!response) throw new Error("No fake responses");
+
+
+        return Promise.resolve(new Response(JSON.stringify(response.body), { status: response.status }));
+    });
+
+
+    return fakeFetch;
+};
+
+
+/** Returns a fetch that never responds, and rejects once its request is aborted. */
+const getHangingFetch = () => vi.fn((_url: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener("abort", () => reject(new Error("The fake request was aborted")));
+}));
+
+
+const getClient = (fetchFunction: GamebananaApiClientOptions["fetch"], options: Partial<GamebananaApiClientOptions> = {}) => createGamebananaApiClient({
+    apiUrl: "http://gamebanana.test",
+    apiV11Url: "http://gamebanana.test/apiv11",
+    fetch: fetchFunction,
+    timeoutMilliseconds: 1000,
+    maxRetries: 2,
+    retryBaseDelayMilliseconds: 0,
+    cacheTtlMilliseconds: CACHE_TTL_MILLISECONDS,
+    ...options,
+});
+
+
+
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+
+
+
+describe("retries", () => {
+    it("retries 429s and 5xxs until an attempt succeeds", async () => {
+        const fakeFetch = getFakeFetch([
+            { status: 429, body: null },
+            { status: 503, body: null },
+            { status: 200, body: [MEMBER_NAME] },
+        ]);
+
+
+        await expect(getClient(fakeFetch).getMemberName(MEMBER_ID)).resolves.toBe(MEMBER_NAME);
+
+        expect(fakeFetch).toHaveBeenCalledTimes(3);
+    });
+
+
+    it("gives up after `maxRetries` extra attempts", async () => {
+        const fakeFetch = getFakeFetch([{ status: 500, body: null }]);
+
+
+        await expect(getClient(fakeFetch).getMemberName(MEMBER_ID)).rejects.toThrow("Gave up after 3 attempts");
+
+        expect(fakeFetch).toHaveBeenCalledTimes(3);
+    });
+
+
+    it("doesn't retry other 4xxs", async () => {
+        const fakeFetch = getFakeFetch([{ status: 404, body: null }]);
+
+
+        await expect(getClient(fakeFetch).getMemberName(MEMBER_ID)).rejects.toThrow(`${GAMEBANANA_API_ERROR_STRING} Status 404.`);
+
+        expect(fakeFetch).toHaveBeenCalledTimes(1);
+    });
+
+
+    it("times out each attempt separately", async () => {
+        const hangingFetch = getHangingFetch();
+
+
+        await expect(getClient(hangingFetch, { timeoutMilliseconds: 10, maxRetries: 1 }).getMemberName(MEMBER_ID)).rejects.toThrow("Timed out after 10ms. Gave up after 2 attempts");
+
+        expect(hangingFetch).toHaveBeenCalledTimes(2);
+    });
+});
+
+
+
+
+describe("cache", () => {
+    it("returns cached responses until they expire", async () => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+
+        const fakeFetch = getFakeFetch([{ status: 200, body: [MEMBER_NAME] }]);
+
+        const client = getClient(fakeFetch);
+
+
+        await client.getMemberName(MEMBER_ID);
+
+        await client.getMemberName(MEMBER_ID);
+
+        expect(fakeFetch).toHaveBeenCalledTimes(1);
+
+
+        vi.setSystemTime(Date.now() + CACHE_TTL_MILLISECONDS);
+
+        await client.getMemberName(MEMBER_ID);
+
+        expect(fakeFetch).toHaveBeenCalledTimes(2);
+    });
+
+
+    it("skips the cache for `noCache` requests", async () => {
+        const fakeFetch = getFakeFetch([{ status: 200, body: [MEMBER_NAME] }]);
+
+        const client = getClient(fakeFetch);
+
+
+        await client.getMemberName(MEMBER_ID);
+
+        await client.getMemberName(MEMBER_ID, { noCache: true });
+
+        expect(fakeFetch).toHaveBeenCalledTimes(2);
+    });
+
+
+    it("doesn't cache failures", async () => {
+        const fakeFetch = getFakeFetch([
+            { status: 404, body: null },
+            { status: 200, body: [MEMBER_NAME] },
+        ]);
+
+        const client = getClient(fakeFetch);
+
+
+        await expect(client.getMemberName(MEMBER_ID)).rejects.toThrow(GAMEBANANA_API_ERROR_STRING);
+
+        await expect(client.getMemberName(MEMBER_ID)).resolves.toBe(MEMBER_NAME);
+    });
+});
+
+
+
+
+describe("schemas", () => {
+    it("rejects responses that don't match the schema", async () => {
+        const fakeFetch = getFakeFetch([{ status: 200, body: { name: MEMBER_NAME } }]);
+
+
+        await expect(getClient(fakeFetch).getMemberName(MEMBER_ID)).rejects.toThrow(`${GAMEBANANA_API_ERROR_STRING} Invalid identity for member ${MEMBER_ID}`);
+
+        expect(fakeFetch).toHaveBeenCalledTimes(1);     //invalid responses aren't retried
+    });
+
+
+    it("rejects item fields that don't match their schemas", async () => {
+        const fakeFetch = getFakeFetch([{ status: 200, body: { name: "", date: 0 } }]);
+
+
+        await expect(getClient(fakeFetch).getItemData("Mod", 1, ["name", "date"])).rejects.toThrow(`Invalid Mod 1 field "name"`);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,249 @@
+import type { z } from "zod";
+import {
+    GAMEBANANA_API_ERROR_STRING, GAMEBANANA_ITEM_FIELD_SCHEMAS, gamebananaMemberIdentitySchema, gamebananaMemberProfileSchema,
+    type GamebananaItemData, type GamebananaItemField, type GamebananaItemType,
+} from "./fieldSchemas";
+
+
+
+
+export type GamebananaApiClientOptions = {
+    /** the legacy API, ie. Core/Item/Data */
+    apiUrl: string;
+    apiV11Url: string;
+    /** inject a fake here to run without network access */
+    fetch: typeof fetch;
+    /** applies to each attempt separately */
+    timeoutMilliseconds: number;
+    /** the number of extra attempts after the first one fails. only network errors, timeouts, 429s and 5xxs are retried. */
+    maxRetries: number;
+    /** doubles after each failed attempt */
+    retryBaseDelayMilliseconds: number;
+    /** set to 0 to disable the cache */
+    cacheTtlMilliseconds: number;
+    maxCacheEntries: number;
+};
+
+
+const DEFAULT_GAMEBANANA_API_CLIENT_OPTIONS: GamebananaApiClientOptions = {
+    apiUrl: process.env.NEXT_PUBLIC_GAMEBANANA_API_URL || "https://api.gamebanana.com",    //set these to the fake services server to run without network access
+    apiV11Url: process.env.NEXT_PUBLIC_GAMEBANANA_API_V11_URL || "https://gamebanana.com/apiv11",
+    fetch: (...args) => fetch(...args),     //wrapped so that the global fetch is looked up when called, not when this module is loaded
+    timeoutMilliseconds: 10 * 1000,
+    maxRetries: 2,
+    retryBaseDelayMilliseconds: 500,
+    cacheTtlMilliseconds: 5 * 60 * 1000,
+    maxCacheEntries: 500,
+};
+
+
+type RequestOptions = {
+    /** aborts waiting for the response. requests are shared between callers through the cache, so the request itself keeps running. */
+    signal?: AbortSignal;
+    /** skips the cache, for callers that need the current response */
+    noCache?: boolean;
+};
+
+
+export type GamebananaApiClient = {
+    /** Fetches `fields` for an item from Core/Item/Data. Each field is validated against its schema in GAMEBANANA_ITEM_FIELD_SCHEMAS. */
+    getItemData: <
+        ItemType extends GamebananaItemType,
+        Fields extends GamebananaItemField<ItemType>,
+    >(
+        itemType: ItemType,
+        itemId: number,
+        fields: readonly Fields[],
+        requestOptions?: RequestOptions,
+    ) => Promise<GamebananaItemData<ItemType, Fields>>;
+    /** Returns the member's current username. */
+    getMemberName: (gamebananaMemberId: number, requestOptions?: RequestOptions) => Promise<string>;
+    /** Returns the text of the member's profile bio, or an empty string if the bio is empty. */
+    getMemberProfileText: (gamebananaMemberId: number, requestOptions?: RequestOptions) => Promise<string>;
+    clearCache: () => void;
+};
+
+
+
+
+class RetryableError extends Error { }
+
+
+const getGamebananaApiError = (detail: string) => new Error(`${GAMEBANANA_API_ERROR_STRING} ${detail}`);
+
+
+const sleep = (milliseconds: number) => new Promise<void>((resolve) => setTimeout(resolve, milliseconds));
+
+
+/** Rejects as soon as `signal` is aborted, without cancelling `promise`. */
+const raceWithSignal = <T,>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> => {
+    if (!signal) return promise;
+
+    if (signal.aborted) return Promise.reject(getGamebananaApiError("The request was aborted."));
+
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(getGamebananaApiError("The request was aborted."));
+
+        signal.addEventListener("abort", onAbort, { once: true });
+
+        promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+};
+
+
+const parseWithSchema = <Output,>(schema: z.ZodType<Output, z.ZodTypeDef, unknown>, data: unknown, description: string): Output => {
+    const parseResult = schema.safeParse(data);
+
+    if (!parseResult.success) throw getGamebananaApiError(`Invalid ${description}: ${parseResult.error.message}`);
+
+    return parseResult.data;
+};
+
+
+
+
+export const createGamebananaApiClient = (options: Partial<GamebananaApiClientOptions> = {}): GamebananaApiClient => {
+    const {
+        apiUrl, apiV11Url, fetch: fetchFunction, timeoutMilliseconds, maxRetries, retryBaseDelayMilliseconds, cacheTtlMilliseconds, maxCacheEntries,
+    } = { ...DEFAULT_GAMEBANANA_API_CLIENT_OPTIONS, ...options };
+
+
+    const cache = new Map<string, { expiryTime: number; response: Promise<unknown>; }>();
+
+
+    const fetchJsonOnce = async (url: string): Promise<unknown> => {
+        const abortController = new AbortController();
+
+        const timeout = setTimeout(() => abortController.abort(), timeoutMilliseconds);
+
+
+        let response: Response;
+        let responseText: string;
+
+        try {
+            response = await fetchFunction(url, { signal: abortController.signal });
+
+            responseText = await response.text();
+        }
+        catch (error) {
+            throw new RetryableError(abortController.signal.aborted ? `Timed out after ${timeoutMilliseconds}ms.` : String(error));
+        }
+        finally {
+            clearTimeout(timeout);
+        }
+
+
+        if (response.status === 429 || response.status >= 500) throw new RetryableError(`Status ${response.status}.`);
+
+        if (!response.ok) throw getGamebananaApiError(`Status ${response.status}.`);
+
+
+        try {
+            return JSON.parse(responseText) as unknown;     //the legacy API doesn't always send a JSON content type, so parse the text ourselves
+        }
+        catch {
+            throw getGamebananaApiError("The response was not valid JSON.");
+        }
+    };
+
+
+    const fetchJsonWithRetries = async (url: string): Promise<unknown> => {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await fetchJsonOnce(url);
+            }
+            catch (error) {
+                if (!(error instanceof RetryableError)) throw error;
+
+                if (attempt >= maxRetries) throw getGamebananaApiError(`${error.message} Gave up after ${attempt + 1} attempts.`);
+
+
+                await sleep(retryBaseDelayMilliseconds * 2 ** attempt);
+            }
+        }
+    };
+
+
+    const fetchJson = (url: string, requestOptions: RequestOptions | undefined): Promise<unknown> => {
+        if (requestOptions?.noCache) return raceWithSignal(fetchJsonWithRetries(url), requestOptions.signal);
+
+
+        const currentTime = Date.now();
+
+        const cachedEntry = cache.get(url);
+
+        if (cachedEntry && cachedEntry.expiryTime > currentTime) return raceWithSignal(cachedEntry.response, requestOptions?.signal);
+
+
+        const response = fetchJsonWithRetries(url);
+
+        if (cacheTtlMilliseconds > 0) {
+            cache.delete(url);     //re-insert so that the Map's order stays oldest first
+            cache.set(url, { expiryTime: currentTime + cacheTtlMilliseconds, response });
+
+            response.catch(() => cache.delete(url));    //don't cache failures
+
+            if (cache.size > maxCacheEntries) {
+                const oldestUrl = cache.keys().next().value as string;
+
+                cache.delete(oldestUrl);
+            }
+        }
+
+
+        return raceWithSignal(response, requestOptions?.signal);
+    };
+
+
+    return {
+        getItemData: async (itemType, itemId, fields, requestOptions) => {
+            const url = `${apiUrl}/Core/Item/Data?itemtype=${itemType}&itemid=${itemId}&fields=${fields.join(",")}&return_keys=true`;
+
+            const data = await fetchJson(url, requestOptions);
+
+            if (typeof data !== "object" || data === null || Array.isArray(data)) throw getGamebananaApiError(`Invalid data for ${itemType} ${itemId}.`);
+
+
+            const fieldSchemas: Record<string, z.ZodType<unknown, z.ZodTypeDef, unknown>> = GAMEBANANA_ITEM_FIELD_SCHEMAS[itemType];
+
+            const itemData: Record<string, unknown> = {};
+
+            for (const field of fields) {
+                const fieldSchema = fieldSchemas[field];
+
+                if (!fieldSchema) throw getGamebananaApiError(`No schema for ${itemType} field "${field}".`);
+
+                itemData[field] = parseWithSchema(fieldSchema, (data as Record<string, unknown>)[field], `${itemType} ${itemId} field "${field}"`);
+            }
+
+
+            return itemData as GamebananaItemData<typeof itemType, typeof fields[number]>;
+        },
+        getMemberName: async (gamebananaMemberId, requestOptions) => {
+            const data = await fetchJson(`${apiUrl}/Core/Member/IdentifyById?userid=${gamebananaMemberId}`, requestOptions);
+
+            return parseWithSchema(gamebananaMemberIdentitySchema, data, `identity for member ${gamebananaMemberId}`)[0];
+        },
+        getMemberProfileText: async (gamebananaMemberId, requestOptions) => {
+            const data = await fetchJson(`${apiV11Url}/Member/${gamebananaMemberId}/ProfilePage`, requestOptions);
+
+            return parseWithSchema(gamebananaMemberProfileSchema, data, `profile for member ${gamebananaMemberId}`)._sBio ?? "";
+        },
+        clearCache: () => cache.clear(),
+    };
+};
+
+
+
+
+let gamebananaApiClient: GamebananaApiClient = createGamebananaApiClient();
+
+
+export const getGamebananaApiClient = (): GamebananaApiClient => gamebananaApiClient;
+
+
+/** Replaces the shared client, ie. with one pointed at a local fake. */
+export const setGamebananaApiClient = (client: GamebananaApiClient) => {
+    gamebananaApiClient = client;
+};
\ No newline at end of file
@@ -1,9 +1,9 @@
 import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { api } from "~/utils/api";
 import { ContextState } from "./globalContextsProvider";
 import { getModDownloadUrl } from "../gamebananaApi/getModDownloadUrl";
 import type { GamebananaModId } from "~/components/mods/types";
 import type { ModDownloadurl } from "../gamebananaApi/getModDownloadUrl";
-import axios from "axios";
 
 
 
@@ -51,6 +51,8 @@ export const useModDownloadUrl = (
 ): string => {
     const contextOrUndefined = useContext(modDownloadUrlContext);
 
+    const utils = api.useUtils();
+
     const cachedDownloadUrl = contextOrUndefined?.state[gamebananaModId];
 
     const [downloadUrl, setDownloadUrl] = useState<string>(cachedDownloadUrl ?? "");
@@ -62,16 +64,20 @@ export const useModDownloadUrl = (
         if (contextOrUndefined === undefined) throw "useModDownloadUrl must be used within a ModDownloadUrlsContextProvider";
 
 
-        const source = axios.CancelToken.source();
+        const abortController = new AbortController();
 
 
         const fetchDownloadUrl = async () => {
             let fetchedDownloadUrl: ModDownloadurl;
 
             try {
-                fetchedDownloadUrl = await getModDownloadUrl(gamebananaModId, source);
+                const gamebananaModMetadata = await utils.gamebanana.getModMetadata.fetch({ gamebananaModId }, { signal: abortController.signal });
+
+                fetchedDownloadUrl = getModDownloadUrl(gamebananaModMetadata);
             }
             catch (error) {
+                if (abortController.signal.aborted) return;     //the component unmounted or gamebananaModId changed
+
                 console.warn(`Failed to fetch download url for mod ${gamebananaModId}.`);
                 console.error(error);
                 
@@ -95,9 +101,9 @@ export const useModDownloadUrl = (
 
 
         return () => {
-            source.cancel();
+            abortController.abort();
         };
-    }, [gamebananaModId, contextOrUndefined, cachedDownloadUrl]);
+    }, [gamebananaModId, contextOrUndefined, utils, cachedDownloadUrl]);
 
 
     return downloadUrl;
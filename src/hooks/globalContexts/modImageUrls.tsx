@@ -1,13 +1,14 @@
 import { createContext, useEffect, useMemo, useState, useContext } from "react";
+import { api } from "~/utils/api";
 import type { ContextState } from "./globalContextsProvider";
-import { getModImageUrls } from "~/hooks/gamebananaApi/getModImageUrls";
 import type { GamebananaModId } from "~/components/mods/types";
-import type { ModImageUrls } from "~/hooks/gamebananaApi/getModImageUrls";
-import axios from 'axios';
+import type { ModScreenshot } from "~/server/gamebananaMirror/resolveModScreenshots";
 
 
 
 
+export type ModImageUrls = ModScreenshot[];
+
 export type ModImageUrlsState = Record<GamebananaModId, ModImageUrls>;
 
 
@@ -51,6 +52,8 @@ export const useModImageUrls = (
 ): ModImageUrls => {
     const contextOrUndefined = useContext(modImageUrlsContext);
 
+    const utils = api.useUtils();
+
     const cachedImageUrls = contextOrUndefined?.state[gamebananaModId];
 
     const [imageUrls, setImageUrls] = useState<ModImageUrls>(cachedImageUrls ?? []);
@@ -62,16 +65,18 @@ export const useModImageUrls = (
         if (contextOrUndefined === undefined) throw "useModImageUrlContext must be used within a ModImageUrlsContextProvider";
 
 
-        const source = axios.CancelToken.source();
+        const abortController = new AbortController();
 
 
         const fetchImageUrls = async () => {
             let fetchedImageUrls: ModImageUrls;
 
             try {
-                fetchedImageUrls = await getModImageUrls(gamebananaModId, source);
+                fetchedImageUrls = await utils.gamebanana.getModScreenshots.fetch({ gamebananaModId }, { signal: abortController.signal });
             }
             catch (error) {
+                if (abortController.signal.aborted) return;     //the component unmounted or gamebananaModId changed
+
                 console.warn(`Failed to fetch image urls for mod ${gamebananaModId}.`);
                 console.error(error);
 
@@ -95,9 +100,9 @@ export const useModImageUrls = (
 
 
         return () => {
-            source.cancel();
+            abortController.abort();
         };
-    }, [gamebananaModId, contextOrUndefined, cachedImageUrls]);
+    }, [gamebananaModId, contextOrUndefined, utils, cachedImageUrls]);
 
 
     return imageUrls;
@@ -0,0 +1,15 @@
+/** Runs once when the server starts. See https://nextjs.org/docs/app/building-your-application/optimizing/instrumentation */
+export const register = async () => {
+    if (process.env.NEXT_RUNTIME !== "nodejs") return;     // The worker and Prisma use Node APIs, so they can't run in the edge runtime
+
+
+    const { serverLogger: logger } = await import("~/logger/serverLogger");
+    const { prisma } = await import("~/server/prisma");
+    const { rebuildRatingAggregatesIfIncomplete } = await import("~/server/api/utils/ratingAggregates");
+    const { startMirrorUpdateJobPolling } = await import("~/server/gamebananaMirror/updateWebhook");
+
+
+    rebuildRatingAggregatesIfIncomplete(prisma).catch((error) => logger.error(`Failed to rebuild the rating aggregates. ${String(error)}`));    // Rating procedures use the raw ratings until this finishes
+
+    startMirrorUpdateJobPolling();
+};
\ No newline at end of file
@@ -0,0 +1,49 @@
+import type { NextPage } from "next";
+import { useSession } from "next-auth/react";
+import { Text, Title, createStyles } from "@mantine/core";
+import { Layout } from "~/components/layout/layout";
+import { ModerationQueue } from "~/components/moderation/moderationQueue";
+import { MODERATION_PAGE_PATHNAME } from "~/consts/pathnames";
+import { pageTitle } from "~/styles/pageTitle";
+
+
+
+
+const useStyles = createStyles(
+    (theme) => ({
+        pageTitle,
+        message: {
+            color: theme.white,
+            textAlign: "center",
+        },
+    }),
+);
+
+
+
+
+const Moderation: NextPage = () => {
+    const { data: sessionData, status } = useSession();
+
+    const { classes } = useStyles();
+
+
+    return (
+        <Layout
+            pageTitle="Moderation"
+            pageDescription="Moderation queue"
+            pathname={MODERATION_PAGE_PATHNAME}
+            robotsText="noindex,nofollow"
+        >
+            <Title className={classes.pageTitle} order={2}>Moderation Queue</Title>
+            {
+                status === "loading" ? null :
+                    sessionData ?
+                        <ModerationQueue userId={sessionData.user.id} /> :
+                        <Text className={classes.message}>You must be logged in as a moderator to view this page.</Text>
+            }
+        </Layout>
+    );
+};
+
+export default Moderation;
\ No newline at end of file
@@ -2,7 +2,7 @@ import type { InferGetStaticPropsType, NextPage } from "next";
 import { api } from "~/utils/api";
 import { useMemo } from "react";
 import { createStyles, Title } from "@mantine/core";
-import type { Difficulty, Mod, ModRatingData, ModYesRatingData, Quality, Publisher, MapWithTechInfo, Tech } from "~/components/mods/types";
+import type { Difficulty, Mod, ModRatingData, ModYesRatingData, Quality, Publisher, MapWithTechInfo, Tech, Tag } from "~/components/mods/types";
 import { noRatingsFoundMessage } from "~/consts/noRatingsFoundMessage";
 import { Layout } from "~/components/layout/layout";
 import { ModsTable } from "~/components/mods/modsTable";
@@ -45,7 +45,7 @@ const getLowestDifficultyId = (difficultyOneId: number, difficultyTwoId: number,
 
 
 
-const getModsWithInfo = (isLoading: boolean, mods: Mod[], ratingsFromModIds: ModRatingData[], qualities: Quality[], difficulties: Difficulty[], publishers: Publisher[], mapsWithTechInfo: MapWithTechInfo[]): ModWithInfo[] => {
+const getModsWithInfo = (isLoading: boolean, mods: Mod[], ratingsFromModIds: ModRatingData[], qualities: Quality[], difficulties: Difficulty[], publishers: Publisher[], mapsWithTechInfo: MapWithTechInfo[], tags: Tag[]): ModWithInfo[] => {
     if (isLoading) return [];
 
 
@@ -65,6 +65,7 @@ const getModsWithInfo = (isLoading: boolean, mods: Mod[], ratingsFromModIds: Mod
         let qualityName: string;
         let qualityDescription: string;
         let qualityCount = 0;
+        let isBelowMinimumQualityRatings = false;
         let difficultyId = -1;
         let difficultyName: string;
         let difficultyCount = 0;
@@ -78,8 +79,9 @@ const getModsWithInfo = (isLoading: boolean, mods: Mod[], ratingsFromModIds: Mod
             overallCount = narrowedRating.overallCount;
             qualityCount = narrowedRating.qualityCount;
             difficultyCount = narrowedRating.difficultyCount;
+            isBelowMinimumQualityRatings = narrowedRating.isBelowMinimumQualityRatings;
 
-            if (narrowedRating.averageQualityId) qualityId = narrowedRating.averageQualityId;
+            if (narrowedRating.adjustedQualityId !== undefined) qualityId = narrowedRating.adjustedQualityId;     //the adjusted quality accounts for mods with only a few ratings
 
             if (narrowedRating.averageDifficultyId) difficultyId = narrowedRating.averageDifficultyId;
         }
@@ -92,9 +94,7 @@ const getModsWithInfo = (isLoading: boolean, mods: Mod[], ratingsFromModIds: Mod
             if (qualityCount === 0) throw `Quality count is 0 for mod ${mod.id} but qualityId is ${qualityId} (and not -1) - this should not happen.`;
 
 
-            let quality = qualities.find((quality) => quality.id === qualityId);
-
-            if (quality?.order === 1) quality = qualities.find((quality) => quality.order = 2);     //prevent mods from actually showing up as "Not Recommended"    //TODO: add minimum threshold below which the mod isn't displayed at all
+            const quality = qualities.find((quality) => quality.id === qualityId);
 
             if (!quality) throw `Quality ${qualityId} not found. This should not happen.`;
 
@@ -179,6 +179,18 @@ const getModsWithInfo = (isLoading: boolean, mods: Mod[], ratingsFromModIds: Mod
         }
 
 
+        const tagNames = mod.ModToTags.map(
+            ({ tagId }) => {
+                const tag = tags.find((tag) => tag.id === tagId);
+
+                if (!tag) throw `Tag ${tagId} not found. This should not happen.`;
+
+
+                return tag.name;
+            }
+        );
+
+
         return {
             ...mod,
             overallCount,
@@ -189,6 +201,7 @@ const getModsWithInfo = (isLoading: boolean, mods: Mod[], ratingsFromModIds: Mod
                 count: qualityCount,
             },
             qualityDescription,
+            isBelowMinimumQualityRatings,
             Difficulty: {
                 id: difficultyId,
                 name: difficultyName,
@@ -200,6 +213,7 @@ const getModsWithInfo = (isLoading: boolean, mods: Mod[], ratingsFromModIds: Mod
             publisherName: publisher.name,
             TechsAny: Array.from(techIdsAny),
             TechsFC: Array.from(techIdsFC),
+            Tags: tagNames,
         };
     });
 
@@ -228,14 +242,10 @@ export async function getStaticProps() {
     promises.push(helpers.difficulty.getAll.prefetch({}));
     promises.push(helpers.publisher.getAll.prefetch({}));
     promises.push(helpers.tech.getAll.prefetch({}));
+    promises.push(helpers.tag.getAll.prefetch({}));
     promises.push(helpers.map.getAll.prefetch({}));
-
-
-    const mods = await helpers.mod.getAll.fetch({});
-
-    mods.forEach((mod) => {
-        promises.push(helpers.rating.getModRatingData.prefetch({ modId: mod.id }));
-    });
+    promises.push(helpers.mod.getAll.prefetch({}));
+    promises.push(helpers.rating.getAllModRatingData.prefetch({}));
 
 
     await Promise.all(promises);
@@ -269,6 +279,10 @@ const Mods: NextPage<InferGetStaticPropsType<typeof getStaticProps>> = (
 
     const techQuery = api.tech.getAll.useQuery({}, { queryKey: ["tech.getAll", {}] });
     const techs = techQuery.data ?? [];
+
+
+    const tagQuery = api.tag.getAll.useQuery({}, { queryKey: ["tag.getAll", {}] });
+    const tags = useMemo(() => tagQuery.data ?? [], [tagQuery.data]);
     
 
     const modsQuery = api.mod.getAll.useQuery({}, { queryKey: ["mod.getAll", {}] });
@@ -300,32 +314,19 @@ const Mods: NextPage<InferGetStaticPropsType<typeof getStaticProps>> = (
 
 
     //get ratings data
-    const ratingQueries = api.useQueries(
-        (useQueriesApi) => mods.map(
-            (mod) => useQueriesApi.rating.getModRatingData(
-                { modId: mod.id },
-                { queryKey: ["rating.getModRatingData", { modId: mod.id }] },
-            ),
-        ),
-    );
+    const ratingQuery = api.rating.getAllModRatingData.useQuery({}, { queryKey: ["rating.getAllModRatingData", {}] });
 
-    const isLoadingRatings = isLoadingMods || ratingQueries.some((query) => query.isLoading);
+    const isLoadingRatings = isLoadingMods || ratingQuery.isLoading;
 
-    const ratingsFromModIds = useMemo(() => {
+    const ratingsFromModIds: ModRatingData[] = useMemo(() => {
         if (isLoadingRatings) return [];
 
-        const ratings_maybeEmpty: ModRatingData[] = [];
-
-        ratingQueries.forEach((ratingQuery) => {
-            const rating = ratingQuery.data;
-
-            if (rating !== undefined) ratings_maybeEmpty.push(rating);
-        });
+        const ratings_maybeEmpty = ratingQuery.data ?? [];
 
         if (!ratings_maybeEmpty.length) console.log(`ratings_maybeEmpty is empty. mods = "${JSON.stringify(mods)}"`);
 
         return ratings_maybeEmpty;
-    }, [isLoadingRatings, ratingQueries, /*modIds,*/ mods]);  //TODO: figure out if modIds/mods can be removed from this dependency array
+    }, [isLoadingRatings, ratingQuery.data, mods]);
 
 
     const mapQuery = api.map.getAll.useQuery({}, { queryKey: ["map.getAll", {}] });
@@ -381,13 +382,13 @@ const Mods: NextPage<InferGetStaticPropsType<typeof getStaticProps>> = (
     }, [isLoadingRatings, isLoadingMaps, ratingsFromModIds, techs, mapQuery.data]);
 
     //check that all data is loaded
-    const isLoading = isLoadingMods || isLoadingRatings || isLoadingMaps || qualityQuery.isLoading || difficultyQuery.isLoading || publisherQuery.isLoading || techQuery.isLoading;
+    const isLoading = isLoadingMods || isLoadingRatings || isLoadingMaps || qualityQuery.isLoading || difficultyQuery.isLoading || publisherQuery.isLoading || techQuery.isLoading || tagQuery.isLoading;
 
 
     //get mods with map count, and quality and difficulty names
     const modsWithInfo = useMemo(() => {
-        return getModsWithInfo(isLoading, mods, ratingsFromModIds, qualities, difficulties, publishers, mapsWithTechInfo);
-    }, [isLoading, mods, ratingsFromModIds, qualities, difficulties, publishers, mapsWithTechInfo]);
+        return getModsWithInfo(isLoading, mods, ratingsFromModIds, qualities, difficulties, publishers, mapsWithTechInfo, tags);
+    }, [isLoading, mods, ratingsFromModIds, qualities, difficulties, publishers, mapsWithTechInfo, tags]);
 
 
     const { classes } = useStyles();
@@ -396,7 +397,7 @@ const Mods: NextPage<InferGetStaticPropsType<typeof getStaticProps>> = (
     return (
         <Layout pageTitle="Mods" pageDescription="Mods" pathname={MODS_PAGE_PATHNAME}>
             <Title className={classes.pageTitle} order={2}>Mods List</Title>
-            <ModsTable qualities={qualities} difficulties={difficulties} techs={techs} modsWithInfo={modsWithInfo} isLoading={isLoading} />
+            <ModsTable qualities={qualities} difficulties={difficulties} techs={techs} tags={tags} modsWithInfo={modsWithInfo} isLoading={isLoading} />
         </Layout>
     );
 };
@@ -11,6 +11,13 @@ import { ratingRouter } from "./routers/rating";
 import { reviewCollectionRouter } from "./routers/review_reviewCollection_mapReview/reviewCollection";
 import { reviewRouter } from "./routers/review_reviewCollection_mapReview/review";
 import { mapReviewRouter } from "./routers/review_reviewCollection_mapReview/mapReview";
+import { tagRouter } from "./routers/tag";
+import { usersToCompletedMapsRouter } from "./routers/usersToCompletedMaps";
+import { moderationRouter } from "./routers/moderation";
+import { auditLogRouter } from "./routers/auditLog";
+import { gamebananaRouter } from "./routers/gamebanana";
+import { everestModRouter } from "./routers/everestMod";
+import { modSearchRouter } from "./routers/modSearch";
 
 /**
  * This is the primary router for your server.
@@ -31,6 +38,13 @@ export const appRouter = createTRPCRouter({
   reviewCollection: reviewCollectionRouter,
   review: reviewRouter,
   mapReview: mapReviewRouter,
+  tag: tagRouter,
+  usersToCompletedMaps: usersToCompletedMapsRouter,
+  moderation: moderationRouter,
+  auditLog: auditLogRouter,
+  gamebanana: gamebananaRouter,
+  everestMod: everestModRouter,
+  modSearch: modSearchRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { createTRPCRouter, adminProcedure } from "~/server/api/trpc";
+import { Prisma } from "@prisma/client";
+import { userIdSchema_NonObject } from "./user";
+
+
+
+
+const defaultAuditLogEntrySelect = Prisma.validator<Prisma.AuditLogEntrySelect>()({
+    id: true,
+    actorId: true,
+    User: { select: { id: true, name: true } },
+    action: true,
+    targetTable: true,
+    targetId: true,
+    input: true,
+    before: true,
+    after: true,
+    timeCreated: true,
+});
+
+
+
+
+const auditLogFilterSchema = z.object({
+    actorId: userIdSchema_NonObject.optional(),
+    action: z.string().min(1).max(100).optional(),     //the procedure path, ie. "mod.approveNew"
+    targetTable: z.string().min(1).max(50).optional(),
+    targetId: z.string().min(1).max(191).optional(),
+    timeFrom: z.number().int().gte(0).optional(),  //unix time in seconds, inclusive
+    timeTo: z.number().int().gte(0).optional(),    //unix time in seconds, inclusive
+}).strict();
+
+
+
+
+export const auditLogRouter = createTRPCRouter({
+    getMany: adminProcedure
+        .input(
+            z.object({
+                pageSize: z.number().int().min(1).max(100).default(50),
+                pageNumber: z.number().int().min(1).default(1),
+            }).strict().merge(auditLogFilterSchema),
+        )
+        .query(async ({ ctx, input }) => {
+            const { pageSize, pageNumber } = input;
+
+            const numToSkip = pageSize * (pageNumber - 1);
+
+
+            const where: Prisma.AuditLogEntryWhereInput = {
+                actorId: input.actorId,
+                action: input.action,
+                targetTable: input.targetTable,
+                targetId: input.targetId,
+                timeCreated: {
+                    gte: input.timeFrom,
+                    lte: input.timeTo,
+                },
+            };
+
+
+            const [entries, totalCount] = await Promise.all([
+                ctx.prisma.auditLogEntry.findMany({
+                    where,
+                    skip: numToSkip,
+                    take: pageSize,
+                    select: defaultAuditLogEntrySelect,
+                    orderBy: [{ timeCreated: "desc" }, { id: "desc" }],
+                }),
+                ctx.prisma.auditLogEntry.count({ where }),
+            ]);
+
+
+            return { entries, totalCount };
+        }),
+});
\ No newline at end of file
@@ -6,6 +6,7 @@ import { Prisma, Difficulty } from "@prisma/client";
 import { getCombinedSchema, getOrderObjectArray } from "~/server/api/utils/sortOrderHelpers";
 import { getNonEmptyArray } from "~/utils/getNonEmptyArray";
 import { INT_MAX_SIZES } from "~/consts/integerSizes";
+import { REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS, rebuildRatingAggregates } from "../utils/ratingAggregates";
 
 
 
@@ -185,15 +186,24 @@ export const difficultyRouter = createTRPCRouter({
             });
 
 
-            const difficulty = await ctx.prisma.difficulty.create({
-                data: {
-                    name: input.name,
-                    description: input.description,
-                    order: input.order,
-                    ParentDifficulty: { connect: { id: nonNullParentDifficultyId } },
+            const difficulty = await ctx.prisma.$transaction(
+                async (transaction) => {
+                    const difficulty = await transaction.difficulty.create({
+                        data: {
+                            name: input.name,
+                            description: input.description,
+                            order: input.order,
+                            ParentDifficulty: { connect: { id: nonNullParentDifficultyId } },
+                        },
+                        select: defaultDifficultySelect,
+                    });
+
+                    await rebuildRatingAggregates(transaction);     //adding a difficulty can change the values of the existing difficulties
+
+                    return difficulty;
                 },
-                select: defaultDifficultySelect,
-            });
+                { timeout: REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS },
+            );
 
 
             return difficulty;
@@ -214,16 +224,27 @@ export const difficultyRouter = createTRPCRouter({
             });
 
 
-            const difficulty = await ctx.prisma.difficulty.update({
-                where: { id: input.id },
-                data: {
-                    name: input.name,
-                    description: input.description,
-                    order: input.order,
-                    ParentDifficulty: { connect: { id: nonNullParentDifficultyId } },
+            const difficulty = await ctx.prisma.$transaction(
+                async (transaction) => {
+                    const difficulty = await transaction.difficulty.update({
+                        where: { id: input.id },
+                        data: {
+                            name: input.name,
+                            description: input.description,
+                            order: input.order,
+                            ParentDifficulty: { connect: { id: nonNullParentDifficultyId } },
+                        },
+                        select: defaultDifficultySelect,
+                    });
+
+                    if (input.order !== undefined || input.parentDifficultyId !== undefined) {  //the difficulty values depend on the order and the parent difficulty
+                        await rebuildRatingAggregates(transaction);
+                    }
+
+                    return difficulty;
                 },
-                select: defaultDifficultySelect,
-            });
+                { timeout: REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS },
+            );
 
 
             return difficulty;
@@ -234,7 +255,14 @@ export const difficultyRouter = createTRPCRouter({
         .mutation(async ({ ctx, input }) => {
             await getDifficultyById(ctx.prisma, input.id);  //check that id matches an existing difficulty
 
-            await ctx.prisma.difficulty.delete({ where: { id: input.id } });
+            await ctx.prisma.$transaction(
+                async (transaction) => {
+                    await transaction.difficulty.delete({ where: { id: input.id } });
+
+                    await rebuildRatingAggregates(transaction);     //removing a difficulty can change the values of the remaining difficulties
+                },
+                { timeout: REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS },
+            );
 
             return true;
         }),
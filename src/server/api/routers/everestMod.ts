@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { gamebananaModIdSchema, getModById, modIdSchema } from "./map_mod_publisher/mod";
+import { getIndexedEverestUpdateDatabase, type IndexedEverestUpdateDatabase } from "~/server/gamebananaMirror/yamlHandlers/everestUpdateDatabase";
+import { resolveModDependencies } from "~/server/gamebananaMirror/resolveModDependencies";
+
+
+
+
+const everestModNameSchema = z.object({
+    name: z.string().min(1).max(200),   //the name in the mod's everest.yaml
+}).strict();
+
+
+
+
+const getEverestUpdateDatabaseOrThrow = async (): Promise<IndexedEverestUpdateDatabase> => {
+    try {
+        return await getIndexedEverestUpdateDatabase();
+    }
+    catch {
+        throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "The Everest Update Database is unavailable.",
+        });
+    }
+};
+
+
+
+
+export const everestModRouter = createTRPCRouter({
+    getByName: publicProcedure
+        .input(everestModNameSchema)
+        .query(async ({ input }) => {
+            const everestUpdateDatabase = await getEverestUpdateDatabaseOrThrow();
+
+            const everestMod = everestUpdateDatabase.byName.get(input.name);
+
+            if (!everestMod) throw new TRPCError({
+                code: "NOT_FOUND",
+                message: `No Everest mod exists with name "${input.name}".`,
+            });
+
+
+            return everestMod;
+        }),
+
+    getByGamebananaModId: publicProcedure
+        .input(gamebananaModIdSchema)
+        .query(async ({ input }) => {
+            const everestUpdateDatabase = await getEverestUpdateDatabaseOrThrow();
+
+            const everestMods = everestUpdateDatabase.byGamebananaModId.get(input.gamebananaModId);
+
+            if (!everestMods) throw new TRPCError({
+                code: "NOT_FOUND",
+                message: `No Everest mods exist with gamebananaModId "${input.gamebananaModId}".`,
+            });
+
+
+            return everestMods;
+        }),
+
+    getDependenciesByModId: publicProcedure
+        .input(modIdSchema)
+        .query(async ({ ctx, input }) => {
+            const mod = await getModById("Mod", "mod", false, false, ctx.prisma, input.id);
+
+
+            try {
+                return await resolveModDependencies(ctx.prisma, mod.gamebananaModId);
+            }
+            catch {
+                throw new TRPCError({
+                    code: "INTERNAL_SERVER_ERROR",
+                    message: "The Everest Update Database or the Mod Dependency Graph is unavailable.",
+                });
+            }
+        }),
+});
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { INT_MAX_SIZES } from "~/consts/integerSizes";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import type { MyPrismaClient } from "~/server/prisma";
+import { gamebananaModIdSchema } from "./map_mod_publisher/mod";
+import { getGamebananaModMetadata, isKnownGamebananaModId } from "~/server/gamebanana/modMetadataCache";
+import { resolveModScreenshots, type ModScreenshot } from "~/server/gamebananaMirror/resolveModScreenshots";
+
+
+
+
+/** Path parameters are always strings, so they're coerced for the REST API. */
+const restGamebananaModIdSchema = z.object({
+    gamebananaModId: z.coerce.number().int().gte(1).lte(INT_MAX_SIZES.mediumInt.unsigned),
+}).strict();
+
+
+/** Schema for mod screenshots returned by the REST API. */
+const restModScreenshotSchema = z.object({
+    url: z.string(),
+    fallbackUrl: z.string().nullable(),
+});
+
+
+
+
+const checkGamebananaModIdIsKnown = async (prisma: MyPrismaClient, gamebananaModId: number): Promise<void> => {
+    if (await isKnownGamebananaModId(prisma, gamebananaModId)) return;
+
+
+    throw new TRPCError({
+        code: "NOT_FOUND",
+        message: `No mod exists with gamebananaModId "${gamebananaModId}".`,
+    });
+};
+
+
+const getModScreenshots = async (prisma: MyPrismaClient, gamebananaModId: number): Promise<ModScreenshot[]> => {
+    await checkGamebananaModIdIsKnown(prisma, gamebananaModId);
+
+
+    try {
+        return await resolveModScreenshots(prisma, gamebananaModId);
+    }
+    catch (error) {
+        throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Error getting gamebanana mod screenshots.",
+        });
+    }
+};
+
+
+
+
+export const gamebananaRouter = createTRPCRouter({
+    getModMetadata: publicProcedure
+        .input(gamebananaModIdSchema)
+        .query(async ({ ctx, input }) => {
+            const { gamebananaModId } = input;
+
+            await checkGamebananaModIdIsKnown(ctx.prisma, gamebananaModId);
+
+
+            try {
+                return await getGamebananaModMetadata(ctx.prisma, gamebananaModId);
+            }
+            catch (error) {
+                throw new TRPCError({
+                    code: "INTERNAL_SERVER_ERROR",
+                    message: "Error getting gamebanana mod info.",
+                });
+            }
+        }),
+
+    getModScreenshots: publicProcedure
+        .input(gamebananaModIdSchema)
+        .query(async ({ ctx, input }) => {
+            return await getModScreenshots(ctx.prisma, input.gamebananaModId);
+        }),
+
+    rest_getModScreenshots: publicProcedure
+        .meta({ openapi: { method: "GET", path: "/gamebanana-mirror/screenshots/{gamebananaModId}" } })
+        .input(restGamebananaModIdSchema)
+        .output(restModScreenshotSchema.array())
+        .query(async ({ ctx, input }) => {
+            return await getModScreenshots(ctx.prisma, input.gamebananaModId);
+        }),
+});
\ No newline at end of file
@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import { INJECTED_FAILURE_MESSAGE, getFakePrisma } from "~/server/testUtils/fakePrisma";
+import { getFakeSession } from "~/server/testUtils/fakeSession";
+import { appRouter } from "~/server/api/root";
+
+
+
+
+const MAP_ID = 1;
+
+const MOD_ID = 1;
+
+
+const fakeMap = {
+    id: MAP_ID,
+    modId: MOD_ID,
+    mapperUserId: null,
+    mapperNameString: "Fake Publisher",
+    name: "Fake Map",
+    canonicalDifficultyId: 1,
+    lengthId: 1,
+    description: null,
+    notes: null,
+    chapter: 1,
+    side: "A",
+    overallRank: null,
+    mapRemovedFromModBool: false,
+    timeSubmitted: 0,
+    submittedBy: null,
+    timeApproved: 0,
+    approvedBy: null,
+    MapToTechs: [],
+};
+
+
+const fakeMapNewSolo = {
+    ...fakeMap,
+    MapToTechs: undefined,
+    Map_NewSoloToTechs: [],
+};
+
+
+const fakeMapEdit = {
+    ...fakeMap,
+    mapId: MAP_ID,
+    name: "Renamed Fake Map",
+    MapToTechs: undefined,
+    Map_EditToTechs: [],
+};
+
+
+const fakeMapArchive = {
+    ...fakeMap,
+    mapId: MAP_ID,
+    name: "Old Fake Map",
+    timeArchived: 0,
+    MapToTechs: undefined,
+    Map_ArchiveToTechs: [],
+};
+
+
+const fakeRating = {
+    id: 1,
+    mapId: MAP_ID,
+    qualityId: 1,
+    difficultyId: 2,
+};
+
+
+const emptyRatingAggregate = {
+    overallCount: 0,
+    qualityCount: 0,
+    qualitySum: 0,
+    difficultyCount: 0,
+    difficultySum: 0,
+};
+
+
+const fakeMod = {
+    id: MOD_ID,
+    type: "Normal",
+    name: "Fake Mod",
+    publisherId: 1,
+};
+
+
+const fakePublisher = {
+    id: 1,
+    gamebananaId: null,
+    userId: null,
+    name: "Fake Publisher",
+};
+
+
+
+
+describe("map.update", () => {
+    it("leaves no partial rows if a moderator's update fails after the map was archived", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: {
+                "map.findUnique": fakeMap,
+                "mod.findUnique": fakeMod,
+                "publisher.findUnique": fakePublisher,
+            },
+            failingWrite: "map.update",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.map.update({ id: MAP_ID, name: "Renamed Map" })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["map_Archive.create"]);
+
+        expect(committedWrites).toEqual([]);
+    });
+});
+
+
+
+
+describe("map.approveNewSolo", () => {
+    it("leaves no partial rows if deleting the Map_NewSolo fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: { "map_NewSolo.findUnique": fakeMapNewSolo },
+            failingWrite: "map_NewSolo.delete",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.map.approveNewSolo({ id: MAP_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["map.create"]);
+
+        expect(committedWrites).toEqual([]);
+    });
+});
+
+
+
+
+describe("map.approveEdit", () => {
+    it("leaves no partial rows if deleting the Map_Edit fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: {
+                "map_Edit.findUnique": fakeMapEdit,
+                "map.findUnique": fakeMap,
+            },
+            failingWrite: "map_Edit.delete",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.map.approveEdit({ id: MAP_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["map_Archive.create", "map.update"]);
+
+        expect(committedWrites).toEqual([]);
+    });
+});
+
+
+
+
+describe("map.restore", () => {
+    it("leaves no partial rows if applying the archived version fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: {
+                "map_Archive.findUnique": fakeMapArchive,
+                "map.findUnique": fakeMap,
+            },
+            failingWrite: "map.update",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.map.restore({ id: MAP_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["map_Archive.create"]);     //the replaced version was archived before the failure
+
+        expect(committedWrites).toEqual([]);
+    });
+});
+
+
+
+
+describe("map.deleteMap_total", () => {
+    it("leaves the rating aggregates unchanged if deleting the map fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: {
+                "map.findUnique": fakeMap,
+                "map.findMany": [{ id: MAP_ID, modId: MOD_ID }],
+                "$queryRaw": [fakeRating],
+                "quality.findMany": [{ id: 1, order: 1 }],
+                "difficulty.findMany": [{ id: 1, order: 1, parentDifficultyId: 0, ChildDifficulty: [{ id: 2 }] }],
+                "mapRatingAggregate.update": emptyRatingAggregate,
+                "modRatingAggregate.update": emptyRatingAggregate,
+            },
+            failingWrite: "map.delete",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Admin"]) });
+
+
+        await expect(caller.map.deleteMap_total({ id: MAP_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual([     //the map's ratings were removed from its aggregates before the failure
+            "mapRatingAggregate.createMany", "mapRatingAggregate.update", "mapRatingAggregate.update",
+            "modRatingAggregate.createMany", "modRatingAggregate.update", "modRatingAggregate.update",
+        ]);
+
+        expect(committedWrites).toEqual([]);
+    });
+});
\ No newline at end of file
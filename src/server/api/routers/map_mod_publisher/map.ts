@@ -1,7 +1,7 @@
 import { z } from "zod";
 import { createTRPCRouter, publicProcedure, adminProcedure, loggedInProcedure, modlistModeratorProcedure } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
-import { MyPrismaClient } from "~/server/prisma";
+import { MyPrismaClient, MyPrismaClientOrTransaction } from "~/server/prisma";
 import { Prisma, Map, MapSide, Map_NewWithMod_New, Map_Edit, Map_Archive, Map_NewSolo } from "@prisma/client";
 import { getCombinedSchema, getOrderObjectArray } from "~/server/api/utils/sortOrderHelpers";
 import { getNonEmptyArray } from "~/utils/getNonEmptyArray";
@@ -17,6 +17,8 @@ import { IfElse, ArrayIncludes } from "../../../../utils/typeHelpers";
 import { getCurrentTime } from "../../utils/getCurrentTime";
 import { getCheckedTableNames } from "../../utils/getCheckedTableNames";
 import { zodOutputIdObject } from "../../utils/zodOutputIdObject";
+import { getLockedRatings, updateRatingAggregates } from "../../utils/ratingAggregates";
+import { runModerationAction } from "../../utils/moderationClaims";
 
 //TODO!: check all routers to make sure disconnect/connect or set are used in any many-to-many relationships
 
@@ -305,7 +307,7 @@ export const getMapById = async<
     tableName: TableName,
     returnAll: ReturnAll,
     throwOnMatch: ThrowOnMatch,
-    prisma: MyPrismaClient,
+    prisma: MyPrismaClientOrTransaction,
     id: number,
     customErrorMessage?: string,
 ): Promise<ReturnType> => {
@@ -651,6 +653,220 @@ const getTechIdsForConnection = (mapToTechs: MapToTechRelation): TechIdsForConne
 
 
 
+/** Returns the data needed to archive the current version of a map. */
+export const getMapArchiveCreateData = (existingMap: ExpandedMap, timeArchived: number): Prisma.Map_ArchiveCreateInput => {
+    return {
+        Map: { connect: { id: existingMap.id } },
+        User_MapperUser: { connect: { id: existingMap.mapperUserId ?? undefined } },
+        mapperNameString: existingMap.mapperNameString,
+        name: existingMap.name,
+        Difficulty: { connect: { id: existingMap.canonicalDifficultyId } },
+        Length: { connect: { id: existingMap.lengthId } },
+        description: existingMap.description,
+        notes: existingMap.notes,
+        chapter: existingMap.chapter,
+        side: existingMap.side,
+        overallRank: existingMap.overallRank,
+        mapRemovedFromModBool: existingMap.mapRemovedFromModBool,
+        timeSubmitted: existingMap.timeSubmitted,
+        User_SubmittedBy: { connect: { id: existingMap.submittedBy ?? undefined } },
+        timeApproved: existingMap.timeApproved,
+        User_ApprovedBy: { connect: { id: existingMap.approvedBy ?? undefined } },
+        timeArchived: timeArchived,
+        Map_ArchiveToTechs: { create: getTechConnectObject(getTechIdsForConnection(existingMap.MapToTechs)) },
+    };
+};
+
+
+/**
+ * Returns the data needed to revert a map to an archived version.
+ * The reverted version counts as a new approval, so that it doesn't overlap with the version it replaces in the map's history.
+ */
+export const getMapUpdateDataFromArchive = (mapArchive: ExpandedMapArchive, timeApproved: number, approvedBy: string): Prisma.MapUpdateInput => {
+    return {
+        //Mod can't be changed
+        User_MapperUser:
+            mapArchive.mapperUserId === null ?
+                { disconnect: true } :  //disconnect existing
+                { connect: { id: mapArchive.mapperUserId } },  //connect new
+        mapperNameString: mapArchive.mapperNameString,
+        name: mapArchive.name,
+        Difficulty: { connect: { id: mapArchive.canonicalDifficultyId } },
+        Length: { connect: { id: mapArchive.lengthId } },
+        description: mapArchive.description,
+        notes: mapArchive.notes,
+        chapter: mapArchive.chapter,
+        side: mapArchive.side,
+        overallRank: mapArchive.overallRank,
+        mapRemovedFromModBool: mapArchive.mapRemovedFromModBool,
+        timeSubmitted: mapArchive.timeSubmitted,
+        User_SubmittedBy:
+            mapArchive.submittedBy === null ?
+                { disconnect: true } :  //disconnect existing
+                { connect: { id: mapArchive.submittedBy } },  //connect new
+        timeApproved: timeApproved,
+        User_ApprovedBy: { connect: { id: approvedBy } },
+        MapToTechs: {
+            deleteMany: {},
+            create: getTechConnectObject(getTechIdsForConnection(mapArchive.Map_ArchiveToTechs)),
+        },
+    };
+};
+
+
+
+
+/** Creates a Map from a Map_NewSolo, then deletes the Map_NewSolo. */
+export const approveMapNewSolo = async (prisma: MyPrismaClientOrTransaction, id: number, approvedBy: string) => {
+    const newMap = await getMapById("Map_NewSolo", true, false, prisma, id);
+    const linkedTechIds = await prisma.map_NewSoloToTechs.findMany({ where: { map_NewSoloId: newMap.id } });
+
+    const currentTime = getCurrentTime();
+
+
+    const techConnectObject: Prisma.MapToTechsCreateWithoutMapInput[] = linkedTechIds.map(
+        (techConnection) => ({
+            Tech: { connect: { id: techConnection.techId } },
+            fullClearOnlyBool: techConnection.fullClearOnlyBool,
+        }),
+    );
+
+
+    const approvedMap = await prisma.map.create({
+        data: {
+            Mod: { connect: { id: newMap.modId } },
+            User_MapperUser: { connect: { id: newMap.mapperUserId ?? undefined } },
+            mapperNameString: newMap.mapperNameString,
+            name: newMap.name,
+            Difficulty: { connect: { id: newMap.canonicalDifficultyId } },
+            Length: { connect: { id: newMap.lengthId } },
+            description: newMap.description,
+            notes: newMap.notes,
+            chapter: newMap.chapter,
+            side: newMap.side,
+            overallRank: newMap.overallRank,
+            mapRemovedFromModBool: newMap.mapRemovedFromModBool,
+            timeSubmitted: newMap.timeSubmitted,
+            User_SubmittedBy: { connect: { id: newMap.submittedBy ?? undefined } },
+            timeApproved: currentTime,
+            User_ApprovedBy: { connect: { id: approvedBy } },
+            MapToTechs: { create: techConnectObject },
+        },
+    });
+
+
+    await prisma.map_NewSolo.delete({ where: { id: id } });
+
+
+    return approvedMap;
+};
+
+
+/** Deletes a Map_NewSolo. */
+export const rejectMapNewSolo = async (prisma: MyPrismaClientOrTransaction, id: number) => {
+    await getMapById("Map_NewSolo", false, false, prisma, id);    //check that the map exists
+
+    await prisma.map_NewSolo.delete({ where: { id: id } });
+
+    return true;
+};
+
+
+/** Archives the current version of the map, applies the Map_Edit to it, then deletes the Map_Edit. */
+export const approveMapEdit = async (prisma: MyPrismaClientOrTransaction, id: number, approvedBy: string) => {
+    const mapEdit = await getMapById("Map_Edit", true, false, prisma, id);  //check that the MapEdit exists
+    const existingMap = await getMapById("Map", true, false, prisma, mapEdit.mapId);  //check that the map exists
+
+
+    const currentTime = getCurrentTime();
+
+
+    const techConnectObject = getTechConnectObject(getTechIdsForConnection(mapEdit.Map_EditToTechs));
+
+
+    await prisma.map_Archive.create({ data: getMapArchiveCreateData(existingMap, currentTime) });
+
+
+    const updatedMap = await prisma.map.update({
+        where: { id: existingMap.id },
+        data: {
+            //Mod can't be changed
+            User_MapperUser:
+                mapEdit.mapperUserId === undefined ?
+                    undefined :     //don't change
+                    mapEdit.mapperUserId === null ?
+                        { disconnect: true } :  //disconnect existing
+                        { connect: { id: mapEdit.mapperUserId } },  //connect new
+            mapperNameString: mapEdit.mapperNameString,
+            name: mapEdit.name,
+            Difficulty: { connect: { id: mapEdit.canonicalDifficultyId } },
+            Length: { connect: { id: mapEdit.lengthId } },
+            description: mapEdit.description,
+            notes: mapEdit.notes,
+            chapter: mapEdit.chapter,
+            side: mapEdit.side,
+            overallRank: mapEdit.overallRank,
+            mapRemovedFromModBool: mapEdit.mapRemovedFromModBool,
+            timeSubmitted: mapEdit.timeSubmitted,
+            User_SubmittedBy:
+                mapEdit.submittedBy === null ?
+                    { disconnect: true } :  //disconnect existing
+                    { connect: { id: mapEdit.submittedBy } },   //connect new
+            timeApproved: currentTime,
+            User_ApprovedBy: { connect: { id: approvedBy } },
+            MapToTechs: {
+                deleteMany: {},     //MapToTechs rows for techs that aren't already connected don't exist yet, so they can't be `set`
+                create: techConnectObject,
+            },
+        },
+        include: { MapToTechs: includeTechObject },  //this procedure is moderator only, so we can return everything
+    });
+
+
+    await prisma.map_Edit.delete({ where: { id: id } });  //this deletion has nothing to cascade to
+
+
+    return updatedMap;
+};
+
+
+/** Deletes a Map_Edit. */
+export const rejectMapEdit = async (prisma: MyPrismaClientOrTransaction, id: number) => {
+    await getMapById("Map_Edit", false, false, prisma, id);
+
+    await prisma.map_Edit.delete({ where: { id: id } });  //this deletion has nothing to cascade to
+
+    return true;
+};
+
+
+/**
+ * Deletes a single Map_NewWithMod_New without affecting the rest of its Mod_New.
+ * Map_NewWithMod_New can't be approved on its own - it is approved along with its Mod_New.
+ * A Mod_New must always have at least one map, so its last map can only be rejected along with it.
+ */
+export const rejectMapNewWithModNew = async (prisma: MyPrismaClientOrTransaction, id: number) => {
+    const newMap = await getMapById("Map_NewWithMod_New", false, false, prisma, id);   //check that the map exists
+
+
+    const siblingMapCount = await prisma.map_NewWithMod_New.count({ where: { mod_NewId: newMap.mod_NewId, id: { not: id } } });
+
+    if (siblingMapCount === 0) {    //check that the Mod_New will still have a map
+        throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Map_NewWithMod_New ${id} is the last map of Mod_New ${newMap.mod_NewId}. Reject Mod_New ${newMap.mod_NewId} instead.`,
+        });
+    }
+
+
+    await prisma.map_NewWithMod_New.delete({ where: { id: id } });
+
+    return true;
+};
+
+
+
+
 export const mapRouter = createTRPCRouter({
     getAll: publicProcedure
         .input(mapOrderSchema)
@@ -874,57 +1090,17 @@ export const mapRouter = createTRPCRouter({
     approveNewSolo: modlistModeratorProcedure
         .input(mapIdSchema)
         .mutation(async ({ ctx, input }) => {
-            const newMap = await getMapById("Map_NewSolo", true, false, ctx.prisma, input.id);
-            const linkedTechIds = await ctx.prisma.map_NewSoloToTechs.findMany({ where: { map_NewSoloId: newMap.id } });
-
-            const currentTime = getCurrentTime();
-
-
-            const techConnectObject: Prisma.MapToTechsCreateWithoutMapInput[] = linkedTechIds.map(
-                (techConnection) => ({
-                    Tech: { connect: { id: techConnection.techId } },
-                    fullClearOnlyBool: techConnection.fullClearOnlyBool,
-                }),
+            return await ctx.prisma.$transaction(
+                (transaction) => runModerationAction(transaction, { itemType: "Map_NewSolo", id: input.id }, ctx.user.id, () => approveMapNewSolo(transaction, input.id, ctx.user.id)),
             );
-
-
-            const approvedMap = await ctx.prisma.map.create({
-                data: {
-                    Mod: { connect: { id: newMap.modId } },
-                    User_MapperUser: { connect: { id: newMap.mapperUserId ?? undefined } },
-                    mapperNameString: newMap.mapperNameString,
-                    name: newMap.name,
-                    Difficulty: { connect: { id: newMap.canonicalDifficultyId } },
-                    Length: { connect: { id: newMap.lengthId } },
-                    description: newMap.description,
-                    notes: newMap.notes,
-                    chapter: newMap.chapter,
-                    side: newMap.side,
-                    overallRank: newMap.overallRank,
-                    mapRemovedFromModBool: newMap.mapRemovedFromModBool,
-                    timeSubmitted: newMap.timeSubmitted,
-                    User_SubmittedBy: { connect: { id: newMap.submittedBy ?? undefined } },
-                    timeApproved: currentTime,
-                    User_ApprovedBy: { connect: { id: ctx.user.id } },
-                    MapToTechs: { create: techConnectObject },
-                },
-            });
-
-
-            await ctx.prisma.map_NewSolo.delete({ where: { id: input.id } });
-
-
-            return approvedMap;
         }),
 
     rejectNewSolo: modlistModeratorProcedure
         .input(mapIdSchema)
         .mutation(async ({ ctx, input }) => {
-            await getMapById("Map_NewSolo", false, false, ctx.prisma, input.id);    //check that the map exists
-
-            await ctx.prisma.map_NewSolo.delete({ where: { id: input.id } });
-
-            return true;
+            return await ctx.prisma.$transaction(
+                (transaction) => runModerationAction(transaction, { itemType: "Map_NewSolo", id: input.id }, ctx.user.id, () => rejectMapNewSolo(transaction, input.id)),
+            );
         }),
 
     update: loggedInProcedure
@@ -1027,39 +1203,25 @@ export const mapRouter = createTRPCRouter({
             let map: ExpandedMap | TrimmedMapEdit;
 
             if (checkPermissions(MODLIST_MODERATOR_PERMISSION_STRINGS, ctx.user.permissions)) {
-                await ctx.prisma.map_Archive.create({
-                    data: {
-                        Map: { connect: { id: existingMap.id } },
-                        User_MapperUser: { connect: { id: existingMap.mapperUserId ?? undefined } },
-                        mapperNameString: existingMap.mapperNameString,
-                        name: existingMap.name,
-                        Difficulty: { connect: { id: existingMap.canonicalDifficultyId } },
-                        Length: { connect: { id: existingMap.lengthId } },
-                        description: existingMap.description,
-                        notes: existingMap.notes,
-                        chapter: existingMap.chapter,
-                        side: existingMap.side,
-                        overallRank: existingMap.overallRank,
-                        mapRemovedFromModBool: existingMap.mapRemovedFromModBool,
-                        timeSubmitted: existingMap.timeSubmitted,
-                        User_SubmittedBy: { connect: { id: existingMap.submittedBy ?? undefined } },
-                        timeApproved: existingMap.timeApproved,
-                        User_ApprovedBy: { connect: { id: existingMap.approvedBy ?? undefined } },
-                        timeArchived: currentTime,
-                        Map_ArchiveToTechs: { create: techConnectObject },
-                    },
-                });
-
-
-                map = await ctx.prisma.map.update({
-                    where: { id: input.id },
-                    data: {
-                        ...mapUpdateData,
-                        timeApproved: currentTime,
-                        User_ApprovedBy: { connect: { id: ctx.user.id } },
+                map = await ctx.prisma.$transaction(
+                    async (transaction) => {
+                        await transaction.map_Archive.create({ data: getMapArchiveCreateData(existingMap, currentTime) });     //archive the map's current techs, not the new ones
+
+                        return await transaction.map.update({
+                            where: { id: input.id },
+                            data: {
+                                ...mapUpdateData,
+                                MapToTechs: input.techAnyIds || input.techFullClearIds ? {
+                                    deleteMany: {},
+                                    create: techConnectObject,
+                                } : undefined,
+                                timeApproved: currentTime,
+                                User_ApprovedBy: { connect: { id: ctx.user.id } },
+                            },
+                            include: { MapToTechs: includeTechObject },
+                        });
                     },
-                    include: { MapToTechs: includeTechObject },
-                });
+                );
             }
             else {
                 const mapEditCreateData: Prisma.Map_EditCreateInput = {
@@ -1082,96 +1244,17 @@ export const mapRouter = createTRPCRouter({
     approveEdit: modlistModeratorProcedure
         .input(mapIdSchema)
         .mutation(async ({ ctx, input }) => {
-            const mapEdit = await getMapById("Map_Edit", true, false, ctx.prisma, input.id);  //check that the MapEdit exists
-            const existingMap = await getMapById("Map", true, false, ctx.prisma, mapEdit.mapId);  //check that the map exists
-
-
-            const currentTime = getCurrentTime();
-
-
-            const techConnectObject = getTechConnectObject(getTechIdsForConnection(mapEdit.Map_EditToTechs));
-
-
-            await ctx.prisma.map_Archive.create({
-                data: {
-                    Map: { connect: { id: existingMap.id } },
-                    User_MapperUser: { connect: { id: existingMap.mapperUserId ?? undefined } },
-                    mapperNameString: existingMap.mapperNameString,
-                    name: existingMap.name,
-                    Difficulty: { connect: { id: existingMap.canonicalDifficultyId } },
-                    Length: { connect: { id: existingMap.lengthId } },
-                    description: existingMap.description,
-                    notes: existingMap.notes,
-                    chapter: existingMap.chapter,
-                    side: existingMap.side,
-                    overallRank: existingMap.overallRank,
-                    mapRemovedFromModBool: existingMap.mapRemovedFromModBool,
-                    timeSubmitted: existingMap.timeSubmitted,
-                    User_SubmittedBy: { connect: { id: existingMap.submittedBy ?? undefined } },
-                    timeApproved: existingMap.timeApproved,
-                    User_ApprovedBy: { connect: { id: existingMap.approvedBy ?? undefined } },
-                    timeArchived: currentTime,
-                    Map_ArchiveToTechs: { create: techConnectObject },
-                },
-            });
-
-
-            const updatedMap = await ctx.prisma.map.update({
-                where: { id: existingMap.id },
-                data: {
-                    //Mod can't be changed
-                    User_MapperUser:
-                        mapEdit.mapperUserId === undefined ?
-                            undefined :     //don't change
-                            mapEdit.mapperUserId === null ?
-                                { disconnect: true } :  //disconnect existing
-                                { connect: { id: mapEdit.mapperUserId } },  //connect new
-                    mapperNameString: mapEdit.mapperNameString,
-                    name: mapEdit.name,
-                    Difficulty: { connect: { id: mapEdit.canonicalDifficultyId } },
-                    Length: { connect: { id: mapEdit.lengthId } },
-                    description: mapEdit.description,
-                    notes: mapEdit.notes,
-                    chapter: mapEdit.chapter,
-                    side: mapEdit.side,
-                    overallRank: mapEdit.overallRank,
-                    mapRemovedFromModBool: mapEdit.mapRemovedFromModBool,
-                    timeSubmitted: mapEdit.timeSubmitted,
-                    User_SubmittedBy:
-                        mapEdit.submittedBy === null ?
-                            { disconnect: true } :  //disconnect existing
-                            { connect: { id: mapEdit.submittedBy } },   //connect new
-                    timeApproved: currentTime,
-                    User_ApprovedBy: { connect: { id: ctx.user.id } },
-                    MapToTechs: {
-                        set: mapEdit.Map_EditToTechs.map(
-                            (mapToTech) => ({
-                                mapId_techId: {
-                                    mapId: mapEdit.mapId,
-                                    techId: mapToTech.techId,
-                                },
-                            }),
-                        ),
-                    },
-                },
-                include: { MapToTechs: includeTechObject },  //this procedure is moderator only, so we can return everything
-            });
-
-
-            await ctx.prisma.map_Edit.delete({ where: { id: input.id } });  //this deletion has nothing to cascade to
-
-
-            return updatedMap;
+            return await ctx.prisma.$transaction(
+                (transaction) => runModerationAction(transaction, { itemType: "Map_Edit", id: input.id }, ctx.user.id, () => approveMapEdit(transaction, input.id, ctx.user.id)),
+            );
         }),
 
     rejectEdit: modlistModeratorProcedure
         .input(mapIdSchema)
         .mutation(async ({ ctx, input }) => {
-            await getMapById("Map_Edit", false, false, ctx.prisma, input.id);
-
-            await ctx.prisma.map_Edit.delete({ where: { id: input.id } });  //this deletion has nothing to cascade to
-
-            return true;
+            return await ctx.prisma.$transaction(
+                (transaction) => runModerationAction(transaction, { itemType: "Map_Edit", id: input.id }, ctx.user.id, () => rejectMapEdit(transaction, input.id)),
+            );
         }),
 
     restore: modlistModeratorProcedure
@@ -1179,64 +1262,41 @@ export const mapRouter = createTRPCRouter({
         .mutation(async ({ ctx, input }) => {
             //only affects the single map, not the mod or other maps
 
-            const mapArchive = await getMapById("Map_Archive", true, false, ctx.prisma, input.id);  //check that the MapArchive exists
+            return await ctx.prisma.$transaction(
+                async (transaction) => {
+                    const mapArchive = await getMapById("Map_Archive", true, false, transaction, input.id);  //check that the MapArchive exists
+                    const existingMap = await getMapById("Map", true, false, transaction, mapArchive.mapId);  //check that the map exists
 
 
-            const updatedMap = await ctx.prisma.map.update({
-                where: { id: mapArchive.mapId },
-                data: {
-                    //Mod can't be changed
-                    User_MapperUser:
-                        mapArchive.mapperUserId === null ?
-                            { disconnect: true } :  //disconnect existing
-                            { connect: { id: mapArchive.mapperUserId } },  //connect new
-                    mapperNameString: mapArchive.mapperNameString,
-                    name: mapArchive.name,
-                    Difficulty: { connect: { id: mapArchive.canonicalDifficultyId } },
-                    Length: { connect: { id: mapArchive.lengthId } },
-                    description: mapArchive.description,
-                    notes: mapArchive.notes,
-                    chapter: mapArchive.chapter,
-                    side: mapArchive.side,
-                    overallRank: mapArchive.overallRank,
-                    mapRemovedFromModBool: mapArchive.mapRemovedFromModBool,
-                    timeSubmitted: mapArchive.timeSubmitted,
-                    User_SubmittedBy:
-                        mapArchive.submittedBy === null ?
-                            { disconnect: true } :  //disconnect existing
-                            { connect: { id: mapArchive.submittedBy } },  //connect new
-                    timeApproved: mapArchive.timeApproved,
-                    User_ApprovedBy:
-                        mapArchive.approvedBy === null ?
-                            { disconnect: true } :  //disconnect existing
-                            { connect: { id: mapArchive.approvedBy } },  //connect new
-                    MapToTechs: {
-                        set: mapArchive.Map_ArchiveToTechs.map(
-                            (mapToTech) => ({
-                                mapId_techId: {
-                                    mapId: mapArchive.mapId,
-                                    techId: mapToTech.techId,
-                                },
-                            }),
-                        ),
-                    },
-                },
-                include: { MapToTechs: includeTechObject },  //this procedure is moderator only, so we can return everything
-            });
+                    const currentTime = getCurrentTime();
+
 
+                    //archive the version being replaced, and keep the restored archive, so the map's history stays complete
+                    await transaction.map_Archive.create({ data: getMapArchiveCreateData(existingMap, currentTime) });
 
-            await ctx.prisma.map_Archive.delete({ where: { id: input.id } });  //this deletion has nothing to cascade to
+
+                    const updatedMap = await transaction.map.update({
+                        where: { id: existingMap.id },
+                        data: getMapUpdateDataFromArchive(mapArchive, currentTime, ctx.user.id),
+                        include: { MapToTechs: includeTechObject },  //this procedure is moderator only, so we can return everything
+                    });
 
 
-            return updatedMap;
+                    return updatedMap;
+                },
+            );
         }),
 
     deleteArchiveMap: adminProcedure
         .input(mapIdSchema)
         .mutation(async ({ ctx, input }) => {
-            await getMapById("Map_Archive", false, false, ctx.prisma, input.id);  //check that id matches an existing mapArchive
+            await ctx.prisma.$transaction(
+                async (transaction) => {
+                    await getMapById("Map_Archive", false, false, transaction, input.id);  //check that id matches an existing mapArchive
 
-            await ctx.prisma.map_Archive.delete({ where: { id: input.id } });
+                    await transaction.map_Archive.delete({ where: { id: input.id } });
+                },
+            );
 
             return true;
         }),
@@ -1244,9 +1304,19 @@ export const mapRouter = createTRPCRouter({
     deleteMap_total: adminProcedure
         .input(mapIdSchema)
         .mutation(async ({ ctx, input }) => {
-            const mapFromId = await getMapById("Map", false, false, ctx.prisma, input.id);  //check that id matches an existing map
+            await ctx.prisma.$transaction(
+                async (transaction) => {
+                    await getMapById("Map", false, false, transaction, input.id);  //check that id matches an existing map
+
+
+                    const ratings = await getLockedRatings(transaction, { mapId: input.id });
 
-            await ctx.prisma.map.delete({ where: { id: input.id } });   //the deletion should cascade to any maps, mapEdits, and mapArchives
+                    await updateRatingAggregates(transaction, ratings.map((rating) => ({ mapId: rating.mapId, oldRating: rating, newRating: null })));  //the map's ratings no longer count towards its mod
+
+
+                    await transaction.map.delete({ where: { id: input.id } });   //the deletion should cascade to any maps, mapEdits, and mapArchives
+                },
+            );
 
 
             return true;
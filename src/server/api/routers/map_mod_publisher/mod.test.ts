@@ -0,0 +1,315 @@
+import { describe, expect, it } from "vitest";
+import { INJECTED_FAILURE_MESSAGE, getFakePrisma } from "~/server/testUtils/fakePrisma";
+import { getFakeSession } from "~/server/testUtils/fakeSession";
+import { appRouter } from "~/server/api/root";
+
+
+
+
+const MOD_ID = 1;
+
+const GAMEBANANA_MOD_ID = 123456;
+
+
+const fakeModNew = {
+    id: MOD_ID,
+    type: "Normal",
+    name: "Fake Mod",
+    publisherId: 1,
+    contentWarning: false,
+    notes: null,
+    shortDescription: "A mod that only exists in tests.",
+    longDescription: null,
+    gamebananaModId: GAMEBANANA_MOD_ID,
+    timeCreatedGamebanana: 0,
+    timeSubmitted: 0,
+    submittedBy: null,
+    Map_NewWithMod_New: [
+        {
+            id: 1,
+            mod_NewId: MOD_ID,
+            mapperUserId: null,
+            mapperNameString: "Fake Publisher",
+            name: "Fake Map",
+            canonicalDifficultyId: 1,
+            lengthId: 1,
+            description: null,
+            notes: null,
+            chapter: 1,
+            side: "A",
+            overallRank: null,
+            mapRemovedFromModBool: false,
+            timeSubmitted: 0,
+            submittedBy: null,
+        },
+    ],
+    Mod_NewToTags: [],
+};
+
+
+const fakeMod = {
+    id: MOD_ID,
+    type: "Normal",
+    name: "Fake Mod",
+    publisherId: 1,
+    contentWarning: false,
+    notes: null,
+    shortDescription: "A mod that only exists in tests.",
+    longDescription: null,
+    gamebananaModId: GAMEBANANA_MOD_ID,
+    timeCreatedGamebanana: 0,
+    timeSubmitted: 0,
+    submittedBy: null,
+    timeApproved: 300,
+    approvedBy: null,
+    ModToTags: [],
+};
+
+
+const fakeModEdit = {
+    ...fakeMod,
+    modId: MOD_ID,
+    name: "Renamed Fake Mod",
+    ModToTags: undefined,
+    Mod_EditToTags: [],
+};
+
+
+const fakeModArchive = {
+    ...fakeMod,
+    modId: MOD_ID,
+    name: "Old Fake Mod",
+    timeApproved: 100,
+    timeArchived: 300,
+    ModToTags: undefined,
+    Mod_ArchiveToTags: [],
+};
+
+
+const fakeMap = {
+    id: 1,
+    modId: MOD_ID,
+    mapperUserId: null,
+    mapperNameString: "Fake Publisher",
+    name: "Fake Map",
+    canonicalDifficultyId: 1,
+    lengthId: 1,
+    description: null,
+    notes: null,
+    chapter: 1,
+    side: "A",
+    overallRank: null,
+    mapRemovedFromModBool: false,
+    timeSubmitted: 0,
+    submittedBy: null,
+    timeApproved: 300,
+    approvedBy: null,
+    MapToTechs: [],
+};
+
+
+const fakeMapArchive = {
+    ...fakeMap,
+    mapId: fakeMap.id,
+    name: "Old Fake Map",
+    timeApproved: 100,
+    timeArchived: 300,
+    MapToTechs: undefined,
+    Map_ArchiveToTechs: [],
+};
+
+
+
+
+describe("mod.approveNew", () => {
+    it("commits the new mod and deletes the Mod_New when nothing fails", async () => {
+        const { prisma, committedWrites } = getFakePrisma({ results: { "mod_New.findUnique": fakeModNew } });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await caller.mod.approveNew({ id: MOD_ID });
+
+
+        expect(committedWrites.map((write) => write.query)).toEqual(["mod.create", "mod_New.delete", "moderationClaim.deleteMany", "auditLogEntry.create"]);
+    });
+
+
+    it("leaves no partial rows if deleting the Mod_New fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: { "mod_New.findUnique": fakeModNew },
+            failingWrite: "mod_New.delete",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.mod.approveNew({ id: MOD_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["mod.create"]);   //the approved mod and its maps were created before the failure
+
+        expect(committedWrites).toEqual([]);
+    });
+
+
+    it("rolls back the approval if its audit log entry can't be written", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: { "mod_New.findUnique": fakeModNew },
+            failingWrite: "auditLogEntry.create",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.mod.approveNew({ id: MOD_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["mod.create", "mod_New.delete", "moderationClaim.deleteMany"]);
+
+        expect(committedWrites).toEqual([]);
+    });
+});
+
+
+
+
+describe("mod.rejectNew", () => {
+    it("leaves the Mod_New in place if releasing its claim fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: { "mod_New.findUnique": fakeModNew },
+            failingWrite: "moderationClaim.deleteMany",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.mod.rejectNew({ id: MOD_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["mod_New.delete"]);
+
+        expect(committedWrites).toEqual([]);
+    });
+});
+
+
+
+
+describe("mod.approveEdit", () => {
+    it("leaves no partial rows if deleting the Mod_Edit fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: {
+                "mod_Edit.findUnique": fakeModEdit,
+                "mod.findUnique": fakeMod,
+            },
+            failingWrite: "mod_Edit.delete",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.mod.approveEdit({ id: MOD_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["mod_Archive.create", "mod.update"]);
+
+        expect(committedWrites).toEqual([]);
+    });
+});
+
+
+
+
+describe("mod.rejectEdit", () => {
+    it("leaves the Mod_Edit in place if releasing its claim fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: { "mod_Edit.findUnique": fakeModEdit },
+            failingWrite: "moderationClaim.deleteMany",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.mod.rejectEdit({ id: MOD_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["mod_Edit.delete"]);
+
+        expect(committedWrites).toEqual([]);
+    });
+});
+
+
+
+
+describe("mod.restore", () => {
+    it("leaves no partial rows if applying the archived version fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: {
+                "mod_Archive.findUnique": fakeModArchive,
+                "mod.findUnique": fakeMod,
+            },
+            failingWrite: "mod.update",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.mod.restore({ id: MOD_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["mod_Archive.create"]);     //the replaced version was archived before the failure
+
+        expect(committedWrites).toEqual([]);
+    });
+});
+
+
+
+
+describe("mod.restoreToTime", () => {
+    it("leaves no partial rows if restoring one of the mod's maps fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: {
+                "mod.findUnique": fakeMod,
+                "mod_Archive.findMany": [fakeModArchive],
+                "map.findMany": [fakeMap],
+                "map_Archive.findMany": [fakeMapArchive],
+            },
+            failingWrite: "map.update",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Map_Moderator"]) });
+
+
+        await expect(caller.mod.restoreToTime({ id: MOD_ID, time: 200 })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["mod_Archive.create", "mod.update", "map_Archive.create"]);  //the mod was restored, and the map archived, before the failure
+
+        expect(committedWrites).toEqual([]);
+    });
+});
+
+
+
+
+describe("mod.deleteMod_total", () => {
+    it("leaves no partial rows if deleting the mod's Mod_Edits fails", async () => {
+        const { prisma, committedWrites, rolledBackWrites } = getFakePrisma({
+            results: { "mod.findUnique": fakeMod },
+            failingWrite: "mod_Edit.deleteMany",
+        });
+
+        const caller = appRouter.createCaller({ prisma, session: getFakeSession(["Admin"]) });
+
+
+        await expect(caller.mod.deleteMod_total({ id: MOD_ID })).rejects.toThrow(INJECTED_FAILURE_MESSAGE);
+
+
+        expect(rolledBackWrites.map((write) => write.query)).toEqual(["mod.delete", "mod_Archive.deleteMany"]);
+
+        expect(committedWrites).toEqual([]);
+    });
+});
\ No newline at end of file
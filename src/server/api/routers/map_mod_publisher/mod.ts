@@ -1,36 +1,42 @@
 import { z } from "zod";
-import axios from "axios";
 import { createTRPCRouter, publicProcedure, adminProcedure, loggedInProcedure, modlistModeratorProcedure } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
-import { MyPrismaClient } from "~/server/prisma";
+import { MyPrismaClient, MyPrismaClientOrTransaction } from "~/server/prisma";
 import { Prisma, ModType, Mod, Mod_Archive, Mod_Edit, Mod_New } from "@prisma/client";
 import { getCombinedSchema, getOrderObjectArray } from "~/server/api/utils/sortOrderHelpers";
 import { getNonEmptyArray } from "~/utils/getNonEmptyArray";
 import { INT_MAX_SIZES } from "~/consts/integerSizes";
 import { MODLIST_MODERATOR_PERMISSION_STRINGS, checkPermissions } from "../../utils/permissions";
-import { mapPostWithModSchema, MapperUserId, modIdSchema_NonObject } from "./map";
+import { mapPostWithModSchema, MapperUserId, modIdSchema_NonObject, getMapArchiveCreateData, getMapUpdateDataFromArchive } from "./map";
 import { PUBLISHER_NAME_MAX_LENGTH } from "./publisher";
 import { getCurrentTime } from "../../utils/getCurrentTime";
 import { selectIdObject } from "../../utils/selectIdObject";
 import { IfElse } from "../../../../utils/typeHelpers";
 import { getCheckedTableNames } from "../../utils/getCheckedTableNames";
 import { zodOutputIdObject } from "../../utils/zodOutputIdObject";
+import { checkTagsExist, tagIdsSchema_NonObject } from "../tag";
+import { runModerationAction } from "../../utils/moderationClaims";
+import { getGamebananaApiClient } from "~/gamebananaApi/gamebananaApiClient";
+import type { GamebananaItemData } from "~/gamebananaApi/fieldSchemas";
 
 
 
 
 type IdObjectArray = { id: number; }[];
 
+type ModToTagRelation = { tagId: number; }[];
+
 type ExpandedMod = Mod & {
     Map: IdObjectArray;
     Review: IdObjectArray;
     Mod_Archive: IdObjectArray;
     Mod_Edit: IdObjectArray;
     Map_NewSolo: IdObjectArray;
+    ModToTags: ModToTagRelation;
 };
-type ExpandedModArchive = Mod_Archive;
-type ExpandedModEdit = Mod_Edit;
-type ExpandedModNew = Mod_New & { Map_NewWithMod_New: IdObjectArray; };
+type ExpandedModArchive = Mod_Archive & { Mod_ArchiveToTags: ModToTagRelation; };
+type ExpandedModEdit = Mod_Edit & { Mod_EditToTags: ModToTagRelation; };
+type ExpandedModNew = Mod_New & { Map_NewWithMod_New: IdObjectArray; Mod_NewToTags: ModToTagRelation; };
 
 export type TrimmedMod = Omit<ExpandedMod, "submittedBy" | "approvedBy">;   //TODO: remove export when no longer used in "~/types/types.ts"
 type TrimmedModArchive = Omit<ExpandedModArchive, "submittedBy" | "approvedBy">;
@@ -40,17 +46,36 @@ type TrimmedModNew = Omit<ExpandedModNew, "submittedBy">;
 
 
 
+const includeTagObject = {
+    select: {
+        tagId: true,
+    },
+};
+
+
 const includeModConnectionsObject = {
     Map: selectIdObject,
     Review: selectIdObject,
     Mod_Archive: selectIdObject,
     Mod_Edit: selectIdObject,
     Map_NewSolo: selectIdObject,
+    ModToTags: includeTagObject,
+};
+
+
+const includeModArchiveConnectionsObject = {
+    Mod_ArchiveToTags: includeTagObject,
+};
+
+
+const includeModEditConnectionsObject = {
+    Mod_EditToTags: includeTagObject,
 };
 
 
 const includeModNewConnectionsObject = {
     Map_NewWithMod_New: selectIdObject,
+    Mod_NewToTags: includeTagObject,
 };
 
 
@@ -83,12 +108,14 @@ const defaultModArchiveSelect = Prisma.validator<Prisma.Mod_ArchiveSelect>()({
     modId: true,
     timeApproved: true,
     timeArchived: true,
+    ...includeModArchiveConnectionsObject,
 });
 
 
 const defaultModEditSelect = Prisma.validator<Prisma.Mod_EditSelect>()({
     ...baseModSelectObject,
     modId: true,
+    ...includeModEditConnectionsObject,
 });
 
 
@@ -100,6 +127,15 @@ const defaultModNewSelect = Prisma.validator<Prisma.Mod_NewSelect>()({
 
 
 
+/** restoring touches the mod and every one of its maps, so it needs longer than the default interactive transaction timeout */
+const RESTORE_TO_TIME_TIMEOUT_MILLISECONDS = 30 * 1000;
+
+/** maps being restored are briefly renamed to this, so that maps can swap names without breaking the [modId, name] unique constraint */
+const getRestoringMapName = (mapId: number) => `[restoring map ${mapId}]`;
+
+
+
+
 const MOD_NAME_MAX_LENGTH = 200;
 
 const modNameSchema_NonObject = z.string().min(1).max(MOD_NAME_MAX_LENGTH);
@@ -111,14 +147,14 @@ const modShortDescriptionSchema_NonObject = z.string().min(1).max(150);
 const modLongDescriptionSchema_NonObject = z.string().min(1).max(1500);
 
 
-const gamebananaModIdSchema_NonObject = z.number().int().gte(1).lte(INT_MAX_SIZES.mediumInt.unsigned);
+export const gamebananaModIdSchema_NonObject = z.number().int().gte(1).lte(INT_MAX_SIZES.mediumInt.unsigned);
 
-const gamebananaModIdSchema = z.object({
+export const gamebananaModIdSchema = z.object({
     gamebananaModId: gamebananaModIdSchema_NonObject,
 }).strict();
 
 
-const modIdSchema = z.object({
+export const modIdSchema = z.object({
     id: modIdSchema_NonObject,
 }).strict();
 
@@ -133,6 +169,7 @@ const modPostSchema = z.object({
     shortDescription: modShortDescriptionSchema_NonObject,
     longDescription: modLongDescriptionSchema_NonObject.nullable().default(null),
     gamebananaModId: gamebananaModIdSchema_NonObject,
+    tagIds: tagIdsSchema_NonObject.optional(),
     maps: mapPostWithModSchema.array().nonempty(),
 }).strict();
 
@@ -172,6 +209,9 @@ const restModSchema = z.object({
     Mod_Archive: zodOutputIdObject.array(),
     Mod_Edit: zodOutputIdObject.array(),
     Map_NewSolo: zodOutputIdObject.array(),
+    ModToTags: z.object({
+        tagId: z.number(),
+    }).array(),
 });
 
 type ModTableName = typeof modTableNameArray[number];
@@ -211,7 +251,7 @@ export const getModById = async<
     idType: IdType,
     returnAll: ReturnAll,
     throwOnMatch: ThrowOnMatch,
-    prisma: MyPrismaClient,
+    prisma: MyPrismaClientOrTransaction,
     id: number,
     customErrorMessage?: string,
 ): Promise<ReturnType> => {
@@ -237,14 +277,14 @@ export const getModById = async<
             case "Mod_Archive": {
                 mod = await prisma.mod_Archive.findUnique({
                     where: idObject,
-                    include: undefined,
+                    include: includeModArchiveConnectionsObject,
                 }) as Union;
                 break;
             }
             case "Mod_Edit": {
                 mod = await prisma.mod_Edit.findUnique({
                     where: idObject,
-                    include: undefined,
+                    include: includeModEditConnectionsObject,
                 }) as Union;
                 break;
             }
@@ -358,14 +398,14 @@ const getModByName = async<
             case "Mod_Archive": {
                 mods = await prisma.mod_Archive.findMany({
                     where: whereObject as Prisma.Mod_ArchiveWhereInput,
-                    include: undefined,
+                    include: includeModArchiveConnectionsObject,
                 }) as unknown as ReturnType;    //TODO!: figure out if this is safe and if it can be removed
                 break;
             }
             case "Mod_Edit": {
                 mods = await prisma.mod_Edit.findMany({
                     where: whereObject as Prisma.Mod_EditWhereInput,
-                    include: undefined,
+                    include: includeModEditConnectionsObject,
                 }) as unknown as ReturnType;    //TODO!: figure out if this is safe and if it can be removed
                 break;
             }
@@ -433,38 +473,10 @@ type GamebananaModInfo = {
 
 
 const getGamebananaModInfo = async (gamebananaModID: number): Promise<GamebananaModInfo> => {
-    try {
-        const options = {
-            url: `https://api.gamebanana.com/Core/Item/Data?return_keys=true&itemtype=Mod&itemid=${gamebananaModID}&fields=userid,Owner().name,date,name`,
-        };
-
-
-        const axiosResponse = await axios(options);
-
-        if (axiosResponse.status != 200) {
-            throw "GameBanana api not responding as expected.";
-        }
-
-
-        const { userid, "Owner().name": publisherName, date, name: gamebananaModName } = JSON.parse(axiosResponse.data);
-
-        if (!userid || !publisherName || !date || !gamebananaModName) throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Error getting gamebanana mod info.",
-        });
-
-        if (publisherName > PUBLISHER_NAME_MAX_LENGTH) throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: `Gamebanana publisher name for publisherGamebananaId ${userid} too long. Please contact an admin.`,
-        });
-
-        if (gamebananaModName > MOD_NAME_MAX_LENGTH) throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: `Gamebanana mod name for gamebananaModId ${gamebananaModID} too long. Please contact an admin.`,
-        });
+    let gamebananaModData: GamebananaItemData<"Mod", "userid" | "Owner().name" | "date" | "name">;
 
-
-        return { publisherGamebananaId: userid, publisherName, timeCreatedGamebanana: date, gamebananaModName };
+    try {
+        gamebananaModData = await getGamebananaApiClient().getItemData("Mod", gamebananaModID, ["userid", "Owner().name", "date", "name"]);
     }
     catch (error) {
         throw new TRPCError({
@@ -472,6 +484,22 @@ const getGamebananaModInfo = async (gamebananaModID: number): Promise<Gamebanana
             message: "Error getting gamebanana mod info.",
         });
     }
+
+
+    const { userid, "Owner().name": publisherName, date, name: gamebananaModName } = gamebananaModData;
+
+    if (publisherName.length > PUBLISHER_NAME_MAX_LENGTH) throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Gamebanana publisher name for publisherGamebananaId ${userid} too long. Please contact an admin.`,
+    });
+
+    if (gamebananaModName.length > MOD_NAME_MAX_LENGTH) throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Gamebanana mod name for gamebananaModId ${gamebananaModID} too long. Please contact an admin.`,
+    });
+
+
+    return { publisherGamebananaId: userid, publisherName, timeCreatedGamebanana: date, gamebananaModName };
 };
 
 
@@ -508,6 +536,265 @@ const getUpdateGamebananaModIdObject = async (newGamebananaModId: number): Promi
 
 
 
+const getTagConnectObject = (tagIds: number[] | undefined): Prisma.ModToTagsCreateWithoutModInput[] => {
+    if (!tagIds) return [];
+
+
+    return tagIds.map(
+        (tagId) => ({
+            Tag: { connect: { id: tagId } },
+        }),
+    );
+};
+
+const getTagIdsForConnection = (modToTags: ModToTagRelation): number[] => {
+    return modToTags.map((modToTag) => modToTag.tagId);
+};
+
+
+
+
+type VersionTimes = {
+    timeApproved: number;
+    timeArchived: number;
+};
+
+
+/**
+ * Returns the version that was live at `time`.
+ * "current" means the live version had already been approved by then. undefined means no version had been approved yet.
+ */
+const getVersionAtTime = <Archive extends VersionTimes>(currentTimeApproved: number, archives: Archive[], time: number): Archive | "current" | undefined => {
+    if (currentTimeApproved <= time) return "current";
+
+
+    let matchingArchive: Archive | undefined;
+
+    for (const archive of archives) {
+        if (archive.timeApproved > time || archive.timeArchived <= time) continue;
+
+        if (!matchingArchive || archive.timeArchived > matchingArchive.timeArchived) matchingArchive = archive;
+    }
+
+
+    return matchingArchive;
+};
+
+
+export type ModHistoryEntry = {
+    tableName: "Mod" | "Mod_Archive" | "Map" | "Map_Archive";
+    /** the id of the row in `tableName` */
+    id: number;
+    /** the id of the live mod or map this version belongs to */
+    targetId: number;
+    name: string;
+    timeApproved: number;
+    /** null for the live version */
+    timeArchived: number | null;
+};
+
+
+
+
+/** Returns the data needed to archive the current version of a mod. */
+export const getModArchiveCreateData = (existingMod: ExpandedMod, timeArchived: number): Prisma.Mod_ArchiveCreateInput => {
+    return {
+        Mod: { connect: { id: existingMod.id } },
+        type: existingMod.type,
+        name: existingMod.name,
+        Publisher: { connect: { id: existingMod.publisherId } },
+        contentWarning: existingMod.contentWarning,
+        notes: existingMod.notes,
+        shortDescription: existingMod.shortDescription,
+        longDescription: existingMod.longDescription,
+        gamebananaModId: existingMod.gamebananaModId,
+        timeCreatedGamebanana: existingMod.timeCreatedGamebanana,
+        timeSubmitted: existingMod.timeSubmitted,
+        User_SubmittedBy: { connect: { id: existingMod.submittedBy ?? undefined } },
+        timeApproved: existingMod.timeApproved,
+        User_ApprovedBy: { connect: { id: existingMod.approvedBy ?? undefined } },
+        timeArchived: timeArchived,
+        Mod_ArchiveToTags: { create: getTagConnectObject(getTagIdsForConnection(existingMod.ModToTags)) },
+    };
+};
+
+
+/**
+ * Returns the data needed to revert a mod to an archived version.
+ * The reverted version counts as a new approval, so that it doesn't overlap with the version it replaces in the mod's history.
+ */
+export const getModUpdateDataFromArchive = (modArchive: ExpandedModArchive, timeApproved: number, approvedBy: string): Prisma.ModUpdateInput => {
+    return {
+        type: modArchive.type,
+        name: modArchive.name,
+        Publisher: { connect: { id: modArchive.publisherId } },
+        contentWarning: modArchive.contentWarning,
+        notes: modArchive.notes,
+        shortDescription: modArchive.shortDescription,
+        longDescription: modArchive.longDescription,
+        gamebananaModId: modArchive.gamebananaModId,
+        timeSubmitted: modArchive.timeSubmitted,
+        User_SubmittedBy:
+            modArchive.submittedBy === null ?
+                { disconnect: true } :
+                { connect: { id: modArchive.submittedBy } },
+        timeApproved: timeApproved,
+        User_ApprovedBy: { connect: { id: approvedBy } },
+        timeCreatedGamebanana: modArchive.timeCreatedGamebanana,
+        ModToTags: {
+            deleteMany: {},
+            create: getTagConnectObject(getTagIdsForConnection(modArchive.Mod_ArchiveToTags)),
+        },
+    };
+};
+
+
+
+
+/** Creates a Mod (and its Maps) from a Mod_New, then deletes the Mod_New. */
+export const approveModNew = async (prisma: MyPrismaClientOrTransaction, id: number, approvedBy: string) => {
+    const newMod = await prisma.mod_New.findUnique({
+        where: { id: id },
+        include: {
+            Map_NewWithMod_New: true,
+            Mod_NewToTags: includeTagObject,
+        },
+    });
+
+    if (!newMod) {
+        throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `No mod exists in mod_New with id "${id}"`,
+        });
+    }
+
+
+    const currentTime = getCurrentTime();
+
+
+    const approvedMod = await prisma.mod.create({
+        data: {
+            type: newMod.type,
+            name: newMod.name,
+            contentWarning: newMod.contentWarning,
+            notes: newMod.notes,
+            shortDescription: newMod.shortDescription,
+            longDescription: newMod.longDescription,
+            gamebananaModId: newMod.gamebananaModId,
+            timeSubmitted: newMod.timeSubmitted,
+            User_SubmittedBy: { connect: { id: newMod.submittedBy ?? undefined } },
+            timeApproved: currentTime,
+            User_ApprovedBy: { connect: { id: approvedBy } },
+            timeCreatedGamebanana: newMod.timeCreatedGamebanana,
+            Publisher: { connect: { id: newMod.publisherId } },
+            Map: {
+                create: newMod.Map_NewWithMod_New.map(
+                    (newMap) => {
+                        return {
+                            mapperNameString: newMap.mapperNameString,
+                            User_MapperUser: { connect: { id: newMap.mapperUserId ?? undefined } },
+                            name: newMap.name,
+                            description: newMap.description,
+                            notes: newMap.notes,
+                            chapter: newMap.chapter,
+                            side: newMap.side,
+                            overallRank: newMap.overallRank,
+                            mapRemovedFromModBool: newMap.mapRemovedFromModBool,
+                            timeSubmitted: newMap.timeSubmitted,
+                            User_SubmittedBy: { connect: { id: newMap.submittedBy ?? undefined } },
+                            timeApproved: currentTime,
+                            User_ApprovedBy: { connect: { id: approvedBy } },
+                            Difficulty: { connect: { id: newMap.canonicalDifficultyId } },
+                            Length: { connect: { id: newMap.lengthId } },
+                        };
+                    },
+                ),
+            },
+            ModToTags: { create: getTagConnectObject(getTagIdsForConnection(newMod.Mod_NewToTags)) },
+        },
+        include: {  //use include instead of select so that other Mod properties are still returned
+            Map: selectIdObject,
+            ModToTags: includeTagObject,
+        },
+    });
+
+
+    await prisma.mod_New.delete({ where: { id: id } });    //the deletion should cascade to any NewMaps
+
+
+    return approvedMod;
+};
+
+
+/** Deletes a Mod_New and any maps submitted with it. */
+export const rejectModNew = async (prisma: MyPrismaClientOrTransaction, id: number) => {
+    await getModById("Mod_New", "mod", false, false, prisma, id);   //check that the NewMod exists
+
+    await prisma.mod_New.delete({ where: { id: id } });    //the deletion should cascade to any NewMaps
+
+    return true;
+};
+
+
+/** Archives the current version of the mod, applies the Mod_Edit to it, then deletes the Mod_Edit. */
+export const approveModEdit = async (prisma: MyPrismaClientOrTransaction, id: number, approvedBy: string) => {
+    const modEdit = await getModById("Mod_Edit", "mod", true, false, prisma, id);  //check that the ModEdit exists
+    const existingMod = await getModById("Mod", "mod", true, false, prisma, modEdit.modId);  //check that the mod exists
+
+
+    const currentTime = getCurrentTime();
+
+
+    await prisma.mod_Archive.create({ data: getModArchiveCreateData(existingMod, currentTime) });
+
+
+    const updatedMod = await prisma.mod.update({
+        where: { id: existingMod.id },
+        data: {
+            type: modEdit.type,
+            name: modEdit.name,
+            Publisher: { connect: { id: modEdit.publisherId } },
+            contentWarning: modEdit.contentWarning,
+            notes: modEdit.notes,
+            shortDescription: modEdit.shortDescription,
+            longDescription: modEdit.longDescription,
+            gamebananaModId: modEdit.gamebananaModId,
+            timeSubmitted: modEdit.timeSubmitted,
+            User_SubmittedBy:
+                modEdit.submittedBy === null ?
+                    { disconnect: true } :
+                    { connect: { id: modEdit.submittedBy } },
+            timeApproved: currentTime,
+            User_ApprovedBy: { connect: { id: approvedBy } },
+            timeCreatedGamebanana: modEdit.timeCreatedGamebanana,
+            ModToTags: {
+                deleteMany: {},
+                create: getTagConnectObject(getTagIdsForConnection(modEdit.Mod_EditToTags)),
+            },
+        },
+        //this procedure is moderator only, so we can return everything
+    });
+
+
+    await prisma.mod_Edit.delete({ where: { id: id } });  //this deletion has nothing to cascade to. ModEdits are never connected to MapEdits.
+
+
+    return updatedMod;
+};
+
+
+/** Deletes a Mod_Edit. */
+export const rejectModEdit = async (prisma: MyPrismaClientOrTransaction, id: number) => {
+    await getModById("Mod_Edit", "mod", false, false, prisma, id);  //check that the ModEdit exists
+
+    await prisma.mod_Edit.delete({ where: { id: id } });  //this deletion has nothing to cascade to. ModEdits are never connected to MapEdits.
+
+    return true;
+};
+
+
+
+
 export const modRouter = createTRPCRouter({
     getAll: publicProcedure
         .input(modOrderSchema)
@@ -572,6 +859,7 @@ export const modRouter = createTRPCRouter({
         .input(modPostSchema)
         .mutation(async ({ ctx, input }) => {
             await getModById("Mod", "gamebanana", false, true, ctx.prisma, input.gamebananaModId);     //check that the new mod won't conflict with an existing one
+            await checkTagsExist(ctx.prisma, input.tagIds);     //check that the tags exist
 
 
             const gamebananaModInfo = await getGamebananaModInfo(input.gamebananaModId);
@@ -634,18 +922,26 @@ export const modRouter = createTRPCRouter({
                 });
 
 
-                mod = await ctx.prisma.mod.create({
-                    data: {
-                        ...modCreateData_base,
-                        timeApproved: currentTime,
-                        User_ApprovedBy: { connect: { id: ctx.user.id } },
-                        Map: { create: mapCreateDataArray_approved },
-                    },
-                    include: includeModConnectionsObject    //use include instead of select so that other Mod properties are still returned
-                });
+                mod = await ctx.prisma.$transaction(
+                    async (transaction) => {
+                        const approvedMod = await transaction.mod.create({
+                            data: {
+                                ...modCreateData_base,
+                                timeApproved: currentTime,
+                                User_ApprovedBy: { connect: { id: ctx.user.id } },
+                                Map: { create: mapCreateDataArray_approved },
+                                ModToTags: { create: getTagConnectObject(input.tagIds) },
+                            },
+                            include: includeModConnectionsObject    //use include instead of select so that other Mod properties are still returned
+                        });
 
 
-                await ctx.prisma.mod_New.deleteMany({ where: { gamebananaModId: input.gamebananaModId } });     //if the same mod has already been submitted, delete the unapproved submission
+                        await transaction.mod_New.deleteMany({ where: { gamebananaModId: input.gamebananaModId } });     //if the same mod has already been submitted, delete the unapproved submission
+
+
+                        return approvedMod;
+                    },
+                );
             }
             else {
                 await getModById(
@@ -657,6 +953,7 @@ export const modRouter = createTRPCRouter({
                     data: {
                         ...modCreateData_base,
                         Map_NewWithMod_New: { create: mapCreateDataArray_base },
+                        Mod_NewToTags: { create: getTagConnectObject(input.tagIds) },
                     },
                     select: {
                         ...defaultModNewSelect,
@@ -672,81 +969,17 @@ export const modRouter = createTRPCRouter({
     approveNew: modlistModeratorProcedure
         .input(modIdSchema)
         .mutation(async ({ ctx, input }) => {
-            const newMod = await ctx.prisma.mod_New.findUnique({
-                where: { id: input.id },
-                include: { Map_NewWithMod_New: true },
-            });
-
-            if (!newMod) {
-                throw new TRPCError({
-                    code: "NOT_FOUND",
-                    message: `No mod exists in mod_New with id "${input.id}"`,
-                });
-            }
-
-
-            const currentTime = getCurrentTime();
-
-
-            const approvedMod = await ctx.prisma.mod.create({
-                data: {
-                    type: newMod.type,
-                    name: newMod.name,
-                    contentWarning: newMod.contentWarning,
-                    notes: newMod.notes,
-                    shortDescription: newMod.shortDescription,
-                    longDescription: newMod.longDescription,
-                    gamebananaModId: newMod.gamebananaModId,
-                    timeSubmitted: newMod.timeSubmitted,
-                    User_SubmittedBy: { connect: { id: newMod.submittedBy ?? undefined } },
-                    timeApproved: currentTime,
-                    User_ApprovedBy: { connect: { id: ctx.user.id } },
-                    timeCreatedGamebanana: newMod.timeCreatedGamebanana,
-                    Publisher: { connect: { id: newMod.publisherId } },
-                    Map: {
-                        create: newMod.Map_NewWithMod_New.map(
-                            (newMap) => {
-                                return {
-                                    mapperNameString: newMap.mapperNameString,
-                                    User_MapperUser: { connect: { id: newMap.mapperUserId ?? undefined } },
-                                    name: newMap.name,
-                                    description: newMap.description,
-                                    notes: newMap.notes,
-                                    chapter: newMap.chapter,
-                                    side: newMap.side,
-                                    overallRank: newMap.overallRank,
-                                    mapRemovedFromModBool: newMap.mapRemovedFromModBool,
-                                    timeSubmitted: newMap.timeSubmitted,
-                                    User_SubmittedBy: { connect: { id: newMap.submittedBy ?? undefined } },
-                                    timeApproved: currentTime,
-                                    User_ApprovedBy: { connect: { id: ctx.user.id } },
-                                    Difficulty: { connect: { id: newMap.canonicalDifficultyId } },
-                                    Length: { connect: { id: newMap.lengthId } },
-                                };
-                            },
-                        ),
-                    },
-                },
-                include: {  //use include instead of select so that other Mod properties are still returned
-                    Map: selectIdObject,
-                },
-            });
-
-
-            await ctx.prisma.mod_New.delete({ where: { id: input.id } });    //the deletion should cascade to any NewMaps
-
-
-            return approvedMod;
+            return await ctx.prisma.$transaction(
+                (transaction) => runModerationAction(transaction, { itemType: "Mod_New", id: input.id }, ctx.user.id, () => approveModNew(transaction, input.id, ctx.user.id)),
+            );
         }),
 
     rejectNew: modlistModeratorProcedure
         .input(modIdSchema)
         .mutation(async ({ ctx, input }) => {
-            await getModById("Mod_New", "mod", false, false, ctx.prisma, input.id);
-
-            await ctx.prisma.mod_New.delete({ where: { id: input.id } });    //the deletion should cascade to any NewMaps
-
-            return true;
+            return await ctx.prisma.$transaction(
+                (transaction) => runModerationAction(transaction, { itemType: "Mod_New", id: input.id }, ctx.user.id, () => rejectModNew(transaction, input.id)),
+            );
         }),
 
     update: loggedInProcedure
@@ -755,6 +988,7 @@ export const modRouter = createTRPCRouter({
         })))
         .mutation(async ({ ctx, input }) => {
             const existingMod = await getModById("Mod", "mod", true, false, ctx.prisma, input.id);  //check that the mod exists
+            await checkTagsExist(ctx.prisma, input.tagIds);     //check that the tags exist
 
             if (input.gamebananaModId) {
                 await getModById(
@@ -769,27 +1003,6 @@ export const modRouter = createTRPCRouter({
             let mod: TrimmedMod | TrimmedModEdit;
 
             if (checkPermissions(MODLIST_MODERATOR_PERMISSION_STRINGS, ctx.user.permissions)) {
-                await ctx.prisma.mod_Archive.create({
-                    data: {
-                        Mod: { connect: { id: existingMod.id } },
-                        type: existingMod.type,
-                        name: existingMod.name,
-                        Publisher: { connect: { id: existingMod.publisherId } },
-                        contentWarning: existingMod.contentWarning,
-                        notes: existingMod.notes,
-                        shortDescription: existingMod.shortDescription,
-                        longDescription: existingMod.longDescription,
-                        gamebananaModId: existingMod.gamebananaModId,
-                        timeCreatedGamebanana: existingMod.timeCreatedGamebanana,
-                        timeSubmitted: existingMod.timeSubmitted,
-                        User_SubmittedBy: { connect: { id: existingMod.submittedBy ?? undefined } },
-                        timeApproved: existingMod.timeApproved,
-                        User_ApprovedBy: { connect: { id: existingMod.approvedBy ?? undefined } },
-                        timeArchived: currentTime,
-                    },
-                });
-
-
                 let modUpdateData: Prisma.ModUpdateInput = {
                     type: input.type,
                     name: existingMod.name,
@@ -804,6 +1017,10 @@ export const modRouter = createTRPCRouter({
                     timeApproved: currentTime,
                     User_ApprovedBy: { connect: { id: ctx.user.id } },
                     timeCreatedGamebanana: existingMod.timeCreatedGamebanana,
+                    ModToTags: input.tagIds ? {
+                        deleteMany: {},
+                        create: getTagConnectObject(input.tagIds),
+                    } : undefined,
                 };
 
 
@@ -817,11 +1034,17 @@ export const modRouter = createTRPCRouter({
                 }
 
 
-                mod = await ctx.prisma.mod.update({
-                    where: { id: input.id },
-                    data: modUpdateData,
-                    select: defaultModSelect,
-                });
+                mod = await ctx.prisma.$transaction(
+                    async (transaction) => {
+                        await transaction.mod_Archive.create({ data: getModArchiveCreateData(existingMod, currentTime) });
+
+                        return await transaction.mod.update({
+                            where: { id: input.id },
+                            data: modUpdateData,
+                            select: defaultModSelect,
+                        });
+                    },
+                );
             }
             else {
                 let modEditCreateData: Prisma.Mod_EditCreateInput = {
@@ -837,6 +1060,7 @@ export const modRouter = createTRPCRouter({
                     timeCreatedGamebanana: existingMod.timeCreatedGamebanana,
                     timeSubmitted: currentTime,
                     User_SubmittedBy: { connect: { id: ctx.user.id } },
+                    Mod_EditToTags: { create: getTagConnectObject(input.tagIds ?? getTagIdsForConnection(existingMod.ModToTags)) },
                 };
 
 
@@ -852,7 +1076,7 @@ export const modRouter = createTRPCRouter({
 
                 mod = await ctx.prisma.mod_Edit.create({
                     data: modEditCreateData,
-                    select: defaultModSelect,
+                    select: defaultModEditSelect,
                 });
             }
 
@@ -863,115 +1087,235 @@ export const modRouter = createTRPCRouter({
     approveEdit: modlistModeratorProcedure
         .input(modIdSchema)
         .mutation(async ({ ctx, input }) => {
-            const modEdit = await getModById("Mod_Edit", "mod", true, false, ctx.prisma, input.id);  //check that the ModEdit exists
-            const existingMod = await getModById("Mod", "mod", true, false, ctx.prisma, modEdit.modId);  //check that the mod exists
+            return await ctx.prisma.$transaction(
+                (transaction) => runModerationAction(transaction, { itemType: "Mod_Edit", id: input.id }, ctx.user.id, () => approveModEdit(transaction, input.id, ctx.user.id)),
+            );
+        }),
 
+    rejectEdit: modlistModeratorProcedure
+        .input(modIdSchema)
+        .mutation(async ({ ctx, input }) => {
+            return await ctx.prisma.$transaction(
+                (transaction) => runModerationAction(transaction, { itemType: "Mod_Edit", id: input.id }, ctx.user.id, () => rejectModEdit(transaction, input.id)),
+            );
+        }),
 
-            const currentTime = getCurrentTime();
+    restore: modlistModeratorProcedure
+        .input(modIdSchema)
+        .mutation(async ({ ctx, input }) => {
+            //only affects the mod, not the maps. use restoreToTime to restore a mod and its maps together.
 
+            return await ctx.prisma.$transaction(
+                async (transaction) => {
+                    const modArchive = await getModById("Mod_Archive", "mod", true, false, transaction, input.id);  //check that the ModArchive exists
+                    const existingMod = await getModById("Mod", "mod", true, false, transaction, modArchive.modId);  //check that the mod exists
 
-            await ctx.prisma.mod_Archive.create({
-                data: {
-                    Mod: { connect: { id: existingMod.id } },
-                    type: existingMod.type,
-                    name: existingMod.name,
-                    Publisher: { connect: { id: existingMod.publisherId } },
-                    contentWarning: existingMod.contentWarning,
-                    notes: existingMod.notes,
-                    shortDescription: existingMod.shortDescription,
-                    longDescription: existingMod.longDescription,
-                    gamebananaModId: existingMod.gamebananaModId,
-                    timeCreatedGamebanana: existingMod.timeCreatedGamebanana,
-                    timeSubmitted: existingMod.timeSubmitted,
-                    User_SubmittedBy: { connect: { id: existingMod.submittedBy ?? undefined } },
-                    timeApproved: existingMod.timeApproved,
-                    User_ApprovedBy: { connect: { id: existingMod.approvedBy ?? undefined } },
-                    timeArchived: currentTime,
-                },
-            });
 
+                    const currentTime = getCurrentTime();
 
-            const updatedMod = await ctx.prisma.mod.update({
-                where: { id: existingMod.id },
-                data: {
-                    type: modEdit.type,
-                    name: modEdit.name,
-                    Publisher: { connect: { id: modEdit.publisherId } },
-                    contentWarning: modEdit.contentWarning,
-                    notes: modEdit.notes,
-                    shortDescription: modEdit.shortDescription,
-                    longDescription: modEdit.longDescription,
-                    gamebananaModId: modEdit.gamebananaModId,
-                    timeSubmitted: modEdit.timeSubmitted,
-                    User_SubmittedBy:
-                        modEdit.submittedBy === null ?
-                            { disconnect: true } :
-                            { connect: { id: modEdit.submittedBy } },
-                    timeApproved: currentTime,
-                    User_ApprovedBy: { connect: { id: ctx.user.id } },
-                    timeCreatedGamebanana: modEdit.timeCreatedGamebanana,
-                },
-                //this procedure is moderator only, so we can return everything
-            });
+
+                    //archive the version being replaced, and keep the restored archive, so the mod's history stays complete
+                    await transaction.mod_Archive.create({ data: getModArchiveCreateData(existingMod, currentTime) });
 
 
-            await ctx.prisma.mod_Edit.delete({ where: { id: input.id } });  //this deletion has nothing to cascade to. ModEdits are never connected to MapEdits.
+                    const updatedMod = await transaction.mod.update({
+                        where: { id: existingMod.id },
+                        data: getModUpdateDataFromArchive(modArchive, currentTime, ctx.user.id),
+                        //this procedure is moderator only, so we can return everything
+                    });
 
 
-            return updatedMod;
+                    return updatedMod;
+                },
+            );
         }),
 
-    rejectEdit: modlistModeratorProcedure
+    getHistory: publicProcedure
         .input(modIdSchema)
-        .mutation(async ({ ctx, input }) => {
-            await getModById("Mod_New", "mod", false, false, ctx.prisma, input.id);
+        .query(async ({ ctx, input }) => {
+            const mod = await getModById("Mod", "mod", false, false, ctx.prisma, input.id);  //check that id matches an existing mod
 
-            await ctx.prisma.mod_Edit.delete({ where: { id: input.id } });  //this deletion has nothing to cascade to. ModEdits are never connected to MapEdits.
 
-            return true;
+            const versionSelect = {
+                id: true,
+                name: true,
+                timeApproved: true,
+            };
+
+            const [modArchives, maps, mapArchives] = await Promise.all([
+                ctx.prisma.mod_Archive.findMany({
+                    where: { modId: input.id },
+                    select: { ...versionSelect, modId: true, timeArchived: true },
+                }),
+                ctx.prisma.map.findMany({
+                    where: { modId: input.id },
+                    select: versionSelect,
+                }),
+                ctx.prisma.map_Archive.findMany({
+                    where: { Map: { modId: input.id } },
+                    select: { ...versionSelect, mapId: true, timeArchived: true },
+                }),
+            ]);
+
+
+            const entries: ModHistoryEntry[] = [
+                { tableName: "Mod", id: mod.id, targetId: mod.id, name: mod.name, timeApproved: mod.timeApproved, timeArchived: null },
+                ...modArchives.map(
+                    (modArchive): ModHistoryEntry => ({ tableName: "Mod_Archive", id: modArchive.id, targetId: modArchive.modId, name: modArchive.name, timeApproved: modArchive.timeApproved, timeArchived: modArchive.timeArchived }),
+                ),
+                ...maps.map(
+                    (map): ModHistoryEntry => ({ tableName: "Map", id: map.id, targetId: map.id, name: map.name, timeApproved: map.timeApproved, timeArchived: null }),
+                ),
+                ...mapArchives.map(
+                    (mapArchive): ModHistoryEntry => ({ tableName: "Map_Archive", id: mapArchive.id, targetId: mapArchive.mapId, name: mapArchive.name, timeApproved: mapArchive.timeApproved, timeArchived: mapArchive.timeArchived }),
+                ),
+            ];
+
+
+            return {
+                modId: mod.id,
+                entries: entries.sort((a, b) => b.timeApproved - a.timeApproved),  //newest first
+            };
         }),
 
-    restore: modlistModeratorProcedure
-        .input(modIdSchema)
+    restoreToTime: modlistModeratorProcedure
+        .input(
+            z.object({
+                time: z.number().int().gte(0),  //unix time in seconds
+            }).strict().merge(modIdSchema),
+        )
         .mutation(async ({ ctx, input }) => {
-            //only affects the mod, not the maps
-
-            const modArchive = await getModById("Mod_Archive", "mod", true, false, ctx.prisma, input.id);  //check that the ModArchive exists
-
-
-            const updatedMod = await ctx.prisma.mod.update({
-                where: { id: modArchive.modId },
-                data: {
-                    type: modArchive.type,
-                    name: modArchive.name,
-                    Publisher: { connect: { id: modArchive.publisherId } },
-                    contentWarning: modArchive.contentWarning,
-                    notes: modArchive.notes,
-                    shortDescription: modArchive.shortDescription,
-                    longDescription: modArchive.longDescription,
-                    gamebananaModId: modArchive.gamebananaModId,
-                    timeSubmitted: modArchive.timeSubmitted,
-                    User_SubmittedBy: { connect: { id: modArchive.submittedBy ?? undefined } },
-                    timeApproved: modArchive.timeApproved,
-                    User_ApprovedBy: { connect: { id: modArchive.approvedBy ?? undefined } },
-                    timeCreatedGamebanana: modArchive.timeCreatedGamebanana,
-                },
-                //this procedure is moderator only, so we can return everything
+            //affects the mod and all of its maps. the current versions are archived first, so the restore can itself be undone.
+
+            const currentTime = getCurrentTime();
+
+            if (input.time > currentTime) throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: "Can't restore to a time in the future",
             });
 
 
-            await ctx.prisma.mod_Archive.delete({ where: { id: input.id } });  //this deletion has nothing to cascade to. ModArchives are never connected to MapArchives.
+            try {
+                return await ctx.prisma.$transaction(
+                    async (transaction) => {
+                        const existingMod = await getModById("Mod", "mod", true, false, transaction, input.id);  //check that id matches an existing mod
+
+                        const [modArchives, maps, mapArchives] = await Promise.all([
+                            transaction.mod_Archive.findMany({
+                                where: { modId: input.id },
+                                include: includeModArchiveConnectionsObject,
+                            }),
+                            transaction.map.findMany({
+                                where: { modId: input.id },
+                                include: { MapToTechs: { select: { techId: true, fullClearOnlyBool: true } } },
+                            }),
+                            transaction.map_Archive.findMany({
+                                where: { Map: { modId: input.id } },
+                                include: { Map_ArchiveToTechs: { select: { techId: true, fullClearOnlyBool: true } } },
+                            }),
+                        ]);
+
+
+                        const modVersion = getVersionAtTime(existingMod.timeApproved, modArchives, input.time);
+
+                        if (!modVersion) throw new TRPCError({
+                            code: "BAD_REQUEST",
+                            message: `Mod ${input.id} had not been approved yet at time ${input.time}`,
+                        });
+
+                        if (modVersion !== "current") {
+                            await transaction.mod_Archive.create({ data: getModArchiveCreateData(existingMod, currentTime) });
+
+                            await transaction.mod.update({
+                                where: { id: input.id },
+                                data: getModUpdateDataFromArchive(modVersion, currentTime, ctx.user.id),
+                            });
+                        }
+
 
+                        const mapsToRestore: { map: typeof maps[number]; mapVersion: typeof mapArchives[number]; }[] = [];
+                        const unchangedMapIds: number[] = [];
+                        const mapIdsApprovedAfterTime: number[] = [];    //these maps didn't exist yet, so they are left as they are
 
-            return updatedMod;
+                        for (const map of maps) {
+                            const mapVersion = getVersionAtTime(
+                                map.timeApproved,
+                                mapArchives.filter((mapArchive) => mapArchive.mapId === map.id),
+                                input.time,
+                            );
+
+                            if (!mapVersion) {
+                                mapIdsApprovedAfterTime.push(map.id);
+                                continue;
+                            }
+
+                            if (mapVersion === "current") {
+                                unchangedMapIds.push(map.id);
+                                continue;
+                            }
+
+
+                            mapsToRestore.push({ map, mapVersion });
+                        }
+
+
+                        for (const { map } of mapsToRestore) {
+                            await transaction.map_Archive.create({ data: getMapArchiveCreateData(map, currentTime) });
+
+                            await transaction.map.update({  //free the map's name and chapter/side first, so that the restored maps can swap them
+                                where: { id: map.id },
+                                data: { name: getRestoringMapName(map.id), chapter: null, side: null },
+                            });
+                        }
+
+                        for (const { map, mapVersion } of mapsToRestore) {
+                            await transaction.map.update({
+                                where: { id: map.id },
+                                data: getMapUpdateDataFromArchive(mapVersion, currentTime, ctx.user.id),
+                            });
+                        }
+
+                        const restoredMapIds = mapsToRestore.map(({ map }) => map.id);
+
+
+                        const restoredMod = await transaction.mod.findUniqueOrThrow({
+                            where: { id: input.id },
+                            include: includeModConnectionsObject,   //this procedure is moderator only, so we can return everything
+                        });
+
+
+                        return {
+                            mod: restoredMod,
+                            restoredMapIds,
+                            unchangedMapIds,
+                            mapIdsApprovedAfterTime,
+                        };
+                    },
+                    { timeout: RESTORE_TO_TIME_TIMEOUT_MILLISECONDS },
+                );
+            }
+            catch (error) {
+                if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {     //unique constraint violation. a restored name or chapter/side is now used by another mod or map.
+                    throw new TRPCError({
+                        code: "CONFLICT",
+                        message: `Mod ${input.id} can't be restored to time ${input.time} because one of the restored names or chapter/side combinations is now used by another mod or map.`,
+                    });
+                }
+
+                throw error;
+            }
         }),
 
     deleteArchiveMod: adminProcedure
         .input(modIdSchema)
         .mutation(async ({ ctx, input }) => {
-            await getModById("Mod_Archive", "mod", false, false, ctx.prisma, input.id);  //check that id matches an existing mod
+            await ctx.prisma.$transaction(
+                async (transaction) => {
+                    await getModById("Mod_Archive", "mod", false, false, transaction, input.id);  //check that id matches an existing mod
 
-            await ctx.prisma.mod_Archive.delete({ where: { id: input.id } });
+                    await transaction.mod_Archive.delete({ where: { id: input.id } });
+                },
+            );
 
             return true;
         }),
@@ -979,49 +1323,29 @@ export const modRouter = createTRPCRouter({
     deleteMod_total: adminProcedure
         .input(modIdSchema)
         .mutation(async ({ ctx, input }) => {
-            const modFromId = await getModById("Mod", "mod", false, false, ctx.prisma, input.id);  //check that id matches an existing mod
+            await ctx.prisma.$transaction(
+                async (transaction) => {
+                    const modFromId = await getModById("Mod", "mod", false, false, transaction, input.id);  //check that id matches an existing mod
 
-            await ctx.prisma.mod.delete({ where: { id: input.id } });   //the deletion should cascade to any maps, mapEdits, mapArchives, mapNewSolos, modEdits, and modArchives
+                    await transaction.mod.delete({ where: { id: input.id } });   //the deletion should cascade to any maps, mapEdits, mapArchives, mapNewSolos, modEdits, and modArchives
 
 
-            const archivedModsToDelete = await ctx.prisma.mod_Archive.findMany({ where: { gamebananaModId: modFromId.gamebananaModId } });
-
-            await Promise.all(
-                archivedModsToDelete.map(
-                    (archivedMod) => {
-                        return ctx.prisma.mod_Archive.delete({ where: { id: archivedMod.id } });    //this deletion has nothing to cascade to. ModArchives are never connected to MapArchives.
-                    },
-                ),
-            );
-
-            if (archivedModsToDelete.length) console.log(`Deleted mod had ArchivedMods with the same GamebananaModId. This should never happen.`);
+                    const deletedArchivedMods = await transaction.mod_Archive.deleteMany({ where: { gamebananaModId: modFromId.gamebananaModId } });   //this deletion has nothing to cascade to. ModArchives are never connected to MapArchives.
 
+                    if (deletedArchivedMods.count) console.log(`Deleted mod had ArchivedMods with the same GamebananaModId. This should never happen.`);
 
-            const modEditsToDelete = await ctx.prisma.mod_Edit.findMany({ where: { gamebananaModId: modFromId.gamebananaModId } });
 
-            await Promise.all(
-                modEditsToDelete.map(
-                    (modEdit) => {
-                        return ctx.prisma.mod_Edit.delete({ where: { id: modEdit.id } });   //this deletion has nothing to cascade to. ModEdits are never connected to MapEdits.
-                    },
-                ),
-            );
+                    const deletedModEdits = await transaction.mod_Edit.deleteMany({ where: { gamebananaModId: modFromId.gamebananaModId } });    //this deletion has nothing to cascade to. ModEdits are never connected to MapEdits.
 
-            if (modEditsToDelete.length) console.log(`Deleted mod had ModEdits with the same GamebananaModId. This should never happen.`);
+                    if (deletedModEdits.count) console.log(`Deleted mod had ModEdits with the same GamebananaModId. This should never happen.`);
 
 
-            const newModsToDelete = await ctx.prisma.mod_New.findMany({ where: { gamebananaModId: modFromId.gamebananaModId } });
+                    const deletedNewMods = await transaction.mod_New.deleteMany({ where: { gamebananaModId: modFromId.gamebananaModId } });  //the deletion should cascade to any newMaps
 
-            await Promise.all(
-                newModsToDelete.map(
-                    (newMod) => {
-                        return ctx.prisma.mod_New.delete({ where: { id: newMod.id } });   //the deletion should cascade to any newMaps
-                    },
-                ),
+                    if (deletedNewMods.count) console.log(`Deleted mod had NewMods with the same GamebananaModId. This should never happen.`);
+                },
             );
 
-            if (newModsToDelete.length) console.log(`Deleted mod had NewMods with the same GamebananaModId. This should never happen.`);
-
 
             return true;
         }),
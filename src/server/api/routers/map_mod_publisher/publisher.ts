@@ -1,13 +1,16 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure, adminProcedure, loggedInProcedure } from "~/server/api/trpc";
+import { createTRPCRouter, publicProcedure, adminProcedure, loggedInProcedure, modlistModeratorProcedure } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
 import { MyPrismaClient } from "~/server/prisma";
-import { Prisma, Publisher } from "@prisma/client";
+import { Prisma, Publisher, PublisherClaimMethod } from "@prisma/client";
 import { getCombinedSchema, getOrderObjectArray } from "~/server/api/utils/sortOrderHelpers";
 import { getNonEmptyArray } from "~/utils/getNonEmptyArray";
 import { INT_MAX_SIZES } from "~/consts/integerSizes";
 import { userIdSchema_NonObject } from "../user";
-import axios from "axios";
+import { randomBytes } from "crypto";
+import { getCurrentTime } from "~/server/api/utils/getCurrentTime";
+import { getGamebananaApiClient } from "~/gamebananaApi/gamebananaApiClient";
+import { getPublisherNameSyncStatus, startPublisherNameSync } from "~/server/gamebanana/syncPublisherNames";
 
 
 
@@ -20,6 +23,25 @@ const defaultPublisherSelect = Prisma.validator<Prisma.PublisherSelect>()({
 });
 
 
+const defaultPublisherClaimSelect = Prisma.validator<Prisma.PublisherClaimSelect>()({
+    id: true,
+    publisherId: true,
+    Publisher: { select: { name: true, gamebananaId: true } },
+    userId: true,
+    User: { select: { name: true } },
+    method: true,
+    timeCreated: true,
+});
+
+
+
+
+/** Token claims have to be verified within this time. Moderator claims don't expire. */
+const PUBLISHER_CLAIM_TOKEN_DURATION_SECONDS = 7 * 24 * 60 * 60;
+
+const PUBLISHER_CLAIM_TOKEN_PREFIX = "cml-claim-";
+
+
 
 
 export const PUBLISHER_NAME_MAX_LENGTH = 20;
@@ -41,6 +63,11 @@ const publisherIdSchema = z.object({
 }).strict();
 
 
+const publisherClaimIdSchema = z.object({
+    id: z.number().int().gte(1).lte(INT_MAX_SIZES.int.unsigned),
+}).strict();
+
+
 const publisherPostSchema = z.object({
     gamebananaId: publisherGamebananaIdSchema_NonObject,
     userId: userIdSchema_NonObject,
@@ -103,19 +130,7 @@ export const getPublisherById = async (prisma: MyPrismaClient, id: number): Prom
 
 const getGamebananaUsernameById = async function (gamebananaID: number) {
     try {
-        const options = {
-            url: `https://api.gamebanana.com/Core/Member/IdentifyById?userid=${gamebananaID}`
-        };
-
-        const axiosResponse = await axios(options);
-
-        if (axiosResponse.status != 200) {
-            throw "GameBanana api not responding as expected.";
-        }
-
-        const gamebananaName = String(axiosResponse.data[0]);
-
-        return gamebananaName;
+        return await getGamebananaApiClient().getMemberName(gamebananaID);
     }
     catch (error) {
         throw new TRPCError({
@@ -128,6 +143,57 @@ const getGamebananaUsernameById = async function (gamebananaID: number) {
 
 
 
+const getPublisherClaimById = async (prisma: MyPrismaClient, id: number) => {
+    const claim = await prisma.publisherClaim.findUnique({
+        where: { id: id },
+        select: { ...defaultPublisherClaimSelect, token: true },
+    });
+
+    if (!claim) {
+        throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `No publisher claim exists with id "${id}"`,
+        });
+    }
+
+    return claim;
+};
+
+
+/** Connects the publisher to the claiming user and deletes every pending claim for the publisher. */
+const completePublisherClaim = async (prisma: MyPrismaClient, publisherId: number, userId: string) => {
+    return await prisma.$transaction(
+        async (transaction) => {
+            const publisher = await transaction.publisher.findUniqueOrThrow({ where: { id: publisherId }, select: { userId: true } });
+
+            if (publisher.userId) {     //check again inside the transaction, in case another claim was completed in the meantime
+                throw new TRPCError({
+                    code: "FORBIDDEN",
+                    message: `Publisher "${publisherId}" is already claimed by user "${publisher.userId}".`,
+                });
+            }
+
+
+            const updatedPublisher = await transaction.publisher.update({
+                where: { id: publisherId },
+                data: {
+                    User: { connect: { id: userId } },
+                },
+                select: defaultPublisherSelect,
+            });
+
+
+            await transaction.publisherClaim.deleteMany({ where: { publisherId: publisherId } });
+
+
+            return updatedPublisher;
+        },
+    );
+};
+
+
+
+
 export const publisherRouter = createTRPCRouter({
     getAll: publicProcedure
         .input(publisherOrderSchema)
@@ -239,8 +305,14 @@ export const publisherRouter = createTRPCRouter({
     //     }),
 
     claimPublisher: loggedInProcedure
-        .input(publisherIdSchema)
+        .input(
+            z.object({
+                method: z.nativeEnum(PublisherClaimMethod),
+            }).strict().merge(publisherIdSchema),
+        )
         .mutation(async ({ ctx, input }) => {
+            //the claim stays pending until it is verified with verifyClaimToken (Token method) or approved by a moderator (Moderator method)
+
             const publisherFromId = await getPublisherById(ctx.prisma, input.id);  //check that id matches an existing publisher
 
             if (publisherFromId.userId) {
@@ -250,17 +322,154 @@ export const publisherRouter = createTRPCRouter({
                 });
             }
 
+            if (input.method === "Token" && !publisherFromId.gamebananaId) {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: `Publisher "${input.id}" has no GameBanana account to verify a token against. Please request moderator approval instead.`,
+                });
+            }
 
-            const updatedPublisher = await ctx.prisma.publisher.update({
-                where: { id: input.id },
-                data: {
+
+            const token = input.method === "Token" ? `${PUBLISHER_CLAIM_TOKEN_PREFIX}${randomBytes(16).toString("hex")}` : null;
+
+            const claimData = {
+                method: input.method,
+                token,
+                timeCreated: getCurrentTime(),
+            };
+
+
+            const claim = await ctx.prisma.publisherClaim.upsert({     //a new request replaces the user's previous claim on this publisher, including any old token
+                where: {
+                    publisherId_userId: {
+                        publisherId: input.id,
+                        userId: ctx.user.id,
+                    },
+                },
+                create: {
+                    Publisher: { connect: { id: input.id } },
                     User: { connect: { id: ctx.user.id } },
+                    ...claimData,
                 },
-                select: defaultPublisherSelect,
+                update: claimData,
+                select: defaultPublisherClaimSelect,
             });
 
 
-            return updatedPublisher;
+            return { ...claim, token };     //the token is only ever shown to the claiming user
+        }),
+
+    verifyClaimToken: loggedInProcedure
+        .input(publisherClaimIdSchema)
+        .mutation(async ({ ctx, input }) => {
+            const claim = await getPublisherClaimById(ctx.prisma, input.id);  //check that id matches an existing claim
+
+            if (claim.userId !== ctx.user.id) {
+                throw new TRPCError({
+                    code: "FORBIDDEN",
+                    message: `User "${ctx.user.id}" did not make publisher claim "${input.id}".`,
+                });
+            }
+
+            if (claim.method !== "Token" || !claim.token || !claim.Publisher.gamebananaId) {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: `Publisher claim "${input.id}" is waiting for moderator approval and can't be verified with a token.`,
+                });
+            }
+
+            if (getCurrentTime() - claim.timeCreated > PUBLISHER_CLAIM_TOKEN_DURATION_SECONDS) {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: "This token has expired. Please claim the publisher again to get a new one.",
+                });
+            }
+
+
+            let profileText: string;
+
+            try {
+                profileText = await getGamebananaApiClient().getMemberProfileText(claim.Publisher.gamebananaId, { noCache: true });    //the token was probably just added, so a cached profile would miss it
+            }
+            catch (error) {
+                throw new TRPCError({
+                    code: "INTERNAL_SERVER_ERROR",
+                    message: "Error getting gamebanana profile.",
+                });
+            }
+
+            if (!profileText.includes(claim.token)) {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: `The token wasn't found in the profile of GameBanana member ${claim.Publisher.gamebananaId}. Add it to your profile bio and try again.`,
+                });
+            }
+
+
+            return await completePublisherClaim(ctx.prisma, claim.publisherId, ctx.user.id);
+        }),
+
+    getOwnClaims: loggedInProcedure
+        .query(async ({ ctx }) => {
+            return await ctx.prisma.publisherClaim.findMany({
+                where: { userId: ctx.user.id },
+                select: defaultPublisherClaimSelect,
+                orderBy: { timeCreated: "desc" },
+            });
+        }),
+
+    cancelClaim: loggedInProcedure
+        .input(publisherClaimIdSchema)
+        .mutation(async ({ ctx, input }) => {
+            const claim = await getPublisherClaimById(ctx.prisma, input.id);  //check that id matches an existing claim
+
+            if (claim.userId !== ctx.user.id) {
+                throw new TRPCError({
+                    code: "FORBIDDEN",
+                    message: `User "${ctx.user.id}" did not make publisher claim "${input.id}".`,
+                });
+            }
+
+
+            await ctx.prisma.publisherClaim.delete({ where: { id: input.id } });
+
+
+            return true;
+        }),
+
+    getPendingClaims: modlistModeratorProcedure
+        .query(async ({ ctx }) => {
+            return await ctx.prisma.publisherClaim.findMany({
+                where: { method: "Moderator" },
+                select: defaultPublisherClaimSelect,
+                orderBy: { timeCreated: "asc" },    //oldest first
+            });
+        }),
+
+    approveClaim: modlistModeratorProcedure
+        .input(publisherClaimIdSchema)
+        .mutation(async ({ ctx, input }) => {
+            const claim = await getPublisherClaimById(ctx.prisma, input.id);  //check that id matches an existing claim
+
+            if (claim.method !== "Moderator") {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: `Publisher claim "${input.id}" is verified with a token, not by a moderator.`,
+                });
+            }
+
+
+            return await completePublisherClaim(ctx.prisma, claim.publisherId, claim.userId);
+        }),
+
+    rejectClaim: modlistModeratorProcedure
+        .input(publisherClaimIdSchema)
+        .mutation(async ({ ctx, input }) => {
+            await getPublisherClaimById(ctx.prisma, input.id);  //check that id matches an existing claim
+
+            await ctx.prisma.publisherClaim.delete({ where: { id: input.id } });
+
+            return true;
         }),
 
     disownPublisher: loggedInProcedure
@@ -304,6 +513,17 @@ export const publisherRouter = createTRPCRouter({
             });
         }),
 
+    syncNamesFromGamebanana: adminProcedure
+        .mutation(({ ctx }) => {
+            //makes one GameBanana request per publisher, so the sync runs in the background. poll getNameSyncStatus for the report.
+            return startPublisherNameSync(ctx.prisma);
+        }),
+
+    getNameSyncStatus: adminProcedure
+        .query(() => {
+            return getPublisherNameSyncStatus();
+        }),
+
     delete: adminProcedure
         .input(publisherIdSchema)
         .mutation(async ({ ctx, input }) => {
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import type { MyPrismaClient } from "~/server/prisma";
+import { getModSearchIndex } from "~/server/gamebananaMirror/yamlHandlers/modSearchDatabase";
+import { searchMods, type ModSearchIndex } from "~/server/gamebananaMirror/modSearchIndex";
+
+
+
+
+const MAX_QUERY_LENGTH = 200;
+
+const MAX_PAGE_SIZE = 100;
+
+const DEFAULT_PAGE_SIZE = 25;
+
+
+
+
+const modSearchQuerySchema = z.string().max(MAX_QUERY_LENGTH);
+
+const modSearchGamebananaTypeSchema = z.string().min(1).max(50);
+
+
+const modSearchSchema = z.object({
+    query: modSearchQuerySchema,
+    pageSize: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+    pageNumber: z.number().int().min(1).default(1),
+    gamebananaType: modSearchGamebananaTypeSchema.optional(),
+    /** leave out mods that are already on the modlist */
+    excludeListed: z.boolean().default(false),
+}).strict();
+
+
+/** Query parameters are always strings, so they're coerced for the REST API. */
+const restModSearchSchema = z.object({
+    query: modSearchQuerySchema.default(""),
+    pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+    pageNumber: z.coerce.number().int().min(1).default(1),
+    gamebananaType: modSearchGamebananaTypeSchema.optional(),
+    excludeListed: z.enum(["true", "false"]).default("false").transform((excludeListed) => excludeListed === "true"),
+});
+
+
+/** Schema for mod search results returned by the REST API. */
+const restModSearchResultSchema = z.object({
+    mods: z.object({
+        gamebananaType: z.string(),
+        gamebananaId: z.number(),
+        name: z.string(),
+        pageUrl: z.string(),
+        author: z.string(),
+        categories: z.string().array(),
+        description: z.string(),
+        screenshots: z.string().array(),
+        mirroredScreenshots: z.string().array(),
+        files: z.object({
+            url: z.string(),
+            name: z.string(),
+            size: z.number(),
+            timeCreated: z.number(),
+            downloads: z.number(),
+            description: z.string(),
+            hasEverestYaml: z.boolean(),
+        }).array(),
+        views: z.number(),
+        likes: z.number(),
+        downloads: z.number(),
+        timeCreated: z.number(),
+        timeModified: z.number(),
+        score: z.number(),
+        modId: z.number().nullable(),
+    }).array(),
+    totalCount: z.number(),
+    pageSize: z.number(),
+    pageNumber: z.number(),
+});
+
+type ModSearchResults = z.infer<typeof restModSearchResultSchema>;
+
+
+
+
+const getModSearchIndexOrThrow = async (): Promise<ModSearchIndex> => {
+    try {
+        return await getModSearchIndex();
+    }
+    catch {
+        throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "The Mod Search Database is unavailable.",
+        });
+    }
+};
+
+
+/** Searches the Mod Search Database, and adds the id of the matching modlist mod (or null) to each result. */
+const getModSearchResults = async (prisma: MyPrismaClient, input: z.infer<typeof modSearchSchema>): Promise<ModSearchResults> => {
+    const modSearchIndex = await getModSearchIndexOrThrow();
+
+
+    const listedMods = await prisma.mod.findMany({ select: { id: true, gamebananaModId: true } });
+
+    const modIdsByGamebananaModId = new Map(listedMods.map((mod) => [mod.gamebananaModId, mod.id]));
+
+
+    const { results, totalCount } = searchMods(modSearchIndex, {
+        query: input.query,
+        pageSize: input.pageSize,
+        pageNumber: input.pageNumber,
+        gamebananaType: input.gamebananaType,
+        excludedGamebananaModIds: input.excludeListed ? new Set(modIdsByGamebananaModId.keys()) : undefined,
+    });
+
+
+    return {
+        mods: results.map(({ mod, score }) => ({
+            ...mod,
+            score,
+            modId: mod.gamebananaType === "Mod" ? modIdsByGamebananaModId.get(mod.gamebananaId) ?? null : null,
+        })),
+        totalCount,
+        pageSize: input.pageSize,
+        pageNumber: input.pageNumber,
+    };
+};
+
+
+
+
+export const modSearchRouter = createTRPCRouter({
+    search: publicProcedure
+        .input(modSearchSchema)
+        .query(async ({ ctx, input }) => {
+            return await getModSearchResults(ctx.prisma, input);
+        }),
+
+    rest_search: publicProcedure
+        .meta({ openapi: { method: "GET", path: "/mod-search" } })
+        .input(restModSearchSchema)
+        .output(restModSearchResultSchema)
+        .query(async ({ ctx, input }) => {
+            return await getModSearchResults(ctx.prisma, input);
+        }),
+});
\ No newline at end of file
@@ -0,0 +1,422 @@
+import { z } from "zod";
+import { createTRPCRouter, modlistModeratorProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import type { MyPrismaClient, MyPrismaClientOrTransaction } from "~/server/prisma";
+import { type Prisma, ModerationItemType } from "@prisma/client";
+import { getNonEmptyArray } from "~/utils/getNonEmptyArray";
+import { INT_MAX_SIZES } from "~/consts/integerSizes";
+import { ADMIN_PERMISSION_STRINGS, checkIsPrivileged } from "../utils/permissions";
+import { getCurrentTime } from "../utils/getCurrentTime";
+import { type AuditTarget, createAuditLogEntry, getAuditSnapshot } from "../utils/auditLog";
+import { type ModerationItem, type TrimmedModerationClaim, claimItem, defaultModerationClaimSelect, deleteClaim, getActiveClaim, isClaimActive, runModerationAction } from "../utils/moderationClaims";
+import { type FieldDiff, type RelationDiff, getFieldDiffs, getRelationDiff } from "../utils/editDiff";
+import { approveModEdit, approveModNew, getModById, rejectModEdit, rejectModNew } from "./map_mod_publisher/mod";
+import { approveMapEdit, approveMapNewSolo, getMapById, rejectMapEdit, rejectMapNewSolo, rejectMapNewWithModNew } from "./map_mod_publisher/map";
+
+
+
+
+const MODERATION_BULK_ACTION_MAX_ITEMS = 50;
+
+
+
+
+const MOD_EDIT_DIFF_FIELD_NAMES = ["type", "name", "publisherId", "contentWarning", "notes", "shortDescription", "longDescription", "gamebananaModId", "timeCreatedGamebanana"] as const;
+
+const MAP_EDIT_DIFF_FIELD_NAMES = [
+    "mapperUserId", "mapperNameString", "name", "canonicalDifficultyId", "lengthId", "description", "notes", "chapter", "side", "overallRank", "mapRemovedFromModBool",
+] as const;
+
+
+
+
+const pendingItemSelectObject = {
+    id: true,
+    name: true,
+    timeSubmitted: true,
+    submittedBy: true,
+    User_SubmittedBy: { select: { name: true } },
+};
+
+
+
+
+const moderationItemTypeSchema_NonObject = z.enum(getNonEmptyArray(ModerationItemType));
+
+
+const moderationItemSchema = z.object({
+    itemType: moderationItemTypeSchema_NonObject,
+    id: z.number().int().gte(1).lte(INT_MAX_SIZES.mediumInt.unsigned),
+}).strict();
+
+
+const moderationEditSchema = z.object({
+    itemType: z.enum(["Mod_Edit", "Map_Edit"]),
+    id: moderationItemSchema.shape.id,
+}).strict();
+
+
+const moderationBulkSchema = z.object({
+    items: moderationItemSchema.array().min(1).max(MODERATION_BULK_ACTION_MAX_ITEMS),
+}).strict();
+
+
+
+
+export type ModerationQueueItem = {
+    itemType: ModerationItemType;
+    id: number;
+    name: string;
+    /** the id of the live mod or map this item targets. for Map_NewWithMod_New, this is the id of the Mod_New it was submitted with. null for Mod_New. */
+    parentId: number | null;
+    submittedBy: string | null;
+    submitterName: string | null;
+    timeSubmitted: number;
+    /** seconds since the item was submitted */
+    age: number;
+    claim: {
+        claimedBy: string;
+        claimerName: string;
+        timeClaimed: number;
+    } | null;
+};
+
+
+export type ModerationEditDiff = {
+    itemType: z.infer<typeof moderationEditSchema>["itemType"];
+    id: number;
+    /** the id of the live mod or map that the edit targets */
+    targetId: number;
+    fields: FieldDiff[];
+    /** only defined for Mod_Edit */
+    tags?: RelationDiff;
+    /** only defined for Map_Edit */
+    techs?: RelationDiff;
+};
+
+
+export type ModerationBulkResult = {
+    itemType: ModerationItemType;
+    id: number;
+    success: boolean;
+    error?: string;
+};
+
+
+
+
+/** Throws NOT_FOUND if the item doesn't exist. */
+const checkModerationItemExists = async (prisma: MyPrismaClient, item: ModerationItem): Promise<void> => {
+    switch (item.itemType) {
+        case "Mod_New":
+        case "Mod_Edit": {
+            await getModById(item.itemType, "mod", false, false, prisma, item.id);
+            break;
+        }
+        case "Map_NewSolo":
+        case "Map_NewWithMod_New":
+        case "Map_Edit": {
+            await getMapById(item.itemType, false, false, prisma, item.id);
+            break;
+        }
+    }
+};
+
+
+const approveModerationItem = async (prisma: MyPrismaClientOrTransaction, item: ModerationItem, approvedBy: string): Promise<void> => {
+    switch (item.itemType) {
+        case "Mod_New": {
+            await approveModNew(prisma, item.id, approvedBy);
+            break;
+        }
+        case "Mod_Edit": {
+            await approveModEdit(prisma, item.id, approvedBy);
+            break;
+        }
+        case "Map_NewSolo": {
+            await approveMapNewSolo(prisma, item.id, approvedBy);
+            break;
+        }
+        case "Map_NewWithMod_New": {
+            const newMap = await getMapById("Map_NewWithMod_New", false, false, prisma, item.id);
+
+            throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: `Map_NewWithMod_New ${item.id} is approved along with its mod. Approve Mod_New ${newMap.mod_NewId} instead.`,
+            });
+        }
+        case "Map_Edit": {
+            await approveMapEdit(prisma, item.id, approvedBy);
+            break;
+        }
+    }
+};
+
+
+const rejectModerationItem = async (prisma: MyPrismaClientOrTransaction, item: ModerationItem): Promise<void> => {
+    switch (item.itemType) {
+        case "Mod_New": {
+            await rejectModNew(prisma, item.id);
+            break;
+        }
+        case "Mod_Edit": {
+            await rejectModEdit(prisma, item.id);
+            break;
+        }
+        case "Map_NewSolo": {
+            await rejectMapNewSolo(prisma, item.id);
+            break;
+        }
+        case "Map_NewWithMod_New": {
+            await rejectMapNewWithModNew(prisma, item.id);
+            break;
+        }
+        case "Map_Edit": {
+            await rejectMapEdit(prisma, item.id);
+            break;
+        }
+    }
+};
+
+
+/**
+ * Applies `action` to each item in order. A failure only affects its own item, so one bad item doesn't block the rest of the batch.
+ * Each item runs in its own transaction, so a failed item is rolled back completely.
+ * Each successful item gets its own audit log entry, written in the item's transaction.
+ * Items claimed by another user are skipped.
+ */
+const runBulkAction = async (
+    prisma: MyPrismaClient,
+    auditAction: string,
+    items: ModerationItem[],
+    userId: string,
+    action: (transaction: MyPrismaClientOrTransaction, item: ModerationItem) => Promise<void>,
+): Promise<ModerationBulkResult[]> => {
+    const results: ModerationBulkResult[] = [];
+
+    for (const item of items) {     //run sequentially so that items which depend on each other (ie. a Mod_New and one of its maps) are handled in a predictable order
+        try {
+            await prisma.$transaction(
+                async (transaction) => {
+                    const target: AuditTarget = { tableName: item.itemType, id: item.id };    //moderation item types are named after the table they refer to
+
+                    const before = await getAuditSnapshot(transaction, target.tableName, item.id);
+
+
+                    await runModerationAction(transaction, item, userId, () => action(transaction, item));
+
+
+                    await createAuditLogEntry(transaction, {
+                        actorId: userId,
+                        action: auditAction,
+                        target,
+                        input: item,
+                        before,
+                        after: await getAuditSnapshot(transaction, target.tableName, item.id),
+                    });
+                },
+            );
+
+
+            results.push({
+                itemType: item.itemType,
+                id: item.id,
+                success: true,
+            });
+        }
+        catch (error) {
+            results.push({
+                itemType: item.itemType,
+                id: item.id,
+                success: false,
+                error: error instanceof TRPCError ? error.message : "Unknown error",
+            });
+        }
+    }
+
+
+    return results;
+};
+
+
+
+
+export const moderationRouter = createTRPCRouter({
+    getQueue: modlistModeratorProcedure
+        .input(
+            z.object({
+                itemTypes: moderationItemTypeSchema_NonObject.array().optional(),   //omit to include every type
+                includeClaimedByOthers: z.boolean().default(true),
+            }).strict(),
+        )
+        .query(async ({ ctx, input }) => {
+            const isTypeIncluded = (itemType: ModerationItemType) => !input.itemTypes || input.itemTypes.includes(itemType);
+
+
+            const [modNews, modEdits, mapNewSolos, mapNewWithModNews, mapEdits, claims] = await Promise.all([
+                isTypeIncluded("Mod_New") ? ctx.prisma.mod_New.findMany({ select: pendingItemSelectObject }) : [],
+                isTypeIncluded("Mod_Edit") ? ctx.prisma.mod_Edit.findMany({ select: { ...pendingItemSelectObject, modId: true } }) : [],
+                isTypeIncluded("Map_NewSolo") ? ctx.prisma.map_NewSolo.findMany({ select: { ...pendingItemSelectObject, modId: true } }) : [],
+                isTypeIncluded("Map_NewWithMod_New") ? ctx.prisma.map_NewWithMod_New.findMany({ select: { ...pendingItemSelectObject, mod_NewId: true } }) : [],
+                isTypeIncluded("Map_Edit") ? ctx.prisma.map_Edit.findMany({ select: { ...pendingItemSelectObject, mapId: true } }) : [],
+                ctx.prisma.moderationClaim.findMany({ select: defaultModerationClaimSelect }),
+            ]);
+
+
+            const currentTime = getCurrentTime();
+
+
+            const activeClaims = new Map<string, TrimmedModerationClaim>();
+
+            for (const claim of claims) {
+                if (isClaimActive(claim, currentTime)) activeClaims.set(`${claim.itemType}-${claim.itemId}`, claim);
+            }
+
+
+            const getQueueItem = (
+                itemType: ModerationItemType,
+                pendingItem: Prisma.Mod_NewGetPayload<{ select: typeof pendingItemSelectObject; }>,
+                parentId: number | null,
+            ): ModerationQueueItem => {
+                const claim = activeClaims.get(`${itemType}-${pendingItem.id}`);
+
+                return {
+                    itemType,
+                    id: pendingItem.id,
+                    name: pendingItem.name,
+                    parentId,
+                    submittedBy: pendingItem.submittedBy,
+                    submitterName: pendingItem.User_SubmittedBy?.name ?? null,
+                    timeSubmitted: pendingItem.timeSubmitted,
+                    age: currentTime - pendingItem.timeSubmitted,
+                    claim: claim ?
+                        {
+                            claimedBy: claim.claimedBy,
+                            claimerName: claim.User.name,
+                            timeClaimed: claim.timeClaimed,
+                        } :
+                        null,
+                };
+            };
+
+
+            const queue: ModerationQueueItem[] = [
+                ...modNews.map((modNew) => getQueueItem("Mod_New", modNew, null)),
+                ...modEdits.map((modEdit) => getQueueItem("Mod_Edit", modEdit, modEdit.modId)),
+                ...mapNewSolos.map((mapNewSolo) => getQueueItem("Map_NewSolo", mapNewSolo, mapNewSolo.modId)),
+                ...mapNewWithModNews.map((mapNewWithModNew) => getQueueItem("Map_NewWithMod_New", mapNewWithModNew, mapNewWithModNew.mod_NewId)),
+                ...mapEdits.map((mapEdit) => getQueueItem("Map_Edit", mapEdit, mapEdit.mapId)),
+            ];
+
+
+            return queue
+                .filter((queueItem) => input.includeClaimedByOthers || !queueItem.claim || queueItem.claim.claimedBy === ctx.user.id)
+                .sort((a, b) => a.timeSubmitted - b.timeSubmitted);    //oldest first
+        }),
+
+    getEditDiff: modlistModeratorProcedure
+        .input(moderationEditSchema)
+        .query(async ({ ctx, input }): Promise<ModerationEditDiff> => {
+            if (input.itemType === "Mod_Edit") {
+                const modEdit = await getModById("Mod_Edit", "mod", true, false, ctx.prisma, input.id);  //check that the ModEdit exists
+                const existingMod = await getModById("Mod", "mod", true, false, ctx.prisma, modEdit.modId);  //check that the mod exists
+
+                const tags = await ctx.prisma.tag.findMany({ select: { id: true, name: true } });
+
+
+                const getTagEntries = (modToTags: { tagId: number; }[]) => modToTags.map(
+                    ({ tagId }) => ({
+                        id: tagId,
+                        name: tags.find((tag) => tag.id === tagId)?.name ?? `Tag ${tagId}`,
+                    }),
+                );
+
+
+                return {
+                    itemType: input.itemType,
+                    id: input.id,
+                    targetId: existingMod.id,
+                    fields: getFieldDiffs(existingMod, modEdit, MOD_EDIT_DIFF_FIELD_NAMES),
+                    tags: getRelationDiff(getTagEntries(existingMod.ModToTags), getTagEntries(modEdit.Mod_EditToTags)),
+                };
+            }
+
+
+            const mapEdit = await getMapById("Map_Edit", true, false, ctx.prisma, input.id);  //check that the MapEdit exists
+            const existingMap = await getMapById("Map", true, false, ctx.prisma, mapEdit.mapId);  //check that the map exists
+
+            const techs = await ctx.prisma.tech.findMany({ select: { id: true, name: true } });
+
+
+            const getTechEntries = (mapToTechs: { techId: number; fullClearOnlyBool: boolean; }[]) => mapToTechs.map(
+                ({ techId, fullClearOnlyBool }) => ({
+                    id: techId,
+                    name: techs.find((tech) => tech.id === techId)?.name ?? `Tech ${techId}`,
+                    fullClearOnlyBool,
+                }),
+            );
+
+
+            return {
+                itemType: input.itemType,
+                id: input.id,
+                targetId: existingMap.id,
+                fields: getFieldDiffs(existingMap, mapEdit, MAP_EDIT_DIFF_FIELD_NAMES),
+                techs: getRelationDiff(getTechEntries(existingMap.MapToTechs), getTechEntries(mapEdit.Map_EditToTechs)),
+            };
+        }),
+
+    claim: modlistModeratorProcedure
+        .input(moderationItemSchema)
+        .mutation(async ({ ctx, input }) => {
+            await checkModerationItemExists(ctx.prisma, input);   //check that the item exists
+            const claim = await claimItem(ctx.prisma, input, ctx.user.id);     //replaces expired claims, and refreshes the user's own claim. throws if another moderator is already working on the item
+
+
+            return claim;
+        }),
+
+    release: modlistModeratorProcedure
+        .input(moderationItemSchema)
+        .mutation(async ({ ctx, input }) => {
+            const claim = await getActiveClaim(ctx.prisma, input);
+
+            if (!claim) throw new TRPCError({
+                code: "NOT_FOUND",
+                message: `${input.itemType} ${input.id} has not been claimed`,
+            });
+
+
+            checkIsPrivileged(ADMIN_PERMISSION_STRINGS, ctx.user, claim.claimedBy);     //check that user has permission to release this claim
+
+
+            await deleteClaim(ctx.prisma, input);
+
+
+            return true;
+        }),
+
+    approveMany: modlistModeratorProcedure
+        .input(moderationBulkSchema)
+        .mutation(async ({ ctx, input }) => {
+            return await runBulkAction(
+                ctx.prisma,
+                "moderation.approveMany",
+                input.items,
+                ctx.user.id,
+                (transaction, item) => approveModerationItem(transaction, item, ctx.user.id),
+            );
+        }),
+
+    rejectMany: modlistModeratorProcedure
+        .input(moderationBulkSchema)
+        .mutation(async ({ ctx, input }) => {
+            return await runBulkAction(
+                ctx.prisma,
+                "moderation.rejectMany",
+                input.items,
+                ctx.user.id,
+                (transaction, item) => rejectModerationItem(transaction, item),
+            );
+        }),
+});
\ No newline at end of file
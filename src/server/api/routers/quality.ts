@@ -6,6 +6,7 @@ import { Prisma, Quality } from "@prisma/client";
 import { getCombinedSchema, getOrderObjectArray } from "~/server/api/utils/sortOrderHelpers";
 import { getNonEmptyArray } from "~/utils/getNonEmptyArray";
 import { INT_MAX_SIZES } from "~/consts/integerSizes";
+import { REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS, rebuildRatingAggregates } from "../utils/ratingAggregates";
 
 
 
@@ -139,14 +140,23 @@ export const qualityRouter = createTRPCRouter({
             await validateQuality(ctx.prisma, input.name);     //check that the new quality won't conflict with an existing one
 
 
-            const quality = await ctx.prisma.quality.create({
-                data: {
-                    name: input.name,
-                    description: input.description,
-                    order: input.order,
+            const quality = await ctx.prisma.$transaction(
+                async (transaction) => {
+                    const quality = await transaction.quality.create({
+                        data: {
+                            name: input.name,
+                            description: input.description,
+                            order: input.order,
+                        },
+                        select: defaultQualitySelect,
+                    });
+
+                    await rebuildRatingAggregates(transaction);     //adding a quality can change the values of the existing qualities
+
+                    return quality;
                 },
-                select: defaultQualitySelect,
-            });
+                { timeout: REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS },
+            );
 
 
             return quality;
@@ -159,15 +169,24 @@ export const qualityRouter = createTRPCRouter({
             await validateQuality(ctx.prisma, input.name);  //check that the new quality won't conflict with an existing one
 
 
-            const quality = await ctx.prisma.quality.update({
-                where: { id: input.id },
-                data: {
-                    name: input.name,
-                    description: input.description,
-                    order: input.order,
+            const quality = await ctx.prisma.$transaction(
+                async (transaction) => {
+                    const quality = await transaction.quality.update({
+                        where: { id: input.id },
+                        data: {
+                            name: input.name,
+                            description: input.description,
+                            order: input.order,
+                        },
+                        select: defaultQualitySelect,
+                    });
+
+                    if (input.order !== undefined) await rebuildRatingAggregates(transaction);   //the quality values depend on the order
+
+                    return quality;
                 },
-                select: defaultQualitySelect,
-            });
+                { timeout: REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS },
+            );
 
 
             return quality;
@@ -178,7 +197,14 @@ export const qualityRouter = createTRPCRouter({
         .mutation(async ({ ctx, input }) => {
             await getQualityById(ctx.prisma, input.id);  //check that id matches an existing quality
 
-            await ctx.prisma.quality.delete({ where: { id: input.id } });
+            await ctx.prisma.$transaction(
+                async (transaction) => {
+                    await transaction.quality.delete({ where: { id: input.id } });
+
+                    await rebuildRatingAggregates(transaction);     //removing a quality can change the values of the remaining qualities
+                },
+                { timeout: REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS },
+            );
 
             return true;
         }),
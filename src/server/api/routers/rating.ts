@@ -13,16 +13,35 @@ import { getCurrentTime } from "../utils/getCurrentTime";
 import { ADMIN_PERMISSION_STRINGS, checkIsPrivileged } from "../utils/permissions";
 import { getModById } from "./map_mod_publisher/mod";
 import { userIdSchema_NonObject } from "./user";
+import { type QualityScoring, type RatingForRatingSums, type ValuesMaps, REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS, getQualityScoring, getRatingSums, getRatingsInfoFromAggregate, getRatingsInfoFromSums, getLockedRatings, getValuesMaps, rebuildRatingAggregates, updateRatingAggregates } from "../utils/ratingAggregates";
+import { QUALITY_SCORING_MODES } from "~/consts/qualityScoring";
 
 
 
 
-type ValuesMap = Map<number, number>;  //Map with IDs as the keys and "values" as the values
+type RatingCount = {
+    id: number;
+    name: string;
+    count: number;
+};
+
+
+export type RatingDistribution = {
+    /** sorted from worst to best */
+    qualityCounts: RatingCount[];
+    /** child difficulties only. sorted from easiest to hardest. */
+    difficultyCounts: (RatingCount & { parentDifficultyName: string; })[];
+};
 
 
 export type RatingsInfo = {
     averageQualityId: number | undefined;
     averageQualityValue: number | undefined;
+    /** the average quality after the quality scoring mode has been applied. equal to the average quality when no scoring mode is used. */
+    adjustedQualityId: number | undefined;
+    adjustedQualityValue: number | undefined;
+    /** true when there are fewer quality ratings than are needed for a reliable quality score */
+    isBelowMinimumQualityRatings: boolean;
     averageDifficultyId: number | undefined;
     averageDifficultyValue?: number;
     overallCount: number;
@@ -151,210 +170,163 @@ const getRatingByMapAndUser = async <
 
 
 
-const getDifficultyValuesMap = async (prisma: MyPrismaClient): Promise<ValuesMap> => {
-    const parentDifficulties = await prisma.difficulty.findMany({
-        where: { parentDifficultyId: 0 },
-        orderBy: { order: "asc" },
-        include: { ChildDifficulty: true },
-    });
+/** removes ratings submitted by banned users */
+const getRatingsWithoutBannedUsers = async <
+    RatingType extends Pick<Rating, "submittedBy">,
+>(
+    ratings: RatingType[],
+    prisma: MyPrismaClient,
+): Promise<RatingType[]> => {
+    const submittedByIds = [...new Set(ratings.map((rating) => rating.submittedBy))];
 
-    if (!parentDifficulties.length) throw new TRPCError({
-        code: "INTERNAL_SERVER_ERROR",
-        message: "No parent difficulties exist. Please contact an admin.",
+    const bannedUsers = await prisma.user.findMany({
+        where: {
+            id: { in: submittedByIds },
+            accountStatus: "Banned",
+        },
+        select: { id: true },
     });
 
-    let difficultyValue = 0;
-
-    const difficultyValuesMap: ValuesMap = new Map();
+    if (!bannedUsers.length) return ratings;
 
-    for (const parentDifficulty of parentDifficulties) {
-        //the +1 means the last child will not reach the next whole number value. this is intentional to add greater weight to going up a difficulty tier.
-        const valueIncrement = 1 / (parentDifficulty.ChildDifficulty.length + 1);
 
+    const bannedUserIds = new Set(bannedUsers.map((user) => user.id));
 
-        for (const childDifficulty of parentDifficulty.ChildDifficulty) {
-            difficultyValue += valueIncrement;
-
-            difficultyValuesMap.set(childDifficulty.id, difficultyValue);
-        }
-
-
-        difficultyValue = Math.ceil(difficultyValue);  //round up to the next whole number
-    }
-
-
-    return difficultyValuesMap;
+    return ratings.filter((rating) => !bannedUserIds.has(rating.submittedBy));
 };
 
 
-const getQualityValuesMap = async (prisma: MyPrismaClient): Promise<ValuesMap> => {
-    const qualities = await prisma.quality.findMany({
-        orderBy: { order: "asc" },
-    });
-
-    if (!qualities.length) throw new TRPCError({
-        code: "INTERNAL_SERVER_ERROR",
-        message: "No qualities exist. Please contact an admin.",
-    });
-
-
-    let qualityValue = 0;
-    const VALUE_INCREMENT = 1;
+/**
+ * @param excludeBannedUsers set to true to leave ratings submitted by banned users out of the aggregates
+ * @param valuesMaps pass pre-computed values maps when calling this function repeatedly, so they aren't rebuilt for every call
+ * @param qualityScoring omit to leave the adjusted quality equal to the average quality
+ */
+const getRatingsInfo = async <
+    RatingType extends RatingForRatingSums & Pick<Rating, "submittedBy">,
+>(
+    ratings_maybeWithBannedUsers: RatingType[],
+    prisma: MyPrismaClient,
+    excludeBannedUsers = false,
+    valuesMaps?: ValuesMaps,
+    qualityScoring?: QualityScoring,
+) => {
+    const ratings = excludeBannedUsers ? await getRatingsWithoutBannedUsers(ratings_maybeWithBannedUsers, prisma) : ratings_maybeWithBannedUsers;
 
-    const qualityValuesMap: ValuesMap = new Map();
+    const valuesMaps_nonNull = valuesMaps ?? await getValuesMaps(prisma);
 
-    for (const quality of qualities) {
-        if (quality.order - 1 !== qualityValue) console.warn(`Quality "${quality.id}" has order "${quality.order}" but should have order "${qualityValue}".`);
 
-        qualityValuesMap.set(quality.id, qualityValue);
+    const ratingSums = getRatingSums(ratings, valuesMaps_nonNull);
 
-        qualityValue += VALUE_INCREMENT;
-    }
 
-
-    return qualityValuesMap;
+    return getRatingsInfoFromSums(ratingSums, valuesMaps_nonNull, qualityScoring);
 };
 
 
-const getAverageId = (valuesMap: ValuesMap, averageValue: number): number => {
-    let lowerBoundValue = -Infinity;
-    let lowerBoundID = -Infinity;
-    let upperBoundValue = Infinity;
-    let upperBoundID = -Infinity;
-
-    for (const [id, value] of valuesMap.entries()) {
-
-        if (value === averageValue) return id;
 
-        if (value < averageValue) {
-            if (value > lowerBoundValue) {
-                lowerBoundValue = value;
-                lowerBoundID = id;
-            }
-        }
-        else {  //if this block is reached, value must be greater than averageValue
-            if (value < upperBoundValue) {
-                upperBoundValue = value;
-                upperBoundID = id;
-            }
-        }
-    }
 
+/**
+ * @param where filters the ratings to include in the distribution
+ * @param excludeBannedUsers set to true to leave ratings submitted by banned users out of the distribution
+ */
+const getRatingDistribution = async (prisma: MyPrismaClient, where: Prisma.RatingWhereInput, excludeBannedUsers = false): Promise<RatingDistribution> => {
+    const ratingWhere: Prisma.RatingWhereInput = excludeBannedUsers ?
+        { ...where, User_SubmittedBy: { accountStatus: { not: "Banned" } } } :
+        where;
 
-    const lowerBoundDifference = averageValue - lowerBoundValue;
-    const upperBoundDifference = upperBoundValue - averageValue;
 
+    const [qualities, parentDifficulties, qualityGroups, difficultyGroups] = await Promise.all([
+        prisma.quality.findMany({ orderBy: { order: "asc" } }),
+        prisma.difficulty.findMany({
+            where: { parentDifficultyId: 0 },
+            orderBy: { order: "asc" },
+            include: { ChildDifficulty: { orderBy: { order: "asc" } } },
+        }),
+        prisma.rating.groupBy({
+            by: ["qualityId"],
+            where: { ...ratingWhere, qualityId: { not: null } },
+            _count: { _all: true },
+        }),
+        prisma.rating.groupBy({
+            by: ["difficultyId"],
+            where: { ...ratingWhere, difficultyId: { not: null } },
+            _count: { _all: true },
+        }),
+    ]);
 
-    let averageId;
 
-    if (upperBoundDifference <= lowerBoundDifference) averageId = upperBoundID;
-    else averageId = lowerBoundID;
+    const qualityCountsMap = new Map(qualityGroups.map((group) => [group.qualityId, group._count._all]));
+    const difficultyCountsMap = new Map(difficultyGroups.map((group) => [group.difficultyId, group._count._all]));
 
 
-    return averageId;
+    const qualityCounts: RatingDistribution["qualityCounts"] = qualities.map(
+        (quality) => ({
+            id: quality.id,
+            name: quality.name,
+            count: qualityCountsMap.get(quality.id) ?? 0,
+        }),
+    );
+
+    const difficultyCounts: RatingDistribution["difficultyCounts"] = parentDifficulties.flatMap(
+        (parentDifficulty) => parentDifficulty.ChildDifficulty.map(
+            (childDifficulty) => ({
+                id: childDifficulty.id,
+                name: childDifficulty.name,
+                parentDifficultyName: parentDifficulty.name,
+                count: difficultyCountsMap.get(childDifficulty.id) ?? 0,
+            }),
+        ),
+    );
+
+
+    return {
+        qualityCounts,
+        difficultyCounts,
+    };
 };
 
 
-const getRatingsInfo = async (ratings: Rating[], prisma: MyPrismaClient) => {
-    const qualityValuesMap = await getQualityValuesMap(prisma);
-
-    // console.log(`qualityValuesMap.size = ${qualityValuesMap.size}`);
-    // for (const [id, value] of qualityValuesMap.entries()) {
-    //     console.log(`\n${id}: ${value}`);
-    // }
-
-    const difficultyValuesMap = await getDifficultyValuesMap(prisma);
 
-    // console.log(`difficultyValuesMap.size = ${difficultyValuesMap.size}`);
-    // for (const [id, value] of difficultyValuesMap.entries()) {
-    //     console.log(`\n${id}: ${value}`);
-    // }
 
+/**
+ * Groups ratings by a key and computes the RatingsInfo for each group, building the values maps only once.
+ * Keys with no ratings are omitted from the returned Map.
+ */
+const getRatingsInfoByKey = async <
+    RatingType extends RatingForRatingSums & Pick<Rating, "submittedBy">,
+>(
+    prisma: MyPrismaClient,
+    ratings: RatingType[],
+    getKey: (rating: RatingType) => number,
+    qualityScoring: QualityScoring,
+): Promise<Map<number, RatingsInfo>> => {
+    const valuesMaps = await getValuesMaps(prisma);
 
-    let qualityCount = 0;
-    let qualitySum = 0;
-    let difficultyCount = 0;
-    let difficultySum = 0;
 
+    const ratingsByKey = new Map<number, RatingType[]>();
 
     for (const rating of ratings) {
-        let hasValuesBool = false;
-
-
-        if (rating.qualityId) {
-            hasValuesBool = true;
-
-
-            const qualityValue = qualityValuesMap.get(rating.qualityId);
-
-            if (qualityValue === undefined) throw new TRPCError({
-                code: "INTERNAL_SERVER_ERROR",
-                message: `Undefined qualityValue for quality ${rating.qualityId} from rating ${rating.id}. Please contact an admin.`,
-            });
-
+        const key = getKey(rating);
 
-            qualityCount++;
-            qualitySum += qualityValue;
-        }
-
-
-        if (rating.difficultyId) {
-            hasValuesBool = true;
-
-
-            const difficultyValue = difficultyValuesMap.get(rating.difficultyId);
-
-            if (difficultyValue === undefined) throw new TRPCError({
-                code: "INTERNAL_SERVER_ERROR",
-                message: `Undefined difficultyValue for difficulty ${rating.difficultyId} from rating ${rating.id}. Please contact an admin.`,
-            });
+        const ratingsForKey = ratingsByKey.get(key);
 
-
-            difficultyCount++;
-            difficultySum += difficultyValue;
-        }
-
-
-        if (!hasValuesBool) throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: `Rating ${rating.id} has no values. Please contact an admin.`,
-        });
+        if (ratingsForKey) ratingsForKey.push(rating);
+        else ratingsByKey.set(key, [rating]);
     }
 
 
-    const overallCount = ratings.length;
-
-    const unroundedAverageQualityValue = qualityCount ? qualitySum / qualityCount : undefined;
-    const unroundedAverageDifficultyValue = difficultyCount ? difficultySum / difficultyCount : undefined;
-
-    const averageQualityID = unroundedAverageQualityValue ? getAverageId(qualityValuesMap, unroundedAverageQualityValue) : undefined;
-    const averageDifficultyID = unroundedAverageDifficultyValue ? getAverageId(difficultyValuesMap, unroundedAverageDifficultyValue) : undefined;
+    const ratingsInfoByKey = new Map<number, RatingsInfo>();
 
-
-    let roundedAverageQualityValue = undefined;
-    let roundedAverageDifficultyValue = undefined;
-
-    if (unroundedAverageQualityValue) {
-        roundedAverageQualityValue = Math.round(unroundedAverageQualityValue * 10) / 10;
-    }
-
-    if (unroundedAverageDifficultyValue) {
-        roundedAverageDifficultyValue = Math.round(unroundedAverageDifficultyValue * 10) / 10;
+    for (const [key, ratingsForKey] of ratingsByKey.entries()) {
+        ratingsInfoByKey.set(key, await getRatingsInfo(ratingsForKey, prisma, false, valuesMaps, qualityScoring));
     }
 
 
-    const ratingsInfo: RatingsInfo = {
-        averageQualityId: averageQualityID,
-        averageQualityValue: roundedAverageQualityValue,
-        averageDifficultyId: averageDifficultyID,
-        averageDifficultyValue: roundedAverageDifficultyValue,
-        overallCount: overallCount,
-        qualityCount: qualityCount,
-        difficultyCount: difficultyCount,
-    };
+    return ratingsInfoByKey;
+};
 
 
-    return ratingsInfo;
+const getBannedUsersRatingWhere = (excludeBannedUsers: boolean | undefined): Prisma.RatingWhereInput => {
+    return excludeBannedUsers ? { User_SubmittedBy: { accountStatus: { not: "Banned" } } } : {};
 };
 
 
@@ -435,14 +407,20 @@ export const ratingRouter = createTRPCRouter({
             const currentTime = getCurrentTime();
 
 
-            const rating = await ctx.prisma.rating.create({
-                data: {
-                    Map: { connect: { id: input.mapId } },
-                    User_SubmittedBy: { connect: { id: ctx.user.id } },
-                    timeSubmitted: currentTime,
-                    Quality: { connect: { id: input.qualityId } },
-                    Difficulty: { connect: { id: input.difficultyId } },
-                },
+            const rating = await ctx.prisma.$transaction(async (transaction) => {
+                const rating = await transaction.rating.create({
+                    data: {
+                        Map: { connect: { id: input.mapId } },
+                        User_SubmittedBy: { connect: { id: ctx.user.id } },
+                        timeSubmitted: currentTime,
+                        Quality: { connect: { id: input.qualityId } },
+                        Difficulty: { connect: { id: input.difficultyId } },
+                    },
+                });
+
+                await updateRatingAggregates(transaction, [{ mapId: rating.mapId, oldRating: null, newRating: rating }]);
+
+                return rating;
             });
 
 
@@ -467,19 +445,33 @@ export const ratingRouter = createTRPCRouter({
             const currentTime = getCurrentTime();
 
 
-            const rating = await ctx.prisma.rating.update({
-                where: { id: input.id },
-                data: {
-                    timeSubmitted: currentTime,
-                    Quality:
-                        input.qualityId === null ?
-                            { disconnect: true } :
-                            { connect: { id: input.qualityId } },
-                    Difficulty:
-                        input.difficultyId === null ?
-                            { disconnect: true } :
-                            { connect: { id: input.difficultyId } },
-                },
+            const rating = await ctx.prisma.$transaction(async (transaction) => {
+                const [oldRating] = await getLockedRatings(transaction, { id: input.id });
+
+                if (!oldRating) throw new TRPCError({
+                    code: "NOT_FOUND",
+                    message: `No rating exists with id "${input.id}"`,
+                });
+
+
+                const rating = await transaction.rating.update({
+                    where: { id: input.id },
+                    data: {
+                        timeSubmitted: currentTime,
+                        Quality:
+                            input.qualityId === null ?
+                                { disconnect: true } :
+                                { connect: { id: input.qualityId } },
+                        Difficulty:
+                            input.difficultyId === null ?
+                                { disconnect: true } :
+                                { connect: { id: input.difficultyId } },
+                    },
+                });
+
+                await updateRatingAggregates(transaction, [{ mapId: rating.mapId, oldRating, newRating: rating }]);
+
+                return rating;
             });
 
 
@@ -495,28 +487,70 @@ export const ratingRouter = createTRPCRouter({
             checkIsPrivileged(ADMIN_PERMISSION_STRINGS, ctx.user, ratingFromId.submittedBy);    //check that user has permission to delete this rating
 
 
-            await ctx.prisma.rating.delete({ where: { id: input.id } });
+            await ctx.prisma.$transaction(async (transaction) => {
+                const [oldRating] = await getLockedRatings(transaction, { id: input.id });
+
+                if (!oldRating) throw new TRPCError({
+                    code: "NOT_FOUND",
+                    message: `No rating exists with id "${input.id}"`,
+                });
+
+
+                await transaction.rating.delete({ where: { id: input.id } });
+
+                await updateRatingAggregates(transaction, [{ mapId: oldRating.mapId, oldRating, newRating: null }]);
+            });
 
 
             return true;
         }),
 
+    rebuildAggregates: adminProcedure
+        .input(z.void())
+        .mutation(async ({ ctx }) => {
+            return await ctx.prisma.$transaction(
+                (transaction) => rebuildRatingAggregates(transaction),
+                { timeout: REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS },
+            );
+        }),
+
     getModRatingData: publicProcedure
         .input(
             z.object({
                 modId: modIdSchema_NonObject,
+                excludeBannedUsers: z.boolean().optional(),
+                qualityScoringMode: z.enum(QUALITY_SCORING_MODES).optional(),   //defaults to DEFAULT_QUALITY_SCORING_MODE
             }).strict(),
         )
         .query(async ({ ctx, input }) => {
             await getModById("Mod", "mod", false, false, ctx.prisma, input.modId);  //check that modId matches an existing mod
 
+            const qualityScoring = await getQualityScoring(ctx.prisma, input.qualityScoringMode);
+
+
+            const modRatingAggregate = input.excludeBannedUsers ?
+                null :      //the stored aggregates include every user's ratings
+                await ctx.prisma.modRatingAggregate.findUnique({ where: { modId: input.modId } });
+
+            if (modRatingAggregate) {    //mods without a stored aggregate fall back to their raw ratings
+                const ratingsInfo = getRatingsInfoFromAggregate(modRatingAggregate, qualityScoring);
+
+                if (!ratingsInfo) return { modId: input.modId };
+
+
+                return {
+                    ...ratingsInfo,
+                    modId: input.modId,
+                };
+            }
+
 
             const ratings = await ctx.prisma.rating.findMany({ where: { Map: { modId: input.modId } } });
 
             if (!ratings.length) return { modId: input.modId };
 
 
-            const ratingsInfo = await getRatingsInfo(ratings, ctx.prisma);
+            const ratingsInfo = await getRatingsInfo(ratings, ctx.prisma, input.excludeBannedUsers, undefined, qualityScoring);
 
 
             return {
@@ -529,18 +563,39 @@ export const ratingRouter = createTRPCRouter({
         .input(
             z.object({
                 mapId: mapIdSchema_NonObject,
+                excludeBannedUsers: z.boolean().optional(),
+                qualityScoringMode: z.enum(QUALITY_SCORING_MODES).optional(),   //defaults to DEFAULT_QUALITY_SCORING_MODE
             }).strict(),
         )
         .query(async ({ ctx, input }) => {
             await getMapById("Map", false, false, ctx.prisma, input.mapId);  //check that mapId matches an existing map
 
+            const qualityScoring = await getQualityScoring(ctx.prisma, input.qualityScoringMode);
+
+
+            const mapRatingAggregate = input.excludeBannedUsers ?
+                null :      //the stored aggregates include every user's ratings
+                await ctx.prisma.mapRatingAggregate.findUnique({ where: { mapId: input.mapId } });
+
+            if (mapRatingAggregate) {    //maps without a stored aggregate fall back to their raw ratings
+                const ratingsInfo = getRatingsInfoFromAggregate(mapRatingAggregate, qualityScoring);
+
+                if (!ratingsInfo) return { mapId: input.mapId };
+
+
+                return {
+                    ...ratingsInfo,
+                    mapId: input.mapId,
+                };
+            }
+
 
             const ratings = await ctx.prisma.rating.findMany({ where: { mapId: input.mapId } });
 
             if (!ratings.length) return { mapId: input.mapId };
 
 
-            const ratingsInfo = await getRatingsInfo(ratings, ctx.prisma);
+            const ratingsInfo = await getRatingsInfo(ratings, ctx.prisma, input.excludeBannedUsers, undefined, qualityScoring);
 
 
             return {
@@ -549,6 +604,245 @@ export const ratingRouter = createTRPCRouter({
             };
         }),
 
+    getAllModRatingData: publicProcedure
+        .input(
+            z.object({
+                excludeBannedUsers: z.boolean().optional(),
+                qualityScoringMode: z.enum(QUALITY_SCORING_MODES).optional(),   //defaults to DEFAULT_QUALITY_SCORING_MODE
+            }).strict(),
+        )
+        .query(async ({ ctx, input }) => {
+            const qualityScoring = await getQualityScoring(ctx.prisma, input.qualityScoringMode);
+
+
+            if (!input.excludeBannedUsers) {    //the stored aggregates include every user's ratings
+                const mods = await ctx.prisma.mod.findMany({
+                    select: {
+                        id: true,
+                        ModRatingAggregate: true,
+                    },
+                    orderBy: { id: "asc" },
+                });
+
+
+                //mods without a stored aggregate fall back to their raw ratings
+                const unaggregatedModIds = mods.filter((mod) => !mod.ModRatingAggregate).map((mod) => mod.id);
+
+                const unaggregatedRatings = unaggregatedModIds.length ?
+                    await ctx.prisma.rating.findMany({
+                        where: { Map: { modId: { in: unaggregatedModIds } } },
+                        select: {
+                            id: true,
+                            submittedBy: true,
+                            qualityId: true,
+                            difficultyId: true,
+                            Map: { select: { modId: true } },
+                        },
+                    }) :
+                    [];
+
+                const unaggregatedRatingsInfoByModId = await getRatingsInfoByKey(ctx.prisma, unaggregatedRatings, (rating) => rating.Map.modId, qualityScoring);
+
+
+                return mods.map(
+                    ({ id: modId, ModRatingAggregate: modRatingAggregate }) => {
+                        const ratingsInfo = modRatingAggregate ?
+                            getRatingsInfoFromAggregate(modRatingAggregate, qualityScoring) :
+                            unaggregatedRatingsInfoByModId.get(modId);
+
+                        if (!ratingsInfo) return { modId: modId };
+
+
+                        return {
+                            ...ratingsInfo,
+                            modId: modId,
+                        };
+                    },
+                );
+            }
+
+
+            const [mods, ratings] = await Promise.all([
+                ctx.prisma.mod.findMany({
+                    select: { id: true },
+                    orderBy: { id: "asc" },
+                }),
+                ctx.prisma.rating.findMany({
+                    where: getBannedUsersRatingWhere(input.excludeBannedUsers),
+                    select: {
+                        id: true,
+                        submittedBy: true,
+                        qualityId: true,
+                        difficultyId: true,
+                        Map: { select: { modId: true } },
+                    },
+                }),
+            ]);
+
+
+            const ratingsInfoByModId = await getRatingsInfoByKey(ctx.prisma, ratings, (rating) => rating.Map.modId, qualityScoring);
+
+
+            return mods.map(
+                ({ id: modId }) => {
+                    const ratingsInfo = ratingsInfoByModId.get(modId);
+
+                    if (!ratingsInfo) return { modId: modId };
+
+
+                    return {
+                        ...ratingsInfo,
+                        modId: modId,
+                    };
+                },
+            );
+        }),
+
+    getAllMapRatingData: publicProcedure
+        .input(
+            z.object({
+                modId: modIdSchema_NonObject.optional(),    //omit to get the rating data for every map
+                excludeBannedUsers: z.boolean().optional(),
+                qualityScoringMode: z.enum(QUALITY_SCORING_MODES).optional(),   //defaults to DEFAULT_QUALITY_SCORING_MODE
+            }).strict(),
+        )
+        .query(async ({ ctx, input }) => {
+            if (input.modId !== undefined) await getModById("Mod", "mod", false, false, ctx.prisma, input.modId);  //check that modId matches an existing mod
+
+            const qualityScoring = await getQualityScoring(ctx.prisma, input.qualityScoringMode);
+
+
+            const mapWhere: Prisma.MapWhereInput = input.modId === undefined ? {} : { modId: input.modId };
+
+
+            if (!input.excludeBannedUsers) {    //the stored aggregates include every user's ratings
+                const maps = await ctx.prisma.map.findMany({
+                    where: mapWhere,
+                    select: {
+                        id: true,
+                        MapRatingAggregate: true,
+                    },
+                    orderBy: { id: "asc" },
+                });
+
+
+                //maps without a stored aggregate fall back to their raw ratings
+                const unaggregatedMapIds = maps.filter((map) => !map.MapRatingAggregate).map((map) => map.id);
+
+                const unaggregatedRatings = unaggregatedMapIds.length ?
+                    await ctx.prisma.rating.findMany({
+                        where: { mapId: { in: unaggregatedMapIds } },
+                        select: {
+                            id: true,
+                            mapId: true,
+                            submittedBy: true,
+                            qualityId: true,
+                            difficultyId: true,
+                        },
+                    }) :
+                    [];
+
+                const unaggregatedRatingsInfoByMapId = await getRatingsInfoByKey(ctx.prisma, unaggregatedRatings, (rating) => rating.mapId, qualityScoring);
+
+
+                return maps.map(
+                    ({ id: mapId, MapRatingAggregate: mapRatingAggregate }) => {
+                        const ratingsInfo = mapRatingAggregate ?
+                            getRatingsInfoFromAggregate(mapRatingAggregate, qualityScoring) :
+                            unaggregatedRatingsInfoByMapId.get(mapId);
+
+                        if (!ratingsInfo) return { mapId: mapId };
+
+
+                        return {
+                            ...ratingsInfo,
+                            mapId: mapId,
+                        };
+                    },
+                );
+            }
+
+
+            const [maps, ratings] = await Promise.all([
+                ctx.prisma.map.findMany({
+                    where: mapWhere,
+                    select: { id: true },
+                    orderBy: { id: "asc" },
+                }),
+                ctx.prisma.rating.findMany({
+                    where: {
+                        ...getBannedUsersRatingWhere(input.excludeBannedUsers),
+                        Map: mapWhere,
+                    },
+                    select: {
+                        id: true,
+                        mapId: true,
+                        submittedBy: true,
+                        qualityId: true,
+                        difficultyId: true,
+                    },
+                }),
+            ]);
+
+
+            const ratingsInfoByMapId = await getRatingsInfoByKey(ctx.prisma, ratings, (rating) => rating.mapId, qualityScoring);
+
+
+            return maps.map(
+                ({ id: mapId }) => {
+                    const ratingsInfo = ratingsInfoByMapId.get(mapId);
+
+                    if (!ratingsInfo) return { mapId: mapId };
+
+
+                    return {
+                        ...ratingsInfo,
+                        mapId: mapId,
+                    };
+                },
+            );
+        }),
+
+    getModRatingDistribution: publicProcedure
+        .input(
+            z.object({
+                modId: modIdSchema_NonObject,
+                excludeBannedUsers: z.boolean().optional(),
+            }).strict(),
+        )
+        .query(async ({ ctx, input }) => {
+            await getModById("Mod", "mod", false, false, ctx.prisma, input.modId);  //check that modId matches an existing mod
+
+
+            const ratingDistribution = await getRatingDistribution(ctx.prisma, { Map: { modId: input.modId } }, input.excludeBannedUsers);
+
+
+            return {
+                ...ratingDistribution,
+                modId: input.modId,
+            };
+        }),
+
+    getMapRatingDistribution: publicProcedure
+        .input(
+            z.object({
+                mapId: mapIdSchema_NonObject,
+                excludeBannedUsers: z.boolean().optional(),
+            }).strict(),
+        )
+        .query(async ({ ctx, input }) => {
+            await getMapById("Map", false, false, ctx.prisma, input.mapId);  //check that mapId matches an existing map
+
+
+            const ratingDistribution = await getRatingDistribution(ctx.prisma, { mapId: input.mapId }, input.excludeBannedUsers);
+
+
+            return {
+                ...ratingDistribution,
+                mapId: input.mapId,
+            };
+        }),
+
     getUserRatingData: loggedInProcedure
         .input(
             z.object({
@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, adminProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import type { MyPrismaClient } from "~/server/prisma";
+import { Prisma, type Tag } from "@prisma/client";
+import { getCombinedSchema, getOrderObjectArray } from "~/server/api/utils/sortOrderHelpers";
+import { getNonEmptyArray } from "~/utils/getNonEmptyArray";
+import { INT_MAX_SIZES } from "~/consts/integerSizes";
+
+
+
+
+const defaultTagSelect = Prisma.validator<Prisma.TagSelect>()({
+    id: true,
+    name: true,
+});
+
+
+
+
+const tagNameSchema_NonObject = z.string().min(1).max(50);
+
+
+export const tagIdSchema_NonObject = z.number().int().gte(1).lte(INT_MAX_SIZES.tinyInt.unsigned);
+
+export const tagIdsSchema_NonObject = tagIdSchema_NonObject.array().refine(
+    (tagIds) => new Set(tagIds).size === tagIds.length,
+    { message: "Tag ids must be unique." },
+);
+
+const tagIdSchema = z.object({
+    id: tagIdSchema_NonObject,
+}).strict();
+
+
+const tagPostSchema = z.object({
+    name: tagNameSchema_NonObject,
+}).strict();
+
+
+const tagOrderSchema = getCombinedSchema(
+    getNonEmptyArray(Prisma.TagScalarFieldEnum),
+    ["name"],
+    ["asc"],
+);
+
+
+
+
+const validateTag = async (prisma: MyPrismaClient, newName?: string): Promise<void> => {
+    if (!newName) return;
+
+    const matchingTag = await prisma.tag.findUnique({ where: { name: newName } });
+
+    if (matchingTag) throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `Conflicts with existing tag ${matchingTag.id}`,
+    });
+};
+
+
+
+
+const getTagById = async (prisma: MyPrismaClient, id: number): Promise<Pick<Tag, keyof typeof defaultTagSelect>> => {
+    const tag: Tag | null = await prisma.tag.findUnique({  //having type declaration here AND in function signature is safer
+        where: { id: id },
+        select: defaultTagSelect,
+    });
+
+    if (!tag) {
+        throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `No tag exists with id "${id}"`,
+        });
+    }
+
+    return tag;
+};
+
+
+export const checkTagsExist = async (prisma: MyPrismaClient, tagIds: number[] | undefined): Promise<void> => {
+    if (!tagIds?.length) return;
+
+
+    const tags = await prisma.tag.findMany({
+        where: { id: { in: tagIds } },
+        select: { id: true },
+    });
+
+    const existingTagIds = new Set(tags.map((tag) => tag.id));
+
+    const missingTagIds = tagIds.filter((tagId) => !existingTagIds.has(tagId));
+
+    if (missingTagIds.length) {
+        throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `No tags exist with ids "${missingTagIds.join(", ")}"`,
+        });
+    }
+};
+
+
+
+
+export const tagRouter = createTRPCRouter({
+    getAll: publicProcedure
+        .input(tagOrderSchema)
+        .query(({ ctx, input }) => {
+            return ctx.prisma.tag.findMany({
+                select: defaultTagSelect,
+                orderBy: getOrderObjectArray(input.selectors, input.directions),
+            });
+        }),
+
+    getMany: publicProcedure
+        .input(
+            z.object({
+                pageSize: z.number().int().min(1).max(100).default(50),
+                pageNumber: z.number().int().min(1).default(1),
+            }).strict().merge(tagOrderSchema),
+        )
+        .query(async ({ ctx, input }) => {
+            const { pageSize, pageNumber } = input;
+
+            const numToSkip = pageSize * (pageNumber - 1);
+
+            const tags = await ctx.prisma.tag.findMany({
+                skip: numToSkip,
+                take: pageSize,
+                select: defaultTagSelect,
+                orderBy: getOrderObjectArray(input.selectors, input.directions),
+            });
+
+            return tags;
+        }),
+
+    getById: publicProcedure
+        .input(tagIdSchema)
+        .query(async ({ ctx, input }) => {
+            return await getTagById(ctx.prisma, input.id);
+        }),
+
+    getByName: publicProcedure
+        .input(
+            z.object({
+                query: tagNameSchema_NonObject,
+            }).strict().merge(tagOrderSchema),
+        )
+        .query(async ({ ctx, input }) => {
+            const tags = await ctx.prisma.tag.findMany({
+                where: { name: { contains: input.query } },
+                select: defaultTagSelect,
+                orderBy: getOrderObjectArray(input.selectors, input.directions),
+            });
+
+            return tags;
+        }),
+
+    add: adminProcedure
+        .input(tagPostSchema)
+        .mutation(async ({ ctx, input }) => {
+            await validateTag(ctx.prisma, input.name);     //check that the new tag won't conflict with an existing one
+
+
+            const tag = await ctx.prisma.tag.create({
+                data: {
+                    name: input.name,
+                },
+                select: defaultTagSelect,
+            });
+
+
+            return tag;
+        }),
+
+    edit: adminProcedure
+        .input(tagPostSchema.partial().merge(tagIdSchema))
+        .mutation(async ({ ctx, input }) => {
+            await getTagById(ctx.prisma, input.id);     //check that id matches an existing tag
+            await validateTag(ctx.prisma, input.name);  //check that the new tag won't conflict with an existing one
+
+
+            const tag = await ctx.prisma.tag.update({
+                where: { id: input.id },
+                data: {
+                    name: input.name,
+                },
+                select: defaultTagSelect,
+            });
+
+
+            return tag;
+        }),
+
+    delete: adminProcedure
+        .input(tagIdSchema)
+        .mutation(async ({ ctx, input }) => {
+            await getTagById(ctx.prisma, input.id);  //check that id matches an existing tag
+
+            await ctx.prisma.tag.delete({ where: { id: input.id } });   //the deletion should cascade to any ModToTags, Mod_ArchiveToTags, Mod_EditToTags, and Mod_NewToTags
+
+            return true;
+        }),
+});
\ No newline at end of file
@@ -2,11 +2,13 @@ import { z } from "zod";
 import { createTRPCRouter, publicProcedure, loggedInProcedure, adminProcedure } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
 import { MyPrismaClient } from "~/server/prisma";
-import { Prisma, User } from "@prisma/client";
+import { Prisma, User, User_AccountStatus } from "@prisma/client";
 import { getCombinedSchema, getOrderObjectArray } from "~/server/api/utils/sortOrderHelpers";
 import { getNonEmptyArray } from "~/utils/getNonEmptyArray";
-import { ADMIN_PERMISSION_STRINGS, Permission, checkIsPrivileged, checkPermissions } from "../utils/permissions";
+import { ADMIN_PERMISSION_STRINGS, Permission, assertsIsPermission, checkIsPrivileged, checkPermissions } from "../utils/permissions";
 import { selectIdObject } from "../utils/selectIdObject";
+import { getCurrentTime } from "../utils/getCurrentTime";
+import { REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS, getLockedRatings, updateRatingAggregates } from "../utils/ratingAggregates";
 
 
 
@@ -94,13 +96,18 @@ const userIdSchema = z.object({
 
 
 const userPostSchema = z.object({
-    discordCode: z.string(),
     displayName: displayNameSchema_NonObject,
     displayDiscord: z.boolean(),
     showCompletedMaps: z.boolean(),
 }).strict();
 
 
+const userAdminPatchSchema = z.object({
+    permissions: z.string().array(),    //each string is checked with assertsIsPermission
+    accountStatus: z.nativeEnum(User_AccountStatus),
+}).strict().partial();
+
+
 const userOrderSchema = getCombinedSchema(
     getNonEmptyArray(Prisma.UserScalarFieldEnum),
     ["name"],
@@ -141,6 +148,81 @@ export const getUserById = async (
 
 
 
+const validateDisplayName = async (prisma: MyPrismaClient, newDisplayName?: string, userId?: string): Promise<void> => {
+    if (!newDisplayName) return;
+
+    const matchingUser = await prisma.user.findFirst({ where: { name: newDisplayName } });
+
+    if (matchingUser && matchingUser.id !== userId) throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `Conflicts with existing user ${matchingUser.id}`,
+    });
+};
+
+
+
+
+const getValidatedPermissionsString = (permissions: string[]): string => {
+    const permissionSet = new Set<Permission>();
+
+    for (const permission of permissions) {
+        try {
+            assertsIsPermission(permission);
+        }
+        catch (error) {
+            throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: typeof error === "string" ? error : `"${permission}" is not a valid permission`,
+            });
+        }
+
+        permissionSet.add(permission);
+    }
+
+
+    return Array.from(permissionSet).join(",");
+};
+
+
+const adminLevelPermissions: readonly Permission[] = ["Super_Admin", "Admin"];
+
+/** only super admins may grant or revoke admin-level permissions */
+const checkCanChangePermissions = (sessionUserPermissions: Permission[], oldPermissionsString: string, newPermissionsString: string): void => {
+    if (checkPermissions(["Super_Admin"], sessionUserPermissions)) return;
+
+
+    const oldPermissions = oldPermissionsString ? oldPermissionsString.split(",") : [];
+    const newPermissions = newPermissionsString ? newPermissionsString.split(",") : [];
+
+    const isChangingAdminLevelPermission = adminLevelPermissions.some(
+        (permission) => oldPermissions.includes(permission) !== newPermissions.includes(permission),
+    );
+
+    if (isChangingAdminLevelPermission) throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Only super admins may grant or revoke admin permissions",
+    });
+};
+
+
+/** only super admins may change the account status of users with admin-level permissions */
+const checkCanChangeAccountStatus = (sessionUserPermissions: Permission[], targetPermissionsString: string): void => {
+    if (checkPermissions(["Super_Admin"], sessionUserPermissions)) return;
+
+
+    const targetPermissions = targetPermissionsString ? targetPermissionsString.split(",") : [];
+
+    const isTargetAdminLevel = adminLevelPermissions.some((permission) => targetPermissions.includes(permission));
+
+    if (isTargetAdminLevel) throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Only super admins may change the account status of admins",
+    });
+};
+
+
+
+
 const undefinedSessionError = new TRPCError({
     code: "INTERNAL_SERVER_ERROR",
     message: "Session is undefined when it should not be. Please contact an admin.",
@@ -206,19 +288,47 @@ export const userRouter = createTRPCRouter({
     add: loggedInProcedure
         .input(userPostSchema)
         .mutation(async ({ ctx, input }) => {
-            //TODO: implement procedure
-            //enforce unique displayNames
+            //the user row itself is created by the NextAuth adapter on first sign-in. this procedure completes the user's profile.
+
+            await getUserById(ctx.prisma, ctx.user.id, ctx.user.permissions, true);   //check that the session user exists
+            await validateDisplayName(ctx.prisma, input.displayName, ctx.user.id);  //check that the new display name won't conflict with an existing one
 
-            throw "not implemented";
+
+            const user = await ctx.prisma.user.update({
+                where: { id: ctx.user.id },
+                data: {
+                    name: input.displayName,
+                    displayDiscord: input.displayDiscord,
+                    showCompletedMaps: input.showCompletedMaps,
+                },
+                select: defaultFullUserSelect,  //the session user is always allowed to see their own full profile
+            });
+
+
+            return user;
         }),
 
     edit: loggedInProcedure
         .input(userPostSchema.partial().merge(userIdSchema))
         .mutation(async ({ ctx, input }) => {
-            //TODO: implement procedure
-            //enforce unique displayNames
+            checkIsPrivileged(ADMIN_PERMISSION_STRINGS, ctx.user, input.id);  //check user has sufficient privileges
+
+            await getUserById(ctx.prisma, input.id, ctx.user.permissions, true);  //check that id matches an existing user  //overwrite = true because checkIsPrivileged was called
+            await validateDisplayName(ctx.prisma, input.displayName, input.id);   //check that the new display name won't conflict with an existing one
+
+
+            const user = await ctx.prisma.user.update({
+                where: { id: input.id },
+                data: {
+                    name: input.displayName,
+                    displayDiscord: input.displayDiscord,
+                    showCompletedMaps: input.showCompletedMaps,
+                },
+                select: defaultFullUserSelect,
+            });
+
 
-            throw "not implemented";
+            return user;
         }),
 
     delete: loggedInProcedure
@@ -232,19 +342,81 @@ export const userRouter = createTRPCRouter({
             await getUserById(ctx.prisma, input.id, ctx.user.permissions, true);  //check that id matches an existing user  //overwrite = true because checkIsPrivileged was called
 
 
-            await ctx.prisma.user.delete({ where: { id: input.id } });
+            await ctx.prisma.$transaction(
+                async (transaction) => {
+                    const ratings = await getLockedRatings(transaction, { submittedBy: input.id });
+
+                    await updateRatingAggregates(transaction, ratings.map((rating) => ({ mapId: rating.mapId, oldRating: rating, newRating: null })));
+
+
+                    await transaction.user.delete({ where: { id: input.id } });    //the deletion cascades to the user's ratings
+                },
+                { timeout: REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS },     //a prolific rater's ratings can touch many maps and mods
+            );
 
 
             return true;
         }),
 
     adminEdits: adminProcedure
-        .input(userPostSchema)
+        .input(userAdminPatchSchema.merge(userIdSchema))
         .mutation(async ({ ctx, input }) => {
-            //TODO: implement procedure
-            //cover things like banning users or changing permissions
-            //may split into multiple procedures
+            const existingUser = await ctx.prisma.user.findUnique({
+                where: { id: input.id },
+                select: {
+                    permissions: true,
+                    accountStatus: true,
+                },
+            });
+
+            if (!existingUser) {    //check that id matches an existing user
+                throw new TRPCError({
+                    code: "NOT_FOUND",
+                    message: `No user exists with id "${input.id}"`,
+                });
+            }
+
+
+            let newPermissionsString: string | undefined;
+
+            if (input.permissions) {
+                newPermissionsString = getValidatedPermissionsString(input.permissions);    //check that every permission is valid
+
+                checkCanChangePermissions(ctx.user.permissions, existingUser.permissions, newPermissionsString);   //check that user is allowed to make this change
+            }
+
+
+            let timeDeletedOrBanned: number | null | undefined;
+
+            if (input.accountStatus && input.accountStatus !== existingUser.accountStatus) {
+                if (input.id === ctx.user.id) throw new TRPCError({
+                    code: "FORBIDDEN",
+                    message: "Admins may not change their own account status",
+                });
+
+                checkCanChangeAccountStatus(ctx.user.permissions, existingUser.permissions);  //check that user is allowed to make this change
+
+
+                timeDeletedOrBanned = input.accountStatus === "Banned" || input.accountStatus === "Deleted" ? getCurrentTime() : null;
+            }
+
+
+            const user = await ctx.prisma.user.update({
+                where: { id: input.id },
+                data: {
+                    permissions: newPermissionsString,
+                    accountStatus: input.accountStatus,
+                    timeDeletedOrBanned: timeDeletedOrBanned,
+                },
+                select: defaultFullUserSelect,
+            });
+
+
+            if (timeDeletedOrBanned) {  //the user was just banned or deleted, so revoke their sessions
+                await ctx.prisma.session.deleteMany({ where: { userId: input.id } });
+            }
+
 
-            throw "not implemented";
+            return user;
         }),
 });
\ No newline at end of file
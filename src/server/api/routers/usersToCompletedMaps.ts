@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure, loggedInProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import type { MyPrismaClient } from "~/server/prisma";
+import { Prisma, type UsersToCompletedMaps } from "@prisma/client";
+import { getCombinedSchema, getOrderObjectArray } from "~/server/api/utils/sortOrderHelpers";
+import { getNonEmptyArray } from "~/utils/getNonEmptyArray";
+import { ADMIN_PERMISSION_STRINGS, checkIsPrivileged, checkPermissions } from "../utils/permissions";
+import { getMapById, mapIdSchema_NonObject, modIdSchema_NonObject } from "./map_mod_publisher/map";
+import { getModById } from "./map_mod_publisher/mod";
+import { getUserById, userIdSchema_NonObject } from "./user";
+
+
+
+
+const defaultUsersToCompletedMapsSelect = Prisma.validator<Prisma.UsersToCompletedMapsSelect>()({
+    userId: true,
+    mapId: true,
+});
+
+
+
+
+const usersToCompletedMapsUserIdSchema = z.object({
+    userId: userIdSchema_NonObject.optional(),  //defaults to the session user. only admins may set this to a different user.
+}).strict();
+
+
+const usersToCompletedMapsPostSchema = z.object({
+    mapId: mapIdSchema_NonObject,
+}).strict().merge(usersToCompletedMapsUserIdSchema);
+
+
+const usersToCompletedMapsModPostSchema = z.object({
+    modId: modIdSchema_NonObject,
+}).strict().merge(usersToCompletedMapsUserIdSchema);
+
+
+const usersToCompletedMapsOrderSchema = getCombinedSchema(
+    getNonEmptyArray(Prisma.UsersToCompletedMapsScalarFieldEnum),
+    ["mapId"],
+    ["asc"],
+);
+
+
+
+
+const getCompletedMap = async (
+    throwOnMatch: boolean,
+    prisma: MyPrismaClient,
+    userId: string,
+    mapId: number,
+): Promise<Pick<UsersToCompletedMaps, keyof typeof defaultUsersToCompletedMapsSelect> | null> => {
+    const completedMap = await prisma.usersToCompletedMaps.findUnique({
+        where: {
+            userId_mapId: {
+                userId: userId,
+                mapId: mapId,
+            },
+        },
+        select: defaultUsersToCompletedMapsSelect,
+    });
+
+
+    if (throwOnMatch) {
+        if (completedMap) throw new TRPCError({
+            code: "FORBIDDEN",
+            message: `User "${userId}" has already completed map ${mapId}`,
+        });
+    }
+    else {
+        if (!completedMap) throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `User "${userId}" has not completed map ${mapId}`,
+        });
+    }
+
+
+    return completedMap;
+};
+
+
+
+
+export const usersToCompletedMapsRouter = createTRPCRouter({
+    getByUserId: publicProcedure
+        .input(
+            z.object({
+                userId: userIdSchema_NonObject,
+            }).strict().merge(usersToCompletedMapsOrderSchema),
+        )
+        .query(async ({ ctx, input }) => {
+            const user = await getUserById(ctx.prisma, input.userId, undefined, false);    //check that userId matches an existing user
+
+            const sessionUser = ctx.session?.user;
+
+            const isSelfOrAdmin = sessionUser !== undefined && (sessionUser.id === user.id || checkPermissions(ADMIN_PERMISSION_STRINGS, sessionUser.permissions));
+
+            if (!user.showCompletedMaps && !isSelfOrAdmin) {    //check that the user allows their completed maps to be viewed
+                throw new TRPCError({
+                    code: "FORBIDDEN",
+                    message: `User "${input.userId}" has chosen not to show their completed maps`,
+                });
+            }
+
+
+            const completedMaps = await ctx.prisma.usersToCompletedMaps.findMany({
+                where: { userId: input.userId },
+                select: defaultUsersToCompletedMapsSelect,
+                orderBy: getOrderObjectArray(input.selectors, input.directions),
+            });
+
+            return completedMaps;
+        }),
+
+    add: loggedInProcedure
+        .input(usersToCompletedMapsPostSchema)
+        .mutation(async ({ ctx, input }) => {
+            const userId = input.userId ?? ctx.user.id;
+
+            checkIsPrivileged(ADMIN_PERMISSION_STRINGS, ctx.user, userId);    //check that user has permission to mark maps as completed for this user
+
+            await getUserById(ctx.prisma, userId, undefined, false);     //check that userId matches an existing user
+            await getMapById("Map", false, false, ctx.prisma, input.mapId);  //check that mapId matches an existing map
+            await getCompletedMap(true, ctx.prisma, userId, input.mapId);    //check that the map hasn't already been marked as completed
+
+
+            const completedMap = await ctx.prisma.usersToCompletedMaps.create({
+                data: {
+                    User: { connect: { id: userId } },
+                    Map: { connect: { id: input.mapId } },
+                },
+                select: defaultUsersToCompletedMapsSelect,
+            });
+
+
+            return completedMap;
+        }),
+
+    addByModId: loggedInProcedure
+        .input(usersToCompletedMapsModPostSchema)
+        .mutation(async ({ ctx, input }) => {
+            const userId = input.userId ?? ctx.user.id;
+
+            checkIsPrivileged(ADMIN_PERMISSION_STRINGS, ctx.user, userId);    //check that user has permission to mark maps as completed for this user
+
+            await getUserById(ctx.prisma, userId, undefined, false);     //check that userId matches an existing user
+            const mod = await getModById("Mod", "mod", false, false, ctx.prisma, input.modId);  //check that modId matches an existing mod
+
+
+            await ctx.prisma.usersToCompletedMaps.createMany({
+                data: mod.Map.map(
+                    ({ id: mapId }) => ({
+                        userId: userId,
+                        mapId: mapId,
+                    }),
+                ),
+                skipDuplicates: true,   //maps that have already been marked as completed are left as they are
+            });
+
+
+            const completedMaps = await ctx.prisma.usersToCompletedMaps.findMany({
+                where: {
+                    userId: userId,
+                    Map: { modId: input.modId },
+                },
+                select: defaultUsersToCompletedMapsSelect,
+                orderBy: { mapId: "asc" },
+            });
+
+
+            return completedMaps;
+        }),
+
+    delete: loggedInProcedure
+        .input(usersToCompletedMapsPostSchema)
+        .mutation(async ({ ctx, input }) => {
+            const userId = input.userId ?? ctx.user.id;
+
+            checkIsPrivileged(ADMIN_PERMISSION_STRINGS, ctx.user, userId);    //check that user has permission to unmark maps for this user
+
+            await getCompletedMap(false, ctx.prisma, userId, input.mapId);   //check that the map has been marked as completed
+
+
+            await ctx.prisma.usersToCompletedMaps.delete({
+                where: {
+                    userId_mapId: {
+                        userId: userId,
+                        mapId: input.mapId,
+                    },
+                },
+            });
+
+
+            return true;
+        }),
+});
\ No newline at end of file
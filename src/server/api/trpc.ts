@@ -113,20 +113,37 @@ export const publicProcedure = t.procedure;
 
 //custom code begins here
 import { Permission, ADMIN_PERMISSION_STRINGS, MODLIST_MODERATOR_PERMISSION_STRINGS, MOD_REVIEWER_PERMISSION_STRINGS, checkPermissions } from "~/server/api/utils/permissions";
+import type { User_AccountStatus } from "@prisma/client";
+import { AUDITED_MUTATION_TIMEOUT_MILLISECONDS, createAuditLogEntry, getAuditAfterSnapshot, getAuditSnapshot, getAuditTarget, getJoinedTransactionClient, isAuditedPerItem, isPrivilegedMutation } from "~/server/api/utils/auditLog";
+import { PROCEDURE_RATE_LIMITS, USER_MUTATION_RATE_LIMIT, checkRateLimit } from "~/server/api/utils/rateLimit";
+
+
+const blockedAccountStatuses: readonly User_AccountStatus[] = ["Banned", "Deleted"];
 
 
 /** 
  * Reusable middleware that enforces permission levels before running the procedure. 
  * 
  * Omit `permissions` to simply enforce users are logged in
+ * 
+ * Banned and deleted users are blocked from all mutations, and their sessions are revoked.
 */
 const enforcePermissions = (validPermissionsArray?: readonly Permission[]) => {
   return t.middleware(
-    async ({ ctx: oldCtx, next }) => {
+    async ({ ctx: oldCtx, next, type }) => {
       if (!oldCtx.session || !oldCtx.session.user) {
         throw new TRPCError({ code: "UNAUTHORIZED" });
       }
 
+      if (type === "mutation" && blockedAccountStatuses.includes(oldCtx.session.user.accountStatus)) {
+        await oldCtx.prisma.session.deleteMany({ where: { userId: oldCtx.session.user.id } });
+
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `This account is ${oldCtx.session.user.accountStatus.toLowerCase()}.`,
+        });
+      }
+
       if (validPermissionsArray) {
         const userPermissionsArray = oldCtx.session.user.permissions;
 
@@ -145,6 +162,91 @@ const enforcePermissions = (validPermissionsArray?: readonly Permission[]) => {
     });
 };
 
+/**
+ * Limits how often each user can call mutations, both overall and per procedure.
+ * Attempts count towards the budgets even if they fail.
+ */
+const enforceRateLimits = t.middleware(
+  async ({ ctx, next, path, type }) => {
+    const userId = ctx.session?.user.id;
+
+    if (type !== "mutation" || !userId) return next();
+
+
+    await checkRateLimit(`user:${userId}`, USER_MUTATION_RATE_LIMIT);
+
+    const procedureRateLimit = PROCEDURE_RATE_LIMITS[path];
+
+    if (procedureRateLimit) await checkRateLimit(`procedure:${path}:${userId}`, procedureRateLimit);
+
+
+    return next();
+  });
+
+/**
+ * Reusable middleware that writes an audit log entry for successful mutations.
+ * The mutation and its audit log entry run in one transaction, so a change can't be committed without its entry.
+ * Failed mutations aren't logged, as they are rolled back.
+ *
+ * Omit `isAudited` to audit every mutation
+ */
+const getAuditMiddleware = (isAudited?: (path: string, session: Session | null, rawInput: unknown) => boolean) => {
+  return t.middleware(
+    async ({ ctx, next, path, type, rawInput }) => {
+      if (type !== "mutation" || isAuditedPerItem(path) || (isAudited && !isAudited(path, ctx.session, rawInput))) return next();
+
+
+      let failedResult: Awaited<ReturnType<typeof next>> | undefined;
+
+      try {
+        return await ctx.prisma.$transaction(
+          async (transaction) => {
+            const target = getAuditTarget(path, rawInput);
+
+            const before = target?.id ? await getAuditSnapshot(transaction, target.tableName, target.id) : null;
+
+
+            const result = await next({
+              ctx: { prisma: getJoinedTransactionClient(transaction) },
+            });
+
+            if (!result.ok) {
+              failedResult = result;
+
+              throw result.error;   //roll back anything the mutation wrote before it failed
+            }
+
+
+            const { target: afterTarget, after } = await getAuditAfterSnapshot(transaction, target, result.data);
+
+            await createAuditLogEntry(transaction, {
+              actorId: ctx.session?.user.id ?? null,
+              action: path,
+              target: afterTarget,
+              input: rawInput,
+              before,
+              after,
+            });
+
+
+            return result;
+          },
+          { timeout: AUDITED_MUTATION_TIMEOUT_MILLISECONDS },
+        );
+      }
+      catch (error) {
+        if (failedResult) return failedResult;
+
+        throw error;
+      }
+    });
+};
+
+const auditMutations = getAuditMiddleware();
+
+/** Audits the loggedInProcedure mutations that a user made using their privileges, rather than on their own data. */
+const auditPrivilegedMutations = getAuditMiddleware((path, session, rawInput) => isPrivilegedMutation(path, session?.user, rawInput));
+
 /**
  * Protected (authenticated) procedure
  *
@@ -153,12 +255,12 @@ const enforcePermissions = (validPermissionsArray?: readonly Permission[]) => {
  *
  * @see https://trpc.io/docs/procedures
  */
-export const loggedInProcedure = t.procedure.use(enforcePermissions());
+export const loggedInProcedure = t.procedure.use(enforcePermissions()).use(enforceRateLimits).use(auditPrivilegedMutations);
 
-export const superAdminProcedure = t.procedure.use(enforcePermissions(["Super_Admin"] as const));
+export const superAdminProcedure = t.procedure.use(enforcePermissions(["Super_Admin"] as const)).use(enforceRateLimits).use(auditMutations);
 
-export const adminProcedure = t.procedure.use(enforcePermissions(ADMIN_PERMISSION_STRINGS));
+export const adminProcedure = t.procedure.use(enforcePermissions(ADMIN_PERMISSION_STRINGS)).use(enforceRateLimits).use(auditMutations);
 
-export const modlistModeratorProcedure = t.procedure.use(enforcePermissions(MODLIST_MODERATOR_PERMISSION_STRINGS));
+export const modlistModeratorProcedure = t.procedure.use(enforcePermissions(MODLIST_MODERATOR_PERMISSION_STRINGS)).use(enforceRateLimits).use(auditMutations);
 
-export const modReviewerProcedure = t.procedure.use(enforcePermissions(MOD_REVIEWER_PERMISSION_STRINGS));
\ No newline at end of file
+export const modReviewerProcedure = t.procedure.use(enforcePermissions(MOD_REVIEWER_PERMISSION_STRINGS)).use(enforceRateLimits);
\ No newline at end of file
@@ -0,0 +1,276 @@
+import { type Prisma, ModerationItemType } from "@prisma/client";
+import type { MyPrismaClient, MyPrismaClientOrTransaction } from "~/server/prisma";
+import { getCurrentTime } from "./getCurrentTime";
+import { type Permission, MODLIST_MODERATOR_PERMISSION_STRINGS, checkPermissions } from "./permissions";
+
+
+
+
+/**
+ * Audited mutations run in a single transaction with their audit log entry.
+ * This is longer than any timeout a procedure sets on its own transactions, as those now run inside this one.
+ */
+export const AUDITED_MUTATION_TIMEOUT_MILLISECONDS = 2 * 60 * 1000;
+
+
+
+
+export type AuditTargetTableName = Extract<
+    Prisma.ModelName,
+    "Difficulty" | "Length" | "Quality" | "Tag" | "Tech" | "TechVideo" | "MapReview" | "Publisher" | "PublisherClaim" | "User" |
+    "Mod" | "Mod_New" | "Mod_Edit" | "Mod_Archive" | "Map" | "Map_NewSolo" | "Map_NewWithMod_New" | "Map_Edit" | "Map_Archive"
+>;
+
+
+export type AuditTarget = {
+    tableName: AuditTargetTableName;
+    /** string for users, number for everything else. null when the id isn't known until after the mutation (ie. `add` procedures). */
+    id: number | string | null;
+};
+
+
+type AuditActor = {
+    id: string;
+    permissions: Permission[];
+};
+
+
+/** The table each router's procedures act on, unless overridden in `procedureTableNames`. Keyed by router path. */
+const routerTableNames: Record<string, AuditTargetTableName> = {
+    difficulty: "Difficulty",
+    length: "Length",
+    quality: "Quality",
+    tag: "Tag",
+    tech: "Tech",
+    "tech.techVideo": "TechVideo",
+    mapReview: "MapReview",
+    publisher: "Publisher",
+    user: "User",
+    mod: "Mod",
+    map: "Map",
+};
+
+
+/** Procedures whose `id` input refers to a different table than the rest of their router. Keyed by procedure path. */
+const procedureTableNames: Record<string, AuditTargetTableName> = {
+    "mod.approveNew": "Mod_New",
+    "mod.rejectNew": "Mod_New",
+    "mod.approveEdit": "Mod_Edit",
+    "mod.rejectEdit": "Mod_Edit",
+    "mod.restore": "Mod_Archive",
+    "mod.deleteArchiveMod": "Mod_Archive",
+    "map.approveNewSolo": "Map_NewSolo",
+    "map.rejectNewSolo": "Map_NewSolo",
+    "map.approveEdit": "Map_Edit",
+    "map.rejectEdit": "Map_Edit",
+    "map.restore": "Map_Archive",
+    "map.deleteArchiveMap": "Map_Archive",
+    "publisher.approveClaim": "PublisherClaim",
+    "publisher.rejectClaim": "PublisherClaim",
+};
+
+
+/** Procedures that write their own audit log entry for each item they act on, inside that item's transaction. Keyed by procedure path. */
+const perItemAuditedProcedurePaths: readonly string[] = ["moderation.approveMany", "moderation.rejectMany"];
+
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);
+
+
+const getIdFromObject = (value: unknown): number | string | null => {
+    if (!isRecord(value)) return null;
+
+    const id = value.id;
+
+    return typeof id === "number" || typeof id === "string" ? id : null;
+};
+
+
+/**
+ * loggedInProcedure mutations that are only audited when the actor uses privileges on them. Keyed by procedure path.
+ * Users acting on their own account aren't audited. Mod and map updates are audited when a moderator's update is applied without review.
+ */
+const privilegedMutationChecks: Record<string, (actor: AuditActor, rawInput: unknown) => boolean> = {
+    "user.edit": (actor, rawInput) => getIdFromObject(rawInput) !== actor.id,
+    "user.delete": (actor, rawInput) => getIdFromObject(rawInput) !== actor.id,
+    "mod.update": (actor) => checkPermissions(MODLIST_MODERATOR_PERMISSION_STRINGS, actor.permissions),
+    "map.update": (actor) => checkPermissions(MODLIST_MODERATOR_PERMISSION_STRINGS, actor.permissions),
+};
+
+
+
+
+/** Returns true if a loggedInProcedure mutation was made using privileges the actor wouldn't need for their own data. */
+export const isPrivilegedMutation = (path: string, actor: AuditActor | undefined, rawInput: unknown): boolean => {
+    const privilegedMutationCheck = privilegedMutationChecks[path];
+
+    if (!privilegedMutationCheck || !actor) return false;
+
+
+    return privilegedMutationCheck(actor, rawInput);
+};
+
+
+/** Returns true if the procedure audits each item it acts on itself, so the audit middleware should leave it alone. */
+export const isAuditedPerItem = (path: string): boolean => perItemAuditedProcedurePaths.includes(path);
+
+
+/**
+ * Works out which row a mutation acts on from its path and raw input.
+ * Returns null for mutations that don't act on a single row (ie. bulk moderation actions).
+ */
+export const getAuditTarget = (path: string, rawInput: unknown): AuditTarget | null => {
+    const moderationItemType = isRecord(rawInput) ? rawInput.itemType : undefined;
+
+    if (path.startsWith("moderation.") && typeof moderationItemType === "string" && moderationItemType in ModerationItemType) {
+        return {
+            tableName: moderationItemType as ModerationItemType,    //moderation item types are named after the table they refer to
+            id: getIdFromObject(rawInput),
+        };
+    }
+
+
+    const routerPath = path.slice(0, path.lastIndexOf("."));
+
+    const tableName = procedureTableNames[path] ?? routerTableNames[routerPath];
+
+    if (!tableName) return null;
+
+
+    return {
+        tableName,
+        id: getIdFromObject(rawInput),
+    };
+};
+
+
+/** Returns the target row as it is currently stored, or null if it doesn't exist. */
+export const getAuditSnapshot = async (prisma: MyPrismaClientOrTransaction, tableName: AuditTargetTableName, id: number | string): Promise<unknown> => {
+    if (tableName === "User") {
+        return await prisma.user.findUnique({
+            where: { id: String(id) },
+            select: {
+                id: true,
+                name: true,
+                permissions: true,
+                accountStatus: true,
+                timeDeletedOrBanned: true,
+            },
+        });
+    }
+
+
+    const numberId = Number(id);
+
+    if (!Number.isInteger(numberId)) return null;
+
+    const where = { id: numberId };
+
+
+    switch (tableName) {
+        case "Difficulty": return await prisma.difficulty.findUnique({ where });
+        case "Length": return await prisma.length.findUnique({ where });
+        case "Quality": return await prisma.quality.findUnique({ where });
+        case "Tag": return await prisma.tag.findUnique({ where });
+        case "Tech": return await prisma.tech.findUnique({ where });
+        case "TechVideo": return await prisma.techVideo.findUnique({ where });
+        case "MapReview": return await prisma.mapReview.findUnique({ where });
+        case "Publisher": return await prisma.publisher.findUnique({ where });
+        case "PublisherClaim": return await prisma.publisherClaim.findUnique({ where, select: { id: true, publisherId: true, userId: true, method: true, timeCreated: true } });  //don't log tokens
+        case "Mod": return await prisma.mod.findUnique({ where, include: { ModToTags: true } });
+        case "Mod_New": return await prisma.mod_New.findUnique({ where, include: { Mod_NewToTags: true } });
+        case "Mod_Edit": return await prisma.mod_Edit.findUnique({ where, include: { Mod_EditToTags: true } });
+        case "Mod_Archive": return await prisma.mod_Archive.findUnique({ where, include: { Mod_ArchiveToTags: true } });
+        case "Map": return await prisma.map.findUnique({ where, include: { MapToTechs: true } });
+        case "Map_NewSolo": return await prisma.map_NewSolo.findUnique({ where, include: { Map_NewSoloToTechs: true } });
+        case "Map_NewWithMod_New": return await prisma.map_NewWithMod_New.findUnique({ where, include: { Map_NewWithMod_NewToTechs: true } });
+        case "Map_Edit": return await prisma.map_Edit.findUnique({ where, include: { Map_EditToTechs: true } });
+        case "Map_Archive": return await prisma.map_Archive.findUnique({ where, include: { Map_ArchiveToTechs: true } });
+    }
+};
+
+
+/** Converts a value to something that can be stored in a Json column. null and undefined are stored as SQL NULL. */
+const toAuditJson = (value: unknown): Prisma.InputJsonValue | undefined => {
+    if (value === null || value === undefined) return undefined;
+
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+};
+
+
+
+
+type AuditLogEntryData = {
+    actorId: string | null;
+    action: string;
+    target: AuditTarget | null;
+    input: unknown;
+    before: unknown;
+    after: unknown;
+};
+
+
+/** The audit log is append-only. Nothing should ever update or delete its rows. */
+export const createAuditLogEntry = async (prisma: MyPrismaClientOrTransaction, data: AuditLogEntryData) => {
+    await prisma.auditLogEntry.create({
+        data: {
+            actorId: data.actorId,
+            action: data.action,
+            targetTable: data.target?.tableName,
+            targetId: data.target?.id === null || data.target?.id === undefined ? undefined : String(data.target.id),
+            input: toAuditJson(data.input),
+            before: toAuditJson(data.before),
+            after: toAuditJson(data.after),
+            timeCreated: getCurrentTime(),
+        },
+    });
+};
+
+
+/**
+ * Returns the `after` snapshot for a successful mutation.
+ * This is the target row as it is now stored. If the mutation removed the target row (ie. approving a Mod_New), the procedure's result is used instead.
+ */
+export const getAuditAfterSnapshot = async (prisma: MyPrismaClientOrTransaction, target: AuditTarget | null, result: unknown): Promise<{ target: AuditTarget | null; after: unknown; }> => {
+    if (!target) return { target, after: isRecord(result) || Array.isArray(result) ? result : null };
+
+
+    const targetWithId: AuditTarget = target.id === null ? { ...target, id: getIdFromObject(result) } : target;     //`add` procedures return the new row
+
+    const snapshot = targetWithId.id === null ? null : await getAuditSnapshot(prisma, targetWithId.tableName, targetWithId.id);
+
+
+    return {
+        target: targetWithId,
+        after: snapshot ?? (isRecord(result) ? result : null),
+    };
+};
+
+
+/**
+ * Returns `transaction` as a full client, so it can be passed to procedures in place of `ctx.prisma`.
+ * The procedures' own `$transaction` calls run inside `transaction` instead of starting a new one,
+ * so everything they write commits or rolls back together with the audit log entry.
+ */
+export const getJoinedTransactionClient = (transaction: Prisma.TransactionClient): MyPrismaClient => {
+    const joinedTransactionClient: unknown = new Proxy(transaction, {
+        get: (target, propertyName) => {
+            if (propertyName !== "$transaction") return Reflect.get(target, propertyName) as unknown;
+
+
+            return async (queries: ((transaction: unknown) => Promise<unknown>) | Promise<unknown>[]) => {
+                if (typeof queries === "function") return await queries(joinedTransactionClient);
+
+
+                const results: unknown[] = [];
+
+                for (const query of queries) results.push(await query);     //batch queries run in order, like they would in their own transaction
+
+                return results;
+            };
+        },
+    });
+
+
+    return joinedTransactionClient as MyPrismaClient;
+};
\ No newline at end of file
@@ -0,0 +1,76 @@
+type DiffValue = string | number | boolean | null;
+
+
+export type FieldDiff = {
+    field: string;
+    oldValue: DiffValue;
+    newValue: DiffValue;
+};
+
+
+type RelationEntry = {
+    id: number;
+    name: string;
+    /** only used for techs */
+    fullClearOnlyBool?: boolean;
+};
+
+
+export type RelationDiff = {
+    added: RelationEntry[];
+    removed: RelationEntry[];
+    /** entries that exist on both sides but whose `fullClearOnlyBool` changed. the value shown is the new one. */
+    changed: RelationEntry[];
+};
+
+
+
+
+/** Returns a FieldDiff for each field whose value differs between `live` and `edit`. Unchanged fields are omitted. */
+export const getFieldDiffs = <FieldName extends string>(
+    live: Record<FieldName, DiffValue>,
+    edit: Record<FieldName, DiffValue>,
+    fieldNames: readonly FieldName[],
+): FieldDiff[] => {
+    const fieldDiffs: FieldDiff[] = [];
+
+    for (const fieldName of fieldNames) {
+        const oldValue: DiffValue = live[fieldName];
+        const newValue: DiffValue = edit[fieldName];
+
+        if (oldValue === newValue) continue;
+
+
+        fieldDiffs.push({
+            field: fieldName,
+            oldValue,
+            newValue,
+        });
+    }
+
+
+    return fieldDiffs;
+};
+
+
+/** Compares two sets of connections (ie. MapToTechs and Map_EditToTechs) by id. */
+export const getRelationDiff = (liveEntries: RelationEntry[], editEntries: RelationEntry[]): RelationDiff => {
+    const liveEntriesById = new Map(liveEntries.map((entry) => [entry.id, entry]));
+    const editEntriesById = new Map(editEntries.map((entry) => [entry.id, entry]));
+
+
+    const added = editEntries.filter((entry) => !liveEntriesById.has(entry.id));
+
+    const removed = liveEntries.filter((entry) => !editEntriesById.has(entry.id));
+
+    const changed = editEntries.filter(
+        (entry) => {
+            const liveEntry = liveEntriesById.get(entry.id);
+
+            return liveEntry !== undefined && liveEntry.fullClearOnlyBool !== entry.fullClearOnlyBool;
+        },
+    );
+
+
+    return { added, removed, changed };
+};
\ No newline at end of file
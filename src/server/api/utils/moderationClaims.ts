@@ -0,0 +1,160 @@
+import { TRPCError } from "@trpc/server";
+import { Prisma, type ModerationClaim, type ModerationItemType } from "@prisma/client";
+import type { MyPrismaClientOrTransaction } from "~/server/prisma";
+import { getCurrentTime } from "./getCurrentTime";
+
+
+
+
+/** Claims older than this are treated as released, so an abandoned claim can't block an item forever. */
+const MODERATION_CLAIM_DURATION_SECONDS = 30 * 60;
+
+
+
+
+export const defaultModerationClaimSelect = Prisma.validator<Prisma.ModerationClaimSelect>()({
+    itemType: true,
+    itemId: true,
+    claimedBy: true,
+    timeClaimed: true,
+    User: { select: { name: true } },
+});
+
+
+export type TrimmedModerationClaim = Prisma.ModerationClaimGetPayload<{ select: typeof defaultModerationClaimSelect; }>;
+
+
+export type ModerationItem = {
+    itemType: ModerationItemType;
+    id: number;
+};
+
+
+
+
+export const isClaimActive = (claim: Pick<ModerationClaim, "timeClaimed">, currentTime: number): boolean => {
+    return currentTime - claim.timeClaimed < MODERATION_CLAIM_DURATION_SECONDS;
+};
+
+
+export const getActiveClaim = async (prisma: MyPrismaClientOrTransaction, item: ModerationItem): Promise<TrimmedModerationClaim | null> => {
+    const claim = await prisma.moderationClaim.findUnique({
+        where: {
+            itemType_itemId: {
+                itemType: item.itemType,
+                itemId: item.id,
+            },
+        },
+        select: defaultModerationClaimSelect,
+    });
+
+
+    if (!claim || !isClaimActive(claim, getCurrentTime())) return null;
+
+    return claim;
+};
+
+
+/** Throws if another user holds an active claim on the item. */
+export const checkIsNotClaimedByOtherUser = async (prisma: MyPrismaClientOrTransaction, item: ModerationItem, userId: string): Promise<void> => {
+    const claim = await getActiveClaim(prisma, item);
+
+    if (claim && claim.claimedBy !== userId) throw new TRPCError({
+        code: "CONFLICT",
+        message: `${item.itemType} ${item.id} has been claimed by ${claim.User.name}`,
+    });
+};
+
+
+/**
+ * Claims the item for the user, replacing an expired claim or refreshing the user's own claim.
+ * The claim is taken with a single conditional write, so two moderators can't both claim the same item.
+ * Throws CONFLICT if another user holds an active claim on the item.
+ */
+export const claimItem = async (prisma: MyPrismaClientOrTransaction, item: ModerationItem, userId: string): Promise<TrimmedModerationClaim> => {
+    const currentTime = getCurrentTime();
+
+
+    const updatedClaims = await prisma.moderationClaim.updateMany({
+        where: {
+            itemType: item.itemType,
+            itemId: item.id,
+            OR: [
+                { claimedBy: userId },
+                { timeClaimed: { lte: currentTime - MODERATION_CLAIM_DURATION_SECONDS } },
+            ],
+        },
+        data: {
+            claimedBy: userId,
+            timeClaimed: currentTime,
+        },
+    });
+
+
+    if (updatedClaims.count === 0) {
+        try {
+            await prisma.moderationClaim.create({
+                data: {
+                    itemType: item.itemType,
+                    itemId: item.id,
+                    User: { connect: { id: userId } },
+                    timeClaimed: currentTime,
+                },
+            });
+        } catch (error) {
+            //the item already has a claim that the update didn't match, so another user holds an active claim on it
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+                await checkIsNotClaimedByOtherUser(prisma, item, userId);
+
+                throw new TRPCError({
+                    code: "CONFLICT",
+                    message: `${item.itemType} ${item.id} has been claimed by another user`,
+                });
+            }
+
+            throw error;
+        }
+    }
+
+
+    const claim = await getActiveClaim(prisma, item);
+
+    if (!claim || claim.claimedBy !== userId) throw new TRPCError({
+        code: "CONFLICT",
+        message: `${item.itemType} ${item.id} has been claimed by another user`,
+    });
+
+
+    return claim;
+};
+
+
+export const deleteClaim = async (prisma: MyPrismaClientOrTransaction, item: ModerationItem): Promise<void> => {
+    await prisma.moderationClaim.deleteMany({
+        where: {
+            itemType: item.itemType,
+            itemId: item.id,
+        },
+    });
+};
+
+
+/**
+ * Runs `action` on the item unless another user holds an active claim on it, then releases any claim on the item.
+ * Call this inside the same transaction as the action, so that the claim can't change in between.
+ */
+export const runModerationAction = async <Result>(
+    prisma: MyPrismaClientOrTransaction,
+    item: ModerationItem,
+    userId: string,
+    action: () => Promise<Result>,
+): Promise<Result> => {
+    await checkIsNotClaimedByOtherUser(prisma, item, userId);
+
+    const result = await action();
+
+    await deleteClaim(prisma, item);
+
+
+    return result;
+};
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { TRPCError } from "@trpc/server";
+import { Prisma } from "@prisma/client";
+import { type MyPrismaClient, prisma } from "~/server/prisma";
+import { getCurrentTime } from "./getCurrentTime";
+
+
+
+
+export type RateLimit = {
+    maxRequests: number;
+    windowSeconds: number;
+};
+
+
+/** Budget for each procedure, per user. Procedures that aren't listed here are only limited by `USER_MUTATION_RATE_LIMIT`. */
+export const PROCEDURE_RATE_LIMITS: Record<string, RateLimit> = {
+    "mod.add": { maxRequests: 10, windowSeconds: 60 * 60 },     //calls the GameBanana API on every attempt
+    "map.addSolo": { maxRequests: 30, windowSeconds: 60 * 60 },
+    "rating.add": { maxRequests: 60, windowSeconds: 60 * 60 },
+    "publisher.claimPublisher": { maxRequests: 5, windowSeconds: 60 * 60 },
+    "publisher.verifyClaimToken": { maxRequests: 10, windowSeconds: 60 * 60 },    //calls the GameBanana API on every attempt
+    "publisher.syncNamesFromGamebanana": { maxRequests: 2, windowSeconds: 60 * 60 },  //calls the GameBanana API once per publisher
+};
+
+
+/** Budget for all mutations combined, per user. */
+export const USER_MUTATION_RATE_LIMIT: RateLimit = { maxRequests: 120, windowSeconds: 60 };
+
+
+
+
+type RateLimitWindow = {
+    count: number;
+    /** unix time in milliseconds */
+    resetTime: number;
+};
+
+
+/**
+ * Counts requests in fixed windows.
+ * The in-memory store only sees requests handled by its own instance, so deployments with more than one instance should use the database store.
+ * Set RATE_LIMIT_STORE to "database" to use it, or pass another shared store (ie. Redis) to `setRateLimitStore`.
+ */
+export type RateLimitStore = {
+    /** Adds a request to `key`'s current window, starting a new window if the previous one has ended, and returns the updated window. */
+    increment: (key: string, windowSeconds: number) => Promise<RateLimitWindow>;
+};
+
+
+export const createInMemoryRateLimitStore = (): RateLimitStore => {
+    const windows = new Map<string, RateLimitWindow>();
+
+
+    const deleteExpiredWindows = (currentTime: number) => {
+        for (const [key, window] of windows) {
+            if (window.resetTime <= currentTime) windows.delete(key);
+        }
+    };
+
+
+    return {
+        increment: (key, windowSeconds) => {
+            const currentTime = Date.now();
+
+            const existingWindow = windows.get(key);
+
+            if (existingWindow && existingWindow.resetTime > currentTime) {
+                existingWindow.count++;
+
+                return Promise.resolve(existingWindow);
+            }
+
+
+            deleteExpiredWindows(currentTime);     //only runs when a window is started, so expired keys can't pile up
+
+            const newWindow: RateLimitWindow = {
+                count: 1,
+                resetTime: currentTime + windowSeconds * 1000,
+            };
+
+            windows.set(key, newWindow);
+
+
+            return Promise.resolve(newWindow);
+        },
+    };
+};
+
+
+/** Shares windows between instances through the rate-limit-window table. Windows are counted in whole seconds. */
+export const createPrismaRateLimitStore = (prisma: MyPrismaClient): RateLimitStore => {
+    const getWindow = async (key: string): Promise<RateLimitWindow | null> => {
+        const window = await prisma.rateLimitWindow.findUnique({
+            where: { key },
+            select: { count: true, resetTime: true },
+        });
+
+        return window && { count: window.count, resetTime: window.resetTime * 1000 };
+    };
+
+
+    return {
+        increment: async (key, windowSeconds) => {
+            for (; ;) {
+                const currentTime = getCurrentTime();
+
+
+                const incrementedWindows = await prisma.rateLimitWindow.updateMany({     //atomic, so concurrent requests can't overwrite each other's counts
+                    where: { key, resetTime: { gt: currentTime } },
+                    data: { count: { increment: 1 } },
+                });
+
+                if (incrementedWindows.count === 1) {
+                    const window = await getWindow(key);
+
+                    if (window) return window;
+
+                    continue;   //the window was deleted in between
+                }
+
+
+                await prisma.rateLimitWindow.deleteMany({ where: { resetTime: { lte: currentTime } } });   //only runs when a window is started, so expired keys can't pile up
+
+                const newWindow: RateLimitWindow = {
+                    count: 1,
+                    resetTime: (currentTime + windowSeconds) * 1000,
+                };
+
+
+                try {
+                    await prisma.rateLimitWindow.create({
+                        data: { key, count: newWindow.count, resetTime: currentTime + windowSeconds },
+                    });
+
+                    return newWindow;
+                }
+                catch (error) {
+                    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") continue;     //another request started the window first
+
+                    throw error;
+                }
+            }
+        },
+    };
+};
+
+
+const getDefaultRateLimitStore = (): RateLimitStore => {
+    return process.env.RATE_LIMIT_STORE === "database" ? createPrismaRateLimitStore(prisma) : createInMemoryRateLimitStore();
+};
+
+
+let rateLimitStore: RateLimitStore = getDefaultRateLimitStore();
+
+
+export const setRateLimitStore = (store: RateLimitStore) => {
+    rateLimitStore = store;
+};
+
+
+
+
+/** Counts the request against `key`'s budget, and throws TOO_MANY_REQUESTS once the budget has been used up. */
+export const checkRateLimit = async (key: string, rateLimit: RateLimit): Promise<void> => {
+    const window = await rateLimitStore.increment(key, rateLimit.windowSeconds);
+
+    if (window.count <= rateLimit.maxRequests) return;
+
+
+    const secondsUntilReset = Math.max(1, Math.ceil((window.resetTime - Date.now()) / 1000));
+
+    throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: `Too many requests. Please try again in ${secondsUntilReset} seconds.`,
+    });
+};
\ No newline at end of file
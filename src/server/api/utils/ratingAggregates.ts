@@ -0,0 +1,712 @@
+import { TRPCError } from "@trpc/server";
+import { Prisma, type Rating } from "@prisma/client";
+import type { MyPrismaClient } from "~/server/prisma";
+import type { RatingsInfo } from "../routers/rating";
+import { getCurrentTime } from "./getCurrentTime";
+import { serverLogger as logger } from "~/logger/serverLogger";
+import { BAYESIAN_PRIOR_WEIGHT, DEFAULT_QUALITY_SCORING_MODE, MINIMUM_QUALITY_RATINGS, type QualityScoringMode } from "~/consts/qualityScoring";
+
+
+
+
+type PrismaClientOrTransaction = MyPrismaClient | Prisma.TransactionClient;
+
+
+/** rebuilding touches every map and mod, so it needs longer than the default interactive transaction timeout */
+export const REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS = 60 * 1000;
+
+
+type ValuesMap = Map<number, number>;  //Map with IDs as the keys and "values" as the values
+
+export type ValuesMaps = {
+    qualityValuesMap: ValuesMap;
+    difficultyValuesMap: ValuesMap;
+};
+
+
+export type RatingForRatingSums = Pick<Rating, "id" | "qualityId" | "difficultyId">;
+
+export type QualityScoring = {
+    mode: QualityScoringMode;
+    /** the average quality value across every rating. only used in "bayesian" mode. */
+    priorMean: number;
+    priorWeight: number;
+    minimumRatings: number;
+    qualityValuesMap: ValuesMap;
+};
+
+
+type RatingSums = {
+    overallCount: number;
+    qualityCount: number;
+    qualitySum: number;
+    difficultyCount: number;
+    difficultySum: number;
+};
+
+
+type RatingAggregateData = RatingSums & {
+    averageQualityId: number | null;
+    averageDifficultyId: number | null;
+    timeUpdated: number;
+};
+
+
+
+
+const getDifficultyValuesMap = async (prisma: PrismaClientOrTransaction): Promise<ValuesMap> => {
+    const parentDifficulties = await prisma.difficulty.findMany({
+        where: { parentDifficultyId: 0 },
+        orderBy: { order: "asc" },
+        include: { ChildDifficulty: true },
+    });
+
+    if (!parentDifficulties.length) throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "No parent difficulties exist. Please contact an admin.",
+    });
+
+    let difficultyValue = 0;
+
+    const difficultyValuesMap: ValuesMap = new Map();
+
+    for (const parentDifficulty of parentDifficulties) {
+        //the +1 means the last child will not reach the next whole number value. this is intentional to add greater weight to going up a difficulty tier.
+        const valueIncrement = 1 / (parentDifficulty.ChildDifficulty.length + 1);
+
+
+        for (const childDifficulty of parentDifficulty.ChildDifficulty) {
+            difficultyValue += valueIncrement;
+
+            difficultyValuesMap.set(childDifficulty.id, difficultyValue);
+        }
+
+
+        difficultyValue = Math.ceil(difficultyValue);  //round up to the next whole number
+    }
+
+
+    return difficultyValuesMap;
+};
+
+
+const getQualityValuesMap = async (prisma: PrismaClientOrTransaction): Promise<ValuesMap> => {
+    const qualities = await prisma.quality.findMany({
+        orderBy: { order: "asc" },
+    });
+
+    if (!qualities.length) throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "No qualities exist. Please contact an admin.",
+    });
+
+
+    let qualityValue = 0;
+    const VALUE_INCREMENT = 1;
+
+    const qualityValuesMap: ValuesMap = new Map();
+
+    for (const quality of qualities) {
+        if (quality.order - 1 !== qualityValue) console.warn(`Quality "${quality.id}" has order "${quality.order}" but should have order "${qualityValue}".`);
+
+        qualityValuesMap.set(quality.id, qualityValue);
+
+        qualityValue += VALUE_INCREMENT;
+    }
+
+
+    return qualityValuesMap;
+};
+
+
+const getAverageId = (valuesMap: ValuesMap, averageValue: number): number => {
+    let lowerBoundValue = -Infinity;
+    let lowerBoundID = -Infinity;
+    let upperBoundValue = Infinity;
+    let upperBoundID = -Infinity;
+
+    for (const [id, value] of valuesMap.entries()) {
+
+        if (value === averageValue) return id;
+
+        if (value < averageValue) {
+            if (value > lowerBoundValue) {
+                lowerBoundValue = value;
+                lowerBoundID = id;
+            }
+        }
+        else {  //if this block is reached, value must be greater than averageValue
+            if (value < upperBoundValue) {
+                upperBoundValue = value;
+                upperBoundID = id;
+            }
+        }
+    }
+
+
+    const lowerBoundDifference = averageValue - lowerBoundValue;
+    const upperBoundDifference = upperBoundValue - averageValue;
+
+
+    let averageId;
+
+    if (upperBoundDifference <= lowerBoundDifference) averageId = upperBoundID;
+    else averageId = lowerBoundID;
+
+
+    return averageId;
+};
+
+
+export const getValuesMaps = async (prisma: PrismaClientOrTransaction): Promise<ValuesMaps> => {
+    const [qualityValuesMap, difficultyValuesMap] = await Promise.all([
+        getQualityValuesMap(prisma),
+        getDifficultyValuesMap(prisma),
+    ]);
+
+    return {
+        qualityValuesMap,
+        difficultyValuesMap,
+    };
+};
+
+
+
+
+/** Returns true if any ratings aren't counted in the stored aggregates, ie. before the aggregates were first built. */
+const hasUnaggregatedRatings = async (prisma: PrismaClientOrTransaction): Promise<boolean> => {
+    const [unaggregatedMapRating, unaggregatedModRating] = await Promise.all([
+        prisma.rating.findFirst({
+            where: { Map: { MapRatingAggregate: { is: null } } },
+            select: { id: true },
+        }),
+        prisma.rating.findFirst({
+            where: { Map: { Mod: { ModRatingAggregate: { is: null } } } },
+            select: { id: true },
+        }),
+    ]);
+
+
+    return !!unaggregatedMapRating || !!unaggregatedModRating;
+};
+
+
+/** Sums the quality values of every rating, using the stored aggregates unless some ratings aren't counted in them yet. */
+const getGlobalQualitySums = async (prisma: PrismaClientOrTransaction, qualityValuesMap: ValuesMap): Promise<{ qualityCount: number; qualitySum: number; }> => {
+    if (!await hasUnaggregatedRatings(prisma)) {
+        const globalSums = await prisma.mapRatingAggregate.aggregate({
+            _sum: {
+                qualityCount: true,
+                qualitySum: true,
+            },
+        });
+
+
+        return {
+            qualityCount: globalSums._sum.qualityCount ?? 0,
+            qualitySum: globalSums._sum.qualitySum ?? 0,
+        };
+    }
+
+
+    const qualityCounts = await prisma.rating.groupBy({
+        by: ["qualityId"],
+        where: { qualityId: { not: null } },
+        _count: { _all: true },
+    });
+
+
+    let qualityCount = 0;
+    let qualitySum = 0;
+
+    for (const { qualityId, _count } of qualityCounts) {
+        qualityCount += _count._all;
+        qualitySum += (qualityValuesMap.get(qualityId ?? -1) ?? 0) * _count._all;
+    }
+
+
+    return { qualityCount, qualitySum };
+};
+
+
+export const getQualityScoring = async (
+    prisma: PrismaClientOrTransaction,
+    mode: QualityScoringMode = DEFAULT_QUALITY_SCORING_MODE,
+): Promise<QualityScoring> => {
+    const qualityValuesMap = await getQualityValuesMap(prisma);
+
+    const globalSums = await getGlobalQualitySums(prisma, qualityValuesMap);
+
+
+    const priorMean = globalSums.qualityCount ? globalSums.qualitySum / globalSums.qualityCount : 0;
+
+
+    return {
+        mode,
+        priorMean,
+        priorWeight: BAYESIAN_PRIOR_WEIGHT,
+        minimumRatings: MINIMUM_QUALITY_RATINGS,
+        qualityValuesMap,
+    };
+};
+
+
+const getAdjustedQualityValue = (qualitySum: number, qualityCount: number, qualityScoring: QualityScoring): number | undefined => {
+    if (!qualityCount) return undefined;
+
+
+    if (qualityScoring.mode === "mean") return qualitySum / qualityCount;
+
+
+    const { priorMean, priorWeight } = qualityScoring;
+
+    return (priorMean * priorWeight + qualitySum) / (priorWeight + qualityCount);
+};
+
+
+
+
+export const getRatingSums = (ratings: RatingForRatingSums[], valuesMaps: ValuesMaps): RatingSums => {
+    const { qualityValuesMap, difficultyValuesMap } = valuesMaps;
+
+
+    let qualityCount = 0;
+    let qualitySum = 0;
+    let difficultyCount = 0;
+    let difficultySum = 0;
+
+
+    for (const rating of ratings) {
+        let hasValuesBool = false;
+
+
+        if (rating.qualityId) {
+            hasValuesBool = true;
+
+
+            const qualityValue = qualityValuesMap.get(rating.qualityId);
+
+            if (qualityValue === undefined) throw new TRPCError({
+                code: "INTERNAL_SERVER_ERROR",
+                message: `Undefined qualityValue for quality ${rating.qualityId} from rating ${rating.id}. Please contact an admin.`,
+            });
+
+
+            qualityCount++;
+            qualitySum += qualityValue;
+        }
+
+
+        if (rating.difficultyId) {
+            hasValuesBool = true;
+
+
+            const difficultyValue = difficultyValuesMap.get(rating.difficultyId);
+
+            if (difficultyValue === undefined) throw new TRPCError({
+                code: "INTERNAL_SERVER_ERROR",
+                message: `Undefined difficultyValue for difficulty ${rating.difficultyId} from rating ${rating.id}. Please contact an admin.`,
+            });
+
+
+            difficultyCount++;
+            difficultySum += difficultyValue;
+        }
+
+
+        if (!hasValuesBool) throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Rating ${rating.id} has no values. Please contact an admin.`,
+        });
+    }
+
+
+    return {
+        overallCount: ratings.length,
+        qualityCount,
+        qualitySum,
+        difficultyCount,
+        difficultySum,
+    };
+};
+
+
+/**
+ * `averageQualityId` and `averageDifficultyId` are only calculated if they aren't passed in.
+ * Without `qualityScoring`, the adjusted quality is the same as the raw average.
+ */
+export const getRatingsInfoFromSums = (
+    ratingSums: RatingSums & Partial<Pick<RatingsInfo, "averageQualityId" | "averageDifficultyId">>,
+    valuesMaps?: ValuesMaps,
+    qualityScoring?: QualityScoring,
+): RatingsInfo => {
+    const { overallCount, qualityCount, qualitySum, difficultyCount, difficultySum } = ratingSums;
+
+
+    const unroundedAverageQualityValue = qualityCount ? qualitySum / qualityCount : undefined;
+    const unroundedAverageDifficultyValue = difficultyCount ? difficultySum / difficultyCount : undefined;
+
+    //a value of 0 is valid (it's the value of the lowest quality), so compare against undefined instead of checking truthiness
+    const averageQualityID = ratingSums.averageQualityId ?? (
+        unroundedAverageQualityValue !== undefined && valuesMaps ? getAverageId(valuesMaps.qualityValuesMap, unroundedAverageQualityValue) : undefined
+    );
+    const averageDifficultyID = ratingSums.averageDifficultyId ?? (
+        unroundedAverageDifficultyValue !== undefined && valuesMaps ? getAverageId(valuesMaps.difficultyValuesMap, unroundedAverageDifficultyValue) : undefined
+    );
+
+
+    let roundedAverageQualityValue = undefined;
+    let roundedAverageDifficultyValue = undefined;
+
+    if (unroundedAverageQualityValue !== undefined) {
+        roundedAverageQualityValue = Math.round(unroundedAverageQualityValue * 10) / 10;
+    }
+
+    if (unroundedAverageDifficultyValue !== undefined) {
+        roundedAverageDifficultyValue = Math.round(unroundedAverageDifficultyValue * 10) / 10;
+    }
+
+
+    let adjustedQualityId = averageQualityID;
+    let adjustedQualityValue = roundedAverageQualityValue;
+
+    if (qualityScoring) {
+        const unroundedAdjustedQualityValue = getAdjustedQualityValue(qualitySum, qualityCount, qualityScoring);
+
+        if (unroundedAdjustedQualityValue !== undefined) {
+            adjustedQualityId = getAverageId(qualityScoring.qualityValuesMap, unroundedAdjustedQualityValue);
+            adjustedQualityValue = Math.round(unroundedAdjustedQualityValue * 10) / 10;
+        }
+    }
+
+
+    const ratingsInfo: RatingsInfo = {
+        averageQualityId: averageQualityID,
+        averageQualityValue: roundedAverageQualityValue,
+        adjustedQualityId: adjustedQualityId,
+        adjustedQualityValue: adjustedQualityValue,
+        isBelowMinimumQualityRatings: qualityCount < (qualityScoring?.minimumRatings ?? 0),
+        averageDifficultyId: averageDifficultyID,
+        averageDifficultyValue: roundedAverageDifficultyValue,
+        overallCount: overallCount,
+        qualityCount: qualityCount,
+        difficultyCount: difficultyCount,
+    };
+
+
+    return ratingsInfo;
+};
+
+
+
+
+const getRatingAggregateData = (ratingSums: RatingSums, valuesMaps: ValuesMaps): RatingAggregateData => {
+    const ratingsInfo = getRatingsInfoFromSums(ratingSums, valuesMaps);
+
+
+    return {
+        ...ratingSums,
+        averageQualityId: ratingsInfo.averageQualityId ?? null,
+        averageDifficultyId: ratingsInfo.averageDifficultyId ?? null,
+        timeUpdated: getCurrentTime(),
+    };
+};
+
+
+/** Returns the RatingsInfo for a stored aggregate, or undefined if the aggregate has no ratings. */
+export const getRatingsInfoFromAggregate = (aggregate: Omit<RatingAggregateData, "timeUpdated"> | null, qualityScoring?: QualityScoring): RatingsInfo | undefined => {
+    if (!aggregate || !aggregate.overallCount) return undefined;
+
+
+    return getRatingsInfoFromSums(
+        {
+            ...aggregate,
+            averageQualityId: aggregate.averageQualityId ?? undefined,
+            averageDifficultyId: aggregate.averageDifficultyId ?? undefined,
+        },
+        undefined,
+        qualityScoring,
+    );
+};
+
+
+
+
+/** A rating before and after a write. `oldRating` is null for added ratings, and `newRating` is null for deleted ratings. */
+export type RatingChange = {
+    mapId: number;
+    oldRating: RatingForRatingSums | null;
+    newRating: RatingForRatingSums | null;
+};
+
+
+const EMPTY_RATING_SUMS: RatingSums = {
+    overallCount: 0,
+    qualityCount: 0,
+    qualitySum: 0,
+    difficultyCount: 0,
+    difficultySum: 0,
+};
+
+
+const getRatingSumsDelta = ({ oldRating, newRating }: RatingChange, valuesMaps: ValuesMaps): RatingSums => {
+    const oldSums = oldRating ? getRatingSums([oldRating], valuesMaps) : EMPTY_RATING_SUMS;
+    const newSums = newRating ? getRatingSums([newRating], valuesMaps) : EMPTY_RATING_SUMS;
+
+
+    return {
+        overallCount: newSums.overallCount - oldSums.overallCount,
+        qualityCount: newSums.qualityCount - oldSums.qualityCount,
+        qualitySum: newSums.qualitySum - oldSums.qualitySum,
+        difficultyCount: newSums.difficultyCount - oldSums.difficultyCount,
+        difficultySum: newSums.difficultySum - oldSums.difficultySum,
+    };
+};
+
+
+const addRatingSumsDelta = (deltas: Map<number, RatingSums>, id: number, delta: RatingSums): void => {
+    const existingDelta = deltas.get(id) ?? EMPTY_RATING_SUMS;
+
+    deltas.set(id, {
+        overallCount: existingDelta.overallCount + delta.overallCount,
+        qualityCount: existingDelta.qualityCount + delta.qualityCount,
+        qualitySum: existingDelta.qualitySum + delta.qualitySum,
+        difficultyCount: existingDelta.difficultyCount + delta.difficultyCount,
+        difficultySum: existingDelta.difficultySum + delta.difficultySum,
+    });
+};
+
+
+const getIncrementData = (delta: RatingSums) => ({
+    overallCount: { increment: delta.overallCount },
+    qualityCount: { increment: delta.qualityCount },
+    qualitySum: { increment: delta.qualitySum },
+    difficultyCount: { increment: delta.difficultyCount },
+    difficultySum: { increment: delta.difficultySum },
+});
+
+
+const getAverageIdsData = (ratingSums: RatingSums, valuesMaps: ValuesMaps) => {
+    const { averageQualityId, averageDifficultyId, timeUpdated } = getRatingAggregateData(ratingSums, valuesMaps);
+
+    return { averageQualityId, averageDifficultyId, timeUpdated };
+};
+
+
+/**
+ * The increment is atomic, and locks the row until the transaction ends, so concurrent rating writes can't overwrite each other's changes.
+ * The updated row includes every committed change, so the averages are recalculated from it.
+ * A missing row is created empty first. rebuildRatingAggregates creates a row for every map, so only maps without ratings are missing one.
+ */
+const incrementMapRatingAggregate = async (prisma: PrismaClientOrTransaction, mapId: number, delta: RatingSums, valuesMaps: ValuesMaps): Promise<void> => {
+    await prisma.mapRatingAggregate.createMany({
+        data: [{ ...getRatingAggregateData(EMPTY_RATING_SUMS, valuesMaps), mapId }],
+        skipDuplicates: true,
+    });
+
+
+    const incrementedAggregate = await prisma.mapRatingAggregate.update({
+        where: { mapId },
+        data: getIncrementData(delta),
+    });
+
+    await prisma.mapRatingAggregate.update({
+        where: { mapId },
+        data: getAverageIdsData(incrementedAggregate, valuesMaps),
+    });
+};
+
+
+/** See incrementMapRatingAggregate. */
+const incrementModRatingAggregate = async (prisma: PrismaClientOrTransaction, modId: number, delta: RatingSums, valuesMaps: ValuesMaps): Promise<void> => {
+    await prisma.modRatingAggregate.createMany({
+        data: [{ ...getRatingAggregateData(EMPTY_RATING_SUMS, valuesMaps), modId }],
+        skipDuplicates: true,
+    });
+
+
+    const incrementedAggregate = await prisma.modRatingAggregate.update({
+        where: { modId },
+        data: getIncrementData(delta),
+    });
+
+    await prisma.modRatingAggregate.update({
+        where: { modId },
+        data: getAverageIdsData(incrementedAggregate, valuesMaps),
+    });
+};
+
+
+/**
+ * Locks the matching ratings until the transaction ends, and returns their latest values.
+ * Use this to get the old ratings for `updateRatingAggregates`. A plain read could return an older snapshot of a rating that was changed concurrently.
+ */
+export const getLockedRatings = async (
+    prisma: PrismaClientOrTransaction,
+    where: { id: number; } | { mapId: number; } | { submittedBy: string; },
+): Promise<(RatingForRatingSums & Pick<Rating, "mapId">)[]> => {
+    const condition =
+        "id" in where ? Prisma.sql`id = ${where.id}` :
+            "mapId" in where ? Prisma.sql`mapId = ${where.mapId}` :
+                Prisma.sql`submittedBy = ${where.submittedBy}`;
+
+
+    return await prisma.$queryRaw<(RatingForRatingSums & Pick<Rating, "mapId">)[]>`SELECT id, mapId, qualityId, difficultyId FROM rating WHERE ${condition} FOR UPDATE`;
+};
+
+
+/**
+ * Applies rating writes to the stored aggregates of their maps and of the mods that contain them.
+ * Call this inside the same transaction as the writes, and before deleting any of the maps.
+ */
+export const updateRatingAggregates = async (prisma: PrismaClientOrTransaction, ratingChanges: RatingChange[]): Promise<void> => {
+    if (!ratingChanges.length) return;
+
+
+    const mapIds = [...new Set(ratingChanges.map((ratingChange) => ratingChange.mapId))];
+
+    const maps = await prisma.map.findMany({
+        where: { id: { in: mapIds } },
+        select: { id: true, modId: true },
+    });
+
+    const modIdsByMapId = new Map(maps.map((map) => [map.id, map.modId]));
+
+
+    const valuesMaps = await getValuesMaps(prisma);
+
+    const mapDeltas = new Map<number, RatingSums>();
+    const modDeltas = new Map<number, RatingSums>();
+
+    for (const ratingChange of ratingChanges) {
+        const modId = modIdsByMapId.get(ratingChange.mapId);
+
+        if (modId === undefined) throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `No map exists with id "${ratingChange.mapId}"`,
+        });
+
+
+        const delta = getRatingSumsDelta(ratingChange, valuesMaps);
+
+        addRatingSumsDelta(mapDeltas, ratingChange.mapId, delta);
+        addRatingSumsDelta(modDeltas, modId, delta);
+    }
+
+
+    //rows are always locked in id order, so that concurrent writes can't deadlock each other
+    for (const mapId of [...mapDeltas.keys()].sort((a, b) => a - b)) {
+        await incrementMapRatingAggregate(prisma, mapId, mapDeltas.get(mapId) ?? EMPTY_RATING_SUMS, valuesMaps);
+    }
+
+    for (const modId of [...modDeltas.keys()].sort((a, b) => a - b)) {
+        await incrementModRatingAggregate(prisma, modId, modDeltas.get(modId) ?? EMPTY_RATING_SUMS, valuesMaps);
+    }
+};
+
+
+
+
+/** Only used when rebuilding. Rating writes use updateRatingAggregates, which can't lose concurrent changes. */
+const rebuildModRatingAggregate = async (prisma: PrismaClientOrTransaction, modId: number, valuesMaps: ValuesMaps): Promise<void> => {
+    //the mod aggregate is the combination of its maps' aggregates
+    const mapAggregateSums = await prisma.mapRatingAggregate.aggregate({
+        where: { Map: { modId: modId } },
+        _sum: {
+            overallCount: true,
+            qualityCount: true,
+            qualitySum: true,
+            difficultyCount: true,
+            difficultySum: true,
+        },
+    });
+
+
+    const modRatingAggregateData = getRatingAggregateData(
+        {
+            overallCount: mapAggregateSums._sum.overallCount ?? 0,
+            qualityCount: mapAggregateSums._sum.qualityCount ?? 0,
+            qualitySum: mapAggregateSums._sum.qualitySum ?? 0,
+            difficultyCount: mapAggregateSums._sum.difficultyCount ?? 0,
+            difficultySum: mapAggregateSums._sum.difficultySum ?? 0,
+        },
+        valuesMaps,
+    );
+
+
+    await prisma.modRatingAggregate.upsert({
+        where: { modId: modId },
+        create: {
+            ...modRatingAggregateData,
+            Mod: { connect: { id: modId } },
+        },
+        update: modRatingAggregateData,
+    });
+};
+
+
+/**
+ * Deletes and recreates every stored aggregate from the raw ratings.
+ * Needed whenever the values assigned to qualities or difficulties change.
+ */
+export const rebuildRatingAggregates = async (prisma: PrismaClientOrTransaction): Promise<{ mapCount: number, modCount: number; }> => {
+    const valuesMaps = await getValuesMaps(prisma);
+
+
+    const [maps, modIds] = await Promise.all([
+        prisma.map.findMany({
+            select: {
+                id: true,
+                Rating: {
+                    select: {
+                        id: true,
+                        qualityId: true,
+                        difficultyId: true,
+                    },
+                },
+            },
+        }),
+        prisma.mod.findMany({ select: { id: true } }),
+    ]);
+
+
+    await prisma.mapRatingAggregate.deleteMany({});
+    await prisma.modRatingAggregate.deleteMany({});
+
+
+    await prisma.mapRatingAggregate.createMany({
+        data: maps.map(
+            (map) => ({
+                ...getRatingAggregateData(getRatingSums(map.Rating, valuesMaps), valuesMaps),
+                mapId: map.id,
+            }),
+        ),
+    });
+
+    for (const { id: modId } of modIds) {
+        await rebuildModRatingAggregate(prisma, modId, valuesMaps);
+    }
+
+
+    return {
+        mapCount: maps.length,
+        modCount: modIds.length,
+    };
+};
+
+
+/**
+ * Rebuilds the stored aggregates if any ratings aren't counted in them, ie. the first time the server starts after the aggregate tables were added.
+ * Until then, the rating procedures fall back to the raw ratings.
+ */
+export const rebuildRatingAggregatesIfIncomplete = async (prisma: MyPrismaClient): Promise<void> => {
+    if (!await hasUnaggregatedRatings(prisma)) return;
+
+
+    const { mapCount, modCount } = await prisma.$transaction(
+        (transaction) => rebuildRatingAggregates(transaction),
+        { timeout: REBUILD_RATING_AGGREGATES_TIMEOUT_MILLISECONDS },
+    );
+
+    logger.info(`Rebuilt the rating aggregates of ${mapCount} maps and ${modCount} mods.`);
+};
\ No newline at end of file
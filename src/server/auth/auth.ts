@@ -25,6 +25,7 @@ declare module "next-auth" {
   interface User {
     id: PrismaUser["id"];
     permissions: PrismaUser["permissions"];
+    accountStatus: PrismaUser["accountStatus"];
   }
 
   interface SessionUser extends Omit<User, "permissions"> {
@@ -64,6 +65,7 @@ export const authOptions: NextAuthOptions = {
       if (session.user) {
         session.user.id = user.id;
         session.user.permissions = getPermissionArray(user.permissions);
+        session.user.accountStatus = user.accountStatus;
       }
       return session;
     },
@@ -0,0 +1,271 @@
+import { z } from "zod";
+import type { MyPrismaClient } from "~/server/prisma";
+import { serverLogger as logger } from "~/logger/serverLogger";
+import { getCurrentTime } from "~/server/api/utils/getCurrentTime";
+import { type GamebananaApiClient, getGamebananaApiClient } from "~/gamebananaApi/gamebananaApiClient";
+
+
+
+
+/** Metadata older than this is re-fetched when it's requested. The mirror update webhook normally refreshes it well before then. */
+const GAMEBANANA_MOD_METADATA_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+/** The number of mods fetched from GameBanana at once during a full refresh. */
+const REFRESH_CONCURRENCY = 4;
+
+
+
+
+const gamebananaModMetadataFileSchema = z.object({
+    id: z.number().int(),
+    fileName: z.string(),
+    size: z.number().int(),
+    timeAdded: z.number().int(),
+    downloadCount: z.number().int(),
+    md5: z.string(),
+});
+
+export type GamebananaModMetadataFile = z.infer<typeof gamebananaModMetadataFileSchema>;
+
+
+const gamebananaModMetadataScreenshotsSchema = z.array(z.string());
+
+const gamebananaModMetadataFilesSchema = z.array(gamebananaModMetadataFileSchema);
+
+
+export type GamebananaModMetadata = {
+    gamebananaModId: number;
+    /** file names, relative to GameBanana's mod screenshot directory */
+    screenshots: string[];
+    /** newest first */
+    files: GamebananaModMetadataFile[];
+    timeUpdatedGamebanana: number;
+    timeFetched: number;
+};
+
+
+export type GamebananaModMetadataRefreshReport = {
+    refreshedCount: number;
+    /** cached mods that are no longer in the mod table */
+    deletedCount: number;
+    errors: {
+        gamebananaModId: number;
+        error: string;
+    }[];
+};
+
+
+
+
+const fetchGamebananaModMetadata = async (gamebananaModId: number, gamebananaApiClient: GamebananaApiClient): Promise<GamebananaModMetadata> => {
+    const { date, screenshots, "Files().aFiles()": filesObject } = await gamebananaApiClient.getItemData("Mod", gamebananaModId, ["date", "screenshots", "Files().aFiles()"]);
+
+
+    const files: GamebananaModMetadataFile[] = Object.entries(filesObject)
+        .map(([fileId, fileData]) => ({
+            id: Number(fileId),
+            fileName: fileData._sFile,
+            size: fileData._nFilesize,
+            timeAdded: fileData._tsDateAdded,
+            downloadCount: fileData._nDownloadCount,
+            md5: fileData._sMd5Checksum,
+        }))
+        .sort((a, b) => b.timeAdded - a.timeAdded);
+
+
+    return {
+        gamebananaModId,
+        screenshots: screenshots.map(({ _sFile }) => _sFile),
+        files,
+        timeUpdatedGamebanana: Math.max(date, ...files.map(({ timeAdded }) => timeAdded)),
+        timeFetched: getCurrentTime(),
+    };
+};
+
+
+/** Returns undefined if the cached JSON no longer matches the schemas, so that it's re-fetched. */
+const parseCachedGamebananaModMetadata = (cachedMetadata: {
+    gamebananaModId: number;
+    screenshots: unknown;
+    files: unknown;
+    timeUpdatedGamebanana: number;
+    timeFetched: number;
+}): GamebananaModMetadata | undefined => {
+    const screenshotsParseResult = gamebananaModMetadataScreenshotsSchema.safeParse(cachedMetadata.screenshots);
+    const filesParseResult = gamebananaModMetadataFilesSchema.safeParse(cachedMetadata.files);
+
+    if (!screenshotsParseResult.success || !filesParseResult.success) {
+        logger.warn(`Cached GameBanana metadata for mod ${cachedMetadata.gamebananaModId} is invalid. It will be re-fetched.`);
+
+        return undefined;
+    }
+
+
+    return {
+        ...cachedMetadata,
+        screenshots: screenshotsParseResult.data,
+        files: filesParseResult.data,
+    };
+};
+
+
+
+
+/** Returns true if the mod is listed or submitted. Check this before fetching metadata for a user-provided id, so that arbitrary requests can't be sent to GameBanana. */
+export const isKnownGamebananaModId = async (prisma: MyPrismaClient, gamebananaModId: number): Promise<boolean> => {
+    const matchingMod = await prisma.mod.findUnique({ where: { gamebananaModId }, select: { id: true } })
+        ?? await prisma.mod_New.findFirst({ where: { gamebananaModId }, select: { id: true } });
+
+
+    return matchingMod !== null;
+};
+
+
+/** Returns GameBanana's MD5 checksum of each cached mod file, keyed by GameBanana file id. Mods whose cached metadata is invalid are skipped. */
+export const getCachedGamebananaFileMd5s = async (prisma: MyPrismaClient): Promise<Map<number, string>> => {
+    const cachedMetadataRows = await prisma.gamebananaModMetadata.findMany({ select: { gamebananaModId: true, files: true } });
+
+
+    const md5s = new Map<number, string>();
+
+    for (const { gamebananaModId, files } of cachedMetadataRows) {
+        const filesParseResult = gamebananaModMetadataFilesSchema.safeParse(files);
+
+        if (!filesParseResult.success) {
+            logger.warn(`Cached GameBanana metadata for mod ${gamebananaModId} is invalid. Its files' checksums will be ignored.`);
+
+            continue;
+        }
+
+
+        for (const file of filesParseResult.data) md5s.set(file.id, file.md5);
+    }
+
+
+    return md5s;
+};
+
+
+/** Fetches the mod's metadata from GameBanana and saves it to the cache. */
+export const refreshGamebananaModMetadata = async (
+    prisma: MyPrismaClient,
+    gamebananaModId: number,
+    gamebananaApiClient: GamebananaApiClient = getGamebananaApiClient(),
+): Promise<GamebananaModMetadata> => {
+    const metadata = await fetchGamebananaModMetadata(gamebananaModId, gamebananaApiClient);
+
+
+    await prisma.gamebananaModMetadata.upsert({
+        where: { gamebananaModId },
+        create: metadata,
+        update: metadata,
+    });
+
+
+    return metadata;
+};
+
+
+/**
+ * Returns the cached metadata for the mod, fetching it from GameBanana if it's missing or stale.
+ * If GameBanana can't be reached, stale metadata is returned instead of an error.
+ */
+export const getGamebananaModMetadata = async (
+    prisma: MyPrismaClient,
+    gamebananaModId: number,
+    gamebananaApiClient: GamebananaApiClient = getGamebananaApiClient(),
+): Promise<GamebananaModMetadata> => {
+    const cachedMetadataRow = await prisma.gamebananaModMetadata.findUnique({ where: { gamebananaModId } });
+
+    const cachedMetadata = cachedMetadataRow ? parseCachedGamebananaModMetadata(cachedMetadataRow) : undefined;
+
+    if (cachedMetadata && cachedMetadata.timeFetched > getCurrentTime() - GAMEBANANA_MOD_METADATA_MAX_AGE_SECONDS) return cachedMetadata;
+
+
+    try {
+        return await refreshGamebananaModMetadata(prisma, gamebananaModId, gamebananaApiClient);
+    }
+    catch (error) {
+        if (!cachedMetadata) throw error;
+
+        logger.warn(`Failed to refresh GameBanana metadata for mod ${gamebananaModId}. Returning stale metadata. ${String(error)}`);
+
+        return cachedMetadata;
+    }
+};
+
+
+
+
+let runningFullRefresh: Promise<GamebananaModMetadataRefreshReport> | undefined;
+
+
+/**
+ * Re-fetches the metadata of every mod in the mod table, and deletes cached metadata for mods that are no longer listed.
+ * Only one full refresh runs at a time. Calls made while one is running return the running refresh.
+ */
+export const refreshAllGamebananaModMetadata = (
+    prisma: MyPrismaClient,
+    gamebananaApiClient: GamebananaApiClient = getGamebananaApiClient(),
+): Promise<GamebananaModMetadataRefreshReport> => {
+    if (runningFullRefresh) return runningFullRefresh;
+
+
+    const refresh = async (): Promise<GamebananaModMetadataRefreshReport> => {
+        gamebananaApiClient.clearCache();     //otherwise changes made in the last few minutes could be missed
+
+        const mods = await prisma.mod.findMany({ select: { gamebananaModId: true } });
+
+        const gamebananaModIds = mods.map(({ gamebananaModId }) => gamebananaModId);
+
+
+        const deletedMetadata = await prisma.gamebananaModMetadata.deleteMany({
+            where: { gamebananaModId: { notIn: gamebananaModIds } },
+        });
+
+
+        const report: GamebananaModMetadataRefreshReport = {
+            refreshedCount: 0,
+            deletedCount: deletedMetadata.count,
+            errors: [],
+        };
+
+
+        let nextIndex = 0;
+
+        const refreshNextMods = async () => {
+            while (nextIndex < gamebananaModIds.length) {
+                const gamebananaModId = gamebananaModIds[nextIndex++];
+
+                if (gamebananaModId === undefined) return;     //narrows the type. unreachable.
+
+
+                try {
+                    await refreshGamebananaModMetadata(prisma, gamebananaModId, gamebananaApiClient);
+
+                    report.refreshedCount++;
+                }
+                catch (error) {
+                    report.errors.push({
+                        gamebananaModId,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: REFRESH_CONCURRENCY }, refreshNextMods));
+
+
+        logger.info(`GameBanana metadata refresh finished: ${report.refreshedCount} refreshed, ${report.deletedCount} deleted, ${report.errors.length} errors.`);
+
+        return report;
+    };
+
+
+    runningFullRefresh = refresh().finally(() => {
+        runningFullRefresh = undefined;
+    });
+
+    return runningFullRefresh;
+};
\ No newline at end of file
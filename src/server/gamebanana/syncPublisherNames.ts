@@ -0,0 +1,259 @@
+import { Prisma } from "@prisma/client";
+import type { MyPrismaClient, MyPrismaClientOrTransaction } from "~/server/prisma";
+import { serverLogger as logger } from "~/logger/serverLogger";
+import { getCurrentTime } from "~/server/api/utils/getCurrentTime";
+import { type GamebananaApiClient, getGamebananaApiClient } from "~/gamebananaApi/gamebananaApiClient";
+
+
+
+
+/** The tables whose maps use the publisher's name as their mapperNameString when they're in a Normal mod. */
+type MapperNameTableName = Extract<Prisma.ModelName, "Map" | "Map_Edit" | "Map_NewSolo" | "Map_NewWithMod_New" | "Map_Archive">;
+
+
+type PublisherRename = {
+    publisherId: number;
+    gamebananaId: number;
+    oldName: string;
+    newName: string;
+};
+
+
+export type PublisherNameSyncReport = {
+    renamed: (PublisherRename & {
+        /** the number of rows in each table whose mapperNameString was updated. only includes maps in Normal mods. */
+        updatedMapCounts: Record<MapperNameTableName, number>;
+    })[];
+    unchangedCount: number;
+    /** renames that weren't applied because another publisher already has the new name */
+    conflicts: (PublisherRename & {
+        /** null if the conflict was only detected by the database's unique constraint */
+        conflictingPublisherId: number | null;
+    })[];
+    /** publishers whose name couldn't be read from GameBanana */
+    errors: {
+        publisherId: number;
+        gamebananaId: number;
+        error: string;
+    }[];
+};
+
+
+export type PublisherNameSyncStatus = {
+    status: "Idle" | "Running" | "Succeeded" | "Failed";
+    publishersTotal: number;
+    publishersProcessed: number;
+    /** the renames so far while the sync is running. null until the first sync starts. */
+    report: PublisherNameSyncReport | null;
+    /** set if the sync stopped early */
+    error: string | null;
+    timeStarted: number | null;
+    timeFinished: number | null;
+};
+
+
+
+
+/**
+ * Renames the maps in the publisher's Normal mods, including pending and archived maps.
+ * Maps whose mapper name was set to something other than the publisher's old name are left alone.
+ */
+const renameMapperNameStrings = async (
+    transaction: MyPrismaClientOrTransaction,
+    publisherId: number,
+    oldName: string,
+    newName: string,
+): Promise<Record<MapperNameTableName, number>> => {
+    const modWhere = { publisherId, type: "Normal" } satisfies Prisma.ModWhereInput;
+
+    const data = { mapperNameString: newName };
+
+
+    const updatedMaps = await transaction.map.updateMany({ where: { Mod: modWhere, mapperNameString: oldName }, data });
+
+    const updatedMapEdits = await transaction.map_Edit.updateMany({ where: { Map: { Mod: modWhere }, mapperNameString: oldName }, data });
+
+    const updatedMapNewSolos = await transaction.map_NewSolo.updateMany({ where: { Mod: modWhere, mapperNameString: oldName }, data });
+
+    const updatedMapNewWithModNews = await transaction.map_NewWithMod_New.updateMany({ where: { Mod_New: { publisherId, type: "Normal" }, mapperNameString: oldName }, data });
+
+    const updatedMapArchives = await transaction.map_Archive.updateMany({ where: { Map: { Mod: modWhere }, mapperNameString: oldName }, data });
+
+
+    return {
+        Map: updatedMaps.count,
+        Map_Edit: updatedMapEdits.count,
+        Map_NewSolo: updatedMapNewSolos.count,
+        Map_NewWithMod_New: updatedMapNewWithModNews.count,
+        Map_Archive: updatedMapArchives.count,
+    };
+};
+
+
+
+
+/**
+ * Re-reads the name of every publisher with a gamebananaId, and renames publishers whose GameBanana name has changed.
+ * Normal mods use the publisher's name as the mapperNameString of their maps, so those maps are renamed in the same transaction.
+ * Publishers are handled one at a time so that GameBanana isn't flooded with requests.
+ * `onProgress` is called with the report so far after each publisher.
+ */
+export const syncPublisherNames = async (
+    prisma: MyPrismaClient,
+    gamebananaApiClient: GamebananaApiClient = getGamebananaApiClient(),
+    onProgress?: (report: PublisherNameSyncReport, publishersProcessed: number, publishersTotal: number) => void,
+): Promise<PublisherNameSyncReport> => {
+    const publishers = await prisma.publisher.findMany({
+        where: { gamebananaId: { not: null } },
+        select: { id: true, gamebananaId: true, name: true },
+        orderBy: { id: "asc" },
+    });
+
+
+    const report: PublisherNameSyncReport = {
+        renamed: [],
+        unchangedCount: 0,
+        conflicts: [],
+        errors: [],
+    };
+
+
+    for (const [index, publisher] of publishers.entries()) {
+        onProgress?.(report, index, publishers.length);
+
+
+        const gamebananaId = publisher.gamebananaId;
+
+        if (gamebananaId === null) continue;    //excluded by the query. narrows the type.
+
+
+        let newName: string;
+
+        try {
+            newName = await gamebananaApiClient.getMemberName(gamebananaId, { noCache: true });
+        }
+        catch (error) {
+            report.errors.push({
+                publisherId: publisher.id,
+                gamebananaId,
+                error: error instanceof Error ? error.message : "Error getting gamebanana username.",
+            });
+
+            continue;
+        }
+
+
+        if (newName === publisher.name) {
+            report.unchangedCount++;
+            continue;
+        }
+
+
+        const rename: PublisherRename = {
+            publisherId: publisher.id,
+            gamebananaId,
+            oldName: publisher.name,
+            newName,
+        };
+
+
+        const conflictingPublisher = await prisma.publisher.findUnique({
+            where: { name: newName },
+            select: { id: true },
+        });
+
+        if (conflictingPublisher) {
+            report.conflicts.push({ ...rename, conflictingPublisherId: conflictingPublisher.id });
+            continue;
+        }
+
+
+        try {
+            const updatedMapCounts = await prisma.$transaction(
+                async (transaction) => {
+                    await transaction.publisher.update({
+                        where: { id: publisher.id },
+                        data: { name: newName },
+                    });
+
+
+                    return await renameMapperNameStrings(transaction, publisher.id, publisher.name, newName);
+                },
+            );
+
+
+            report.renamed.push({ ...rename, updatedMapCounts });
+        }
+        catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {     //unique constraint violation. another publisher took the name after the check above.
+                report.conflicts.push({ ...rename, conflictingPublisherId: null });
+                continue;
+            }
+
+            throw error;
+        }
+    }
+
+
+    onProgress?.(report, publishers.length, publishers.length);
+
+
+    logger.info(`Publisher name sync finished: ${report.renamed.length} renamed, ${report.unchangedCount} unchanged, ${report.conflicts.length} conflicts, ${report.errors.length} errors.`);
+
+    return report;
+};
+
+
+
+
+let publisherNameSyncStatus: PublisherNameSyncStatus = {
+    status: "Idle",
+    publishersTotal: 0,
+    publishersProcessed: 0,
+    report: null,
+    error: null,
+    timeStarted: null,
+    timeFinished: null,
+};
+
+
+/** Returns the status of the most recent sync started by this process. */
+export const getPublisherNameSyncStatus = (): PublisherNameSyncStatus => publisherNameSyncStatus;
+
+
+/**
+ * Starts syncing publisher names in the background, unless a sync is already running in this process, and returns its status.
+ * The sync makes one GameBanana request per publisher, so it can take longer than a request is allowed to.
+ */
+export const startPublisherNameSync = (prisma: MyPrismaClient): PublisherNameSyncStatus => {
+    if (publisherNameSyncStatus.status === "Running") return publisherNameSyncStatus;
+
+
+    publisherNameSyncStatus = {
+        status: "Running",
+        publishersTotal: 0,
+        publishersProcessed: 0,
+        report: null,
+        error: null,
+        timeStarted: getCurrentTime(),
+        timeFinished: null,
+    };
+
+    const onProgress = (report: PublisherNameSyncReport, publishersProcessed: number, publishersTotal: number) => {
+        publisherNameSyncStatus = { ...publisherNameSyncStatus, report, publishersProcessed, publishersTotal };
+    };
+
+
+    syncPublisherNames(prisma, undefined, onProgress)
+        .then((report) => {
+            publisherNameSyncStatus = { ...publisherNameSyncStatus, status: "Succeeded", report, timeFinished: getCurrentTime() };
+        })
+        .catch((error) => {
+            logger.error(`The publisher name sync stopped. ${String(error)}`);
+
+            publisherNameSyncStatus = { ...publisherNameSyncStatus, status: "Failed", error: error instanceof Error ? error.message : String(error), timeFinished: getCurrentTime() };
+        });
+
+
+    return publisherNameSyncStatus;
+};
\ No newline at end of file
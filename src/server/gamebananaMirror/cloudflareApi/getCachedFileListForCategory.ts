@@ -0,0 +1,51 @@
+import { serverLogger as logger } from "~/logger/serverLogger";
+import type { FileCategory } from "./constsAndTypes";
+import { getFileListForCategory } from "./getFileListForCategory";
+
+
+
+
+/** The update webhook clears the cache, so this only matters if the mirror is changed some other way. */
+const FILE_LIST_CACHE_TTL_MILLISECONDS = 10 * 60 * 1000;
+
+
+const cachedFileLists = new Map<FileCategory, { expiryTime: number; fileNames: Promise<Set<string> | undefined>; }>();
+
+
+
+
+/** Like getFileListForCategory, but cached in memory so that it can be used while serving pages.
+ * Returns undefined if the file list couldn't be retrieved. Failures aren't cached.
+ */
+export const getCachedFileListForCategory = (fileCategory: FileCategory): Promise<Set<string> | undefined> => {
+    const currentTime = Date.now();
+
+    const cachedFileList = cachedFileLists.get(fileCategory);
+
+    if (cachedFileList && cachedFileList.expiryTime > currentTime) return cachedFileList.fileNames;
+
+
+    const fileNames = getFileListForCategory(fileCategory).then(
+        (fileListOrStatusCode) => {
+            if (typeof fileListOrStatusCode !== "number") return new Set(fileListOrStatusCode);
+
+
+            logger.warn(`Failed to get cached file list for category ${fileCategory}. Status code: ${fileListOrStatusCode}`);
+
+            cachedFileLists.delete(fileCategory);
+
+            return undefined;
+        },
+    );
+
+    cachedFileLists.set(fileCategory, { expiryTime: currentTime + FILE_LIST_CACHE_TTL_MILLISECONDS, fileNames });
+
+
+    return fileNames;
+};
+
+
+/** Call after changing the mirror's contents. */
+export const clearCachedFileLists = () => {
+    cachedFileLists.clear();
+};
\ No newline at end of file
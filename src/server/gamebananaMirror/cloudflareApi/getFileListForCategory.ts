@@ -5,9 +5,14 @@ import { type FileCategory, R2_BUCKET_NAMES } from "./constsAndTypes";
 
 
 
+/** Set GAMEBANANA_MIRROR_CLOUDFLARE_R2_S3_API_URL to the fake services server to run without network access. */
+const s3ApiUrlOverride = process.env.GAMEBANANA_MIRROR_CLOUDFLARE_R2_S3_API_URL || undefined;
+
+
 const s3Client = new S3Client({
     region: "auto",
-    endpoint: `https://${process.env.GAMEBANANA_MIRROR_CLOUDFLARE_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+    endpoint: s3ApiUrlOverride ?? `https://${process.env.GAMEBANANA_MIRROR_CLOUDFLARE_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+    forcePathStyle: s3ApiUrlOverride !== undefined,     //the fake server can't receive requests for bucket subdomains
     credentials: {
         accessKeyId: process.env.GAMEBANANA_MIRROR_CLOUDFLARE_R2_ACCESS_KEY_ID ?? "",
         secretAccessKey: process.env.GAMEBANANA_MIRROR_CLOUDFLARE_R2_SECRET_ACCESS_KEY ?? "",
@@ -17,14 +22,24 @@ const s3Client = new S3Client({
 
 
 
-/** Uses the Cloudflare R2 S3 API to get the list of files currently saved for the specified category.
- * Returns the list of file names, or an HTTP status code if there was an error.
+export type MirrorFileMetadata = {
+    fileName: string;
+    /** the MD5 of the file's contents, including the surrounding quotes, unless it was a multipart upload */
+    etag: string | undefined;
+    size: number | undefined;
+};
+
+
+
+
+/** Uses the Cloudflare R2 S3 API to get the list of files currently saved for the specified category, along with their ETags and sizes.
+ * Returns the list of files, or an HTTP status code if there was an error.
  */
-export const getFileListForCategory = async (fileCategory: FileCategory): Promise<string[] | number> => {
+export const getFileMetadataListForCategory = async (fileCategory: FileCategory): Promise<MirrorFileMetadata[] | number> => {
     const bucketName = R2_BUCKET_NAMES[fileCategory];
 
 
-    const fileNames: string[] = [];
+    const files: MirrorFileMetadata[] = [];
     let continuationToken: string | undefined = undefined;
     let isMoreData = true;
     let isInvalidFileName = false;
@@ -79,7 +94,7 @@ export const getFileListForCategory = async (fileCategory: FileCategory): Promis
             }
 
 
-            fileNames.push(fileName);
+            files.push({ fileName, etag: object.ETag, size: object.Size });
         }
 
 
@@ -92,14 +107,29 @@ export const getFileListForCategory = async (fileCategory: FileCategory): Promis
     }
 
 
-    if (isInvalidFileName && fileNames.length === 0) {
+    if (isInvalidFileName && files.length === 0) {
         logger.warn(`Retrieved file list for category ${fileCategory} but all file names were invalid`);
 
         return 520;
     }
 
 
-    logger.info(`Retrieved file list for category ${fileCategory}: ${fileNames.length} files`);
+    logger.info(`Retrieved file list for category ${fileCategory}: ${files.length} files`);
+
+    return files;
+};
+
+
+
+
+/** Uses the Cloudflare R2 S3 API to get the list of files currently saved for the specified category.
+ * Returns the list of file names, or an HTTP status code if there was an error.
+ */
+export const getFileListForCategory = async (fileCategory: FileCategory): Promise<string[] | number> => {
+    const filesOrStatusCode = await getFileMetadataListForCategory(fileCategory);
+
+    if (typeof filesOrStatusCode === "number") return filesOrStatusCode;
+
 
-    return fileNames;
+    return filesOrStatusCode.map((file) => file.fileName);
 };
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { decideMirrorFileSync } from "~/server/gamebananaMirror/mirrorSync";
+
+
+
+
+const FILE_NAME = "123456.zip";
+
+const DOWNLOAD_URL = "https://gamebanana.com/dl/123456";
+
+const MD5 = "0123456789abcdef0123456789abcdef";
+
+
+const wantedFiles = [{ fileName: FILE_NAME, downloadUrl: DOWNLOAD_URL }];
+
+
+const getDecision = (etag: string | undefined, md5: string | undefined) => {
+    const [decision] = decideMirrorFileSync(
+        wantedFiles,
+        [{ fileName: FILE_NAME, etag, size: 100 }],
+        new Map([[FILE_NAME, { size: 100, xxHashes: ["fedcba9876543210"], md5 }]]),
+        new Map(),
+    );
+
+    return decision;
+};
+
+
+
+
+describe("decideMirrorFileSync", () => {
+    it("keeps an unrecorded file whose ETag matches GameBanana's MD5 checksum", () => {
+        expect(getDecision(`"${MD5.toUpperCase()}"`, MD5)).toMatchObject({ action: "keep", reason: "firstSeen", downloadUrl: null });
+    });
+
+
+    it("re-downloads an unrecorded file of the right size whose ETag doesn't match GameBanana's MD5 checksum", () => {
+        expect(getDecision(`"${"f".repeat(32)}"`, MD5)).toMatchObject({ action: "redownload", reason: "md5Mismatch", downloadUrl: DOWNLOAD_URL });
+    });
+
+
+    it("re-downloads an unrecorded file when GameBanana's MD5 checksum isn't cached", () => {
+        expect(getDecision(`"${MD5}"`, undefined)).toMatchObject({ action: "redownload", reason: "noMd5", downloadUrl: DOWNLOAD_URL });
+    });
+});
\ No newline at end of file
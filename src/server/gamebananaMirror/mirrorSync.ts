@@ -0,0 +1,273 @@
+import type { MyPrismaClient } from "~/server/prisma";
+import { serverLogger as logger } from "~/logger/serverLogger";
+import { getCurrentTime } from "~/server/api/utils/getCurrentTime";
+import type { FileCategory } from "./cloudflareApi/constsAndTypes";
+import type { MirrorFileMetadata } from "./cloudflareApi/getFileListForCategory";
+import { getCachedGamebananaFileMd5s } from "~/server/gamebanana/modMetadataCache";
+import { getIndexedEverestUpdateDatabase } from "./yamlHandlers/everestUpdateDatabase";
+
+
+
+
+/** What the mirror's copy of a file should look like, according to the Everest Update Database. */
+type ExpectedChecksum = {
+    size: number | undefined;
+    /** any of these is acceptable */
+    xxHashes: string[];
+    /** GameBanana's MD5 checksum of the file, from the mod metadata cache. undefined if the mod's metadata isn't cached. */
+    md5: string | undefined;
+};
+
+
+/** What the mirror's copy of a file looked like when it was last downloaded or verified. */
+type MirrorFileSyncRecord = {
+    etag: string | null;
+    size: number | null;
+    xxHash: string | null;
+};
+
+
+export type MirrorFileSyncAction = "download" | "redownload" | "keep" | "delete";
+
+export type MirrorFileSyncReason =
+    | "new"                 //download: the file isn't on the mirror yet
+    | "notInUpdate"         //delete: the file is no longer wanted
+    | "sizeMismatch"        //redownload: the mirror's copy isn't the size the Everest Update Database expects
+    | "xxHashMismatch"      //redownload: the file was re-uploaded to GameBanana with a new hash since the mirror's copy was downloaded
+    | "etagChanged"         //redownload: the mirror's copy changed since it was verified, so its hash is unknown
+    | "verified"            //keep: the mirror's copy is unchanged since it was verified, and its hash is still the expected one
+    | "md5Mismatch"         //redownload: there's no record of the mirror's copy, and its ETag isn't GameBanana's MD5 checksum of the file
+    | "noMd5"               //redownload: there's no record of the mirror's copy, and GameBanana's MD5 checksum of the file isn't cached, so the copy can't be verified
+    | "firstSeen"           //keep: there's no record of the mirror's copy, but its ETag matches GameBanana's MD5 checksum of the file
+    | "noChecksum";         //keep: the Everest Update Database doesn't know about the file, so only its name can be compared
+
+
+export type MirrorFileSyncDecision = {
+    fileName: string;
+    /** null if the file is being kept or deleted */
+    downloadUrl: string | null;
+    action: MirrorFileSyncAction;
+    reason: MirrorFileSyncReason;
+    /** The HTTP status code of the download or deletion. Undefined if the file is kept. */
+    statusCode?: number;
+};
+
+
+export type MirrorFileCategorySyncReport = {
+    statusCode: number;
+    decisions: MirrorFileSyncDecision[];
+};
+
+
+export type MirrorSyncReport = {
+    [Category in FileCategory]: MirrorFileCategorySyncReport;
+};
+
+
+
+
+/** Returns the expected checksums of the mods category's files, keyed by file name.
+ * Only mod files are listed in the Everest Update Database. Other categories always get an empty map.
+ * Also returns an empty map if the Everest Update Database is unavailable, so that the sync can still compare file names.
+ * MD5 checksums come from the GameBanana mod metadata cache. If it can't be read, they are left out, so unrecorded files are re-downloaded.
+ */
+export const getExpectedChecksums = async (prisma: MyPrismaClient, fileCategory: FileCategory): Promise<Map<string, ExpectedChecksum>> => {
+    const expectedChecksums = new Map<string, ExpectedChecksum>();
+
+    if (fileCategory !== "mods") return expectedChecksums;
+
+
+    let md5s = new Map<number, string>();
+
+    try {
+        md5s = await getCachedGamebananaFileMd5s(prisma);
+    } catch (error) {
+        logger.warn(`The GameBanana mod metadata cache is unavailable, so unrecorded files will be re-downloaded for file category: ${fileCategory}. ${String(error)}`);
+    }
+
+
+    try {
+        const everestUpdateDatabase = await getIndexedEverestUpdateDatabase();
+
+        for (const everestMod of everestUpdateDatabase.byName.values()) {
+            expectedChecksums.set(`${everestMod.GameBananaFileId}.zip`, { size: everestMod.Size, xxHashes: everestMod.xxHash, md5: md5s.get(everestMod.GameBananaFileId) });
+        }
+    } catch (error) {
+        logger.warn(`The Everest Update Database is unavailable, so only file names will be compared for file category: ${fileCategory}. ${String(error)}`);
+    }
+
+
+    return expectedChecksums;
+};
+
+
+export const getMirrorFileSyncRecords = async (prisma: MyPrismaClient, fileCategory: FileCategory): Promise<Map<string, MirrorFileSyncRecord>> => {
+    const syncRecords = await prisma.gamebananaMirrorFile.findMany({
+        where: { fileCategory },
+        select: { fileName: true, etag: true, size: true, xxHash: true },
+    });
+
+
+    return new Map(syncRecords.map(({ fileName, ...syncRecord }) => [fileName, syncRecord]));
+};
+
+
+
+
+/** ETags are quoted, and R2's are lowercase hex. Returns undefined if the mirror didn't report one. */
+const getEtagChecksum = (etag: string | undefined): string | undefined => etag?.replace(/"/g, "").toLowerCase();
+
+
+const decideExistingFile = (
+    mirrorFile: MirrorFileMetadata,
+    expectedChecksum: ExpectedChecksum | undefined,
+    syncRecord: MirrorFileSyncRecord | undefined,
+): { action: "redownload" | "keep"; reason: MirrorFileSyncReason; } => {
+    if (!expectedChecksum) return { action: "keep", reason: "noChecksum" };
+
+
+    if (expectedChecksum.size !== undefined && mirrorFile.size !== undefined && mirrorFile.size !== expectedChecksum.size) return { action: "redownload", reason: "sizeMismatch" };
+
+    if (!syncRecord || syncRecord.xxHash === null) {
+        //a matching size doesn't show the contents match, so check the whole file. R2's ETag is the file's MD5 checksum, unless it was uploaded in parts.
+        if (expectedChecksum.md5 === undefined) return { action: "redownload", reason: "noMd5" };
+
+        if (getEtagChecksum(mirrorFile.etag) !== expectedChecksum.md5.toLowerCase()) return { action: "redownload", reason: "md5Mismatch" };
+
+        return { action: "keep", reason: "firstSeen" };
+    }
+
+
+    const isPendingVerification = syncRecord.etag === null;     //downloaded during the previous sync
+
+    if (!isPendingVerification && mirrorFile.etag !== undefined && mirrorFile.etag !== syncRecord.etag) return { action: "redownload", reason: "etagChanged" };
+
+    if (!expectedChecksum.xxHashes.includes(syncRecord.xxHash)) return { action: "redownload", reason: "xxHashMismatch" };
+
+
+    return { action: "keep", reason: "verified" };
+};
+
+
+/** Decides what to do with each file, comparing the files that should exist with the files that are on the mirror.
+ * Files are compared by name, then by their checksums where the Everest Update Database has them.
+ */
+export const decideMirrorFileSync = (
+    wantedFiles: { fileName: string; downloadUrl: string; }[],
+    mirrorFiles: MirrorFileMetadata[],
+    expectedChecksums: Map<string, ExpectedChecksum>,
+    syncRecords: Map<string, MirrorFileSyncRecord>,
+): MirrorFileSyncDecision[] => {
+    const downloadUrlsByFileName = new Map(wantedFiles.map(({ fileName, downloadUrl }) => [fileName, downloadUrl]));   //duplicates are ignored
+
+    const mirrorFileNames = new Set(mirrorFiles.map((mirrorFile) => mirrorFile.fileName));
+
+
+    const decisions: MirrorFileSyncDecision[] = [];
+
+    for (const mirrorFile of mirrorFiles) {
+        const downloadUrl = downloadUrlsByFileName.get(mirrorFile.fileName);
+
+        if (downloadUrl === undefined) {
+            decisions.push({ fileName: mirrorFile.fileName, downloadUrl: null, action: "delete", reason: "notInUpdate" });
+
+            continue;
+        }
+
+
+        const { action, reason } = decideExistingFile(mirrorFile, expectedChecksums.get(mirrorFile.fileName), syncRecords.get(mirrorFile.fileName));
+
+        decisions.push({ fileName: mirrorFile.fileName, downloadUrl: action === "redownload" ? downloadUrl : null, action, reason });
+    }
+
+
+    for (const [fileName, downloadUrl] of downloadUrlsByFileName) {
+        if (mirrorFileNames.has(fileName)) continue;
+
+        decisions.push({ fileName, downloadUrl, action: "download", reason: "new" });
+    }
+
+
+    return decisions;
+};
+
+
+
+
+/** Updates the sync records to match the decisions' outcomes.
+ * Failed downloads and deletions leave their records unchanged, so the next sync makes the same decision.
+ */
+export const saveMirrorFileSyncRecords = async (
+    prisma: MyPrismaClient,
+    fileCategory: FileCategory,
+    decisions: MirrorFileSyncDecision[],
+    mirrorFiles: MirrorFileMetadata[],
+    expectedChecksums: Map<string, ExpectedChecksum>,
+    syncRecords: Map<string, MirrorFileSyncRecord>,
+): Promise<void> => {
+    const mirrorFilesByName = new Map(mirrorFiles.map((mirrorFile) => [mirrorFile.fileName, mirrorFile]));
+
+    const newSyncRecords = new Map<string, MirrorFileSyncRecord | null>();     //null deletes the record
+
+
+    for (const { fileName, action, reason, statusCode } of decisions) {
+        const expectedXxHash = expectedChecksums.get(fileName)?.xxHashes[0] ?? null;
+
+        const mirrorFile = mirrorFilesByName.get(fileName);
+
+        const syncRecord = syncRecords.get(fileName);
+
+
+        if (action === "keep") {
+            if (reason === "noChecksum") newSyncRecords.set(fileName, null);
+            else if (reason === "firstSeen") newSyncRecords.set(fileName, { etag: mirrorFile?.etag ?? null, size: mirrorFile?.size ?? null, xxHash: expectedXxHash });
+            else if (syncRecord?.etag === null) newSyncRecords.set(fileName, { ...syncRecord, etag: mirrorFile?.etag ?? null, size: mirrorFile?.size ?? null });    //verify the copy downloaded during the previous sync
+
+            continue;
+        }
+
+
+        if (statusCode !== 200) continue;
+
+        if (action === "delete" || expectedXxHash === null) newSyncRecords.set(fileName, null);
+        else newSyncRecords.set(fileName, { etag: null, size: null, xxHash: expectedXxHash });     //the new copy's ETag is read during the next sync
+    }
+
+
+    for (const fileName of syncRecords.keys()) {      //records of files that were removed from the mirror some other way
+        if (!mirrorFilesByName.has(fileName) && !newSyncRecords.has(fileName)) newSyncRecords.set(fileName, null);
+    }
+
+
+    const fileNamesToDelete: string[] = [];
+    const syncRecordsToCreate: ({ fileName: string; } & MirrorFileSyncRecord)[] = [];
+    const syncRecordsToUpdate: ({ fileName: string; } & MirrorFileSyncRecord)[] = [];
+
+    for (const [fileName, syncRecord] of newSyncRecords) {
+        const isExistingRecord = syncRecords.has(fileName);
+
+        if (syncRecord === null) {
+            if (isExistingRecord) fileNamesToDelete.push(fileName);
+        }
+        else if (isExistingRecord) syncRecordsToUpdate.push({ fileName, ...syncRecord });
+        else syncRecordsToCreate.push({ fileName, ...syncRecord });
+    }
+
+
+    const currentTime = getCurrentTime();
+
+    await prisma.$transaction([
+        prisma.gamebananaMirrorFile.deleteMany({ where: { fileCategory, fileName: { in: fileNamesToDelete } } }),
+        prisma.gamebananaMirrorFile.createMany({
+            data: syncRecordsToCreate.map((syncRecord) => ({ fileCategory, ...syncRecord, timeSynced: currentTime })),
+            skipDuplicates: true,
+        }),
+        ...syncRecordsToUpdate.map(({ fileName, ...syncRecord }) => prisma.gamebananaMirrorFile.update({
+            where: { fileCategory_fileName: { fileCategory, fileName } },
+            data: { ...syncRecord, timeSynced: currentTime },
+        })),
+    ]);
+
+
+    logger.debug(`Saved mirror sync records for file category: ${fileCategory}. Created: ${syncRecordsToCreate.length}, updated: ${syncRecordsToUpdate.length}, deleted: ${fileNamesToDelete.length}`);
+};
\ No newline at end of file
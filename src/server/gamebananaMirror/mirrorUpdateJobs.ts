@@ -0,0 +1,229 @@
+import type { GamebananaMirrorUpdateJobStatus, Prisma } from "@prisma/client";
+import type { MyPrismaClient } from "~/server/prisma";
+import { serverLogger as logger } from "~/logger/serverLogger";
+import { getCurrentTime } from "~/server/api/utils/getCurrentTime";
+import { FILE_CATEGORIES, type FileCategory } from "./cloudflareApi/constsAndTypes";
+import type { MirrorFileSyncDecision, MirrorSyncReport } from "./mirrorSync";
+
+
+
+
+/** A job that was interrupted this many times (ie. by the server restarting) is failed instead of being queued again. */
+export const MAX_MIRROR_UPDATE_JOB_ATTEMPTS = 3;
+
+/** A running job whose progress hasn't been saved for this long is treated as interrupted. Progress is saved every few seconds while a job runs. */
+const MIRROR_UPDATE_JOB_HEARTBEAT_TIMEOUT_SECONDS = 5 * 60;
+
+const MAX_ERROR_LENGTH = 1000;
+
+/** The number of most recent jobs returned when no job id is requested. */
+const RECENT_JOBS_COUNT = 10;
+
+
+
+
+export type MirrorUpdateJobProgress = {
+    filesTotal: number;
+    filesProcessed: number;
+    filesFailed: number;
+    /** only includes the file categories that have finished updating */
+    report: Partial<MirrorSyncReport>;
+};
+
+
+export type ClaimedMirrorUpdateJob = {
+    id: number;
+    /** the update webhook's request body. validated before the job was created. */
+    update: Prisma.JsonValue;
+    /** includes this attempt */
+    attempts: number;
+};
+
+
+export type MirrorUpdateJobStatusReport = {
+    id: number;
+    status: GamebananaMirrorUpdateJobStatus;
+    attempts: number;
+    error: string | null;
+    progress: Omit<MirrorUpdateJobProgress, "report">;
+    /** the files whose download or deletion failed, in the file categories that have finished updating */
+    failures: ({ fileCategory: FileCategory; } & MirrorFileSyncDecision)[];
+    timeCreated: number;
+    timeStarted: number | null;
+    /** when the job's progress was last saved */
+    timeHeartbeat: number | null;
+    timeFinished: number | null;
+};
+
+
+
+
+const truncateError = (error: unknown): string => (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+
+
+/** The report is only ever written by this module, so it isn't validated. */
+const getFailures = (report: Prisma.JsonValue): MirrorUpdateJobStatusReport["failures"] => {
+    if (typeof report !== "object" || report === null || Array.isArray(report)) return [];
+
+    const partialReport = report as Partial<MirrorSyncReport>;
+
+
+    return FILE_CATEGORIES.flatMap(
+        (fileCategory) => (partialReport[fileCategory]?.decisions ?? [])
+            .filter((decision) => decision.action !== "keep" && decision.statusCode !== 200)
+            .map((decision) => ({ fileCategory, ...decision })),
+    );
+};
+
+
+
+
+export const createMirrorUpdateJob = async (prisma: MyPrismaClient, update: Prisma.InputJsonObject): Promise<number> => {
+    const job = await prisma.gamebananaMirrorUpdateJob.create({
+        data: {
+            update,
+            timeCreated: getCurrentTime(),
+        },
+        select: { id: true },
+    });
+
+
+    logger.info(`Queued GameBanana mirror update job ${job.id}.`);
+
+    return job.id;
+};
+
+
+/** Queues the running jobs whose progress hasn't been saved recently (ie. because their server stopped), or fails them if they've been attempted too many times.
+ * Jobs that are still running in any process keep saving their progress, so they're left alone.
+ */
+export const requeueInterruptedMirrorUpdateJobs = async (prisma: MyPrismaClient): Promise<void> => {
+    const currentTime = getCurrentTime();
+
+    const staleJobWhere = {
+        status: "Running",
+        OR: [
+            { timeHeartbeat: null },
+            { timeHeartbeat: { lt: currentTime - MIRROR_UPDATE_JOB_HEARTBEAT_TIMEOUT_SECONDS } },
+        ],
+    } satisfies Prisma.GamebananaMirrorUpdateJobWhereInput;
+
+
+    const failedJobs = await prisma.gamebananaMirrorUpdateJob.updateMany({
+        where: { ...staleJobWhere, attempts: { gte: MAX_MIRROR_UPDATE_JOB_ATTEMPTS } },
+        data: { status: "Failed", error: "The job was interrupted too many times.", timeFinished: currentTime },
+    });
+
+    const requeuedJobs = await prisma.gamebananaMirrorUpdateJob.updateMany({
+        where: staleJobWhere,
+        data: { status: "Queued" },
+    });
+
+
+    if (failedJobs.count || requeuedJobs.count) logger.warn(`Interrupted GameBanana mirror update jobs: ${requeuedJobs.count} queued again, ${failedJobs.count} failed.`);
+};
+
+
+/** Marks the oldest queued job as running and returns it. Returns null if there aren't any queued jobs. */
+export const claimNextMirrorUpdateJob = async (prisma: MyPrismaClient): Promise<ClaimedMirrorUpdateJob | null> => {
+    for (; ;) {
+        const job = await prisma.gamebananaMirrorUpdateJob.findFirst({
+            where: { status: "Queued" },
+            orderBy: [{ timeCreated: "asc" }, { id: "asc" }],
+            select: { id: true, update: true, attempts: true },
+        });
+
+        if (!job) return null;
+
+
+        const claimedJobs = await prisma.gamebananaMirrorUpdateJob.updateMany({    //only succeeds if another process hasn't claimed the job first
+            where: { id: job.id, status: "Queued" },
+            data: {
+                status: "Running",
+                attempts: { increment: 1 },
+                timeStarted: getCurrentTime(),
+                timeHeartbeat: getCurrentTime(),
+                filesTotal: 0,
+                filesProcessed: 0,
+                filesFailed: 0,
+                report: {},
+            },
+        });
+
+        if (claimedJobs.count === 1) return { ...job, attempts: job.attempts + 1 };
+    }
+};
+
+
+export const saveMirrorUpdateJobProgress = async (prisma: MyPrismaClient, id: number, { report, ...counts }: MirrorUpdateJobProgress): Promise<void> => {
+    await prisma.gamebananaMirrorUpdateJob.update({
+        where: { id },
+        data: { ...counts, report, timeHeartbeat: getCurrentTime() },
+    });
+};
+
+
+export const finishMirrorUpdateJob = async (
+    prisma: MyPrismaClient,
+    id: number,
+    status: "Succeeded" | "Failed",
+    { report, ...counts }: MirrorUpdateJobProgress,
+): Promise<void> => {
+    await prisma.gamebananaMirrorUpdateJob.update({
+        where: { id },
+        data: { ...counts, report, status, timeFinished: getCurrentTime() },
+    });
+
+
+    logger.info(`GameBanana mirror update job ${id} ${status === "Succeeded" ? "succeeded" : "failed"}. ${counts.filesProcessed} files processed, ${counts.filesFailed} failed.`);
+};
+
+
+/** Queues the job again, unless it's been attempted too many times, in which case it's failed. */
+export const retryMirrorUpdateJob = async (prisma: MyPrismaClient, { id, attempts }: ClaimedMirrorUpdateJob, error: unknown): Promise<void> => {
+    const isRetried = attempts < MAX_MIRROR_UPDATE_JOB_ATTEMPTS;
+
+
+    await prisma.gamebananaMirrorUpdateJob.update({
+        where: { id },
+        data: isRetried ?
+            { status: "Queued", error: truncateError(error) } :
+            { status: "Failed", error: truncateError(error), timeFinished: getCurrentTime() },
+    });
+
+
+    logger.warn(`GameBanana mirror update job ${id} threw on attempt ${attempts}. ${isRetried ? "It will be retried." : "It has failed."} ${truncateError(error)}`);
+};
+
+
+/** Returns the requested job, or the most recent jobs if no id is given. Returns null if the requested job doesn't exist. */
+export const getMirrorUpdateJobStatusReports = async (prisma: MyPrismaClient, id?: number): Promise<MirrorUpdateJobStatusReport[] | null> => {
+    const jobs = await prisma.gamebananaMirrorUpdateJob.findMany({
+        where: id === undefined ? undefined : { id },
+        orderBy: { id: "desc" },
+        take: RECENT_JOBS_COUNT,
+        select: {
+            id: true,
+            status: true,
+            attempts: true,
+            error: true,
+            report: true,
+            filesTotal: true,
+            filesProcessed: true,
+            filesFailed: true,
+            timeCreated: true,
+            timeStarted: true,
+            timeHeartbeat: true,
+            timeFinished: true,
+        },
+    });
+
+    if (id !== undefined && jobs.length === 0) return null;
+
+
+    return jobs.map(({ report, filesTotal, filesProcessed, filesFailed, ...job }) => ({
+        ...job,
+        progress: { filesTotal, filesProcessed, filesFailed },
+        failures: getFailures(report),
+    }));
+};
\ No newline at end of file
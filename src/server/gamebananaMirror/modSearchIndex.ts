@@ -0,0 +1,176 @@
+import type { ModSearchDatabaseMod } from "./yamlHandlers/modSearchDatabase";
+
+
+
+
+/** How much a query term matching a word in each field adds to a mod's score. */
+const FIELD_WEIGHTS = {
+    name: 10,
+    author: 6,
+    categories: 3,
+    description: 1,
+} as const satisfies Partial<Record<keyof ModSearchDatabaseMod, number>>;
+
+type IndexedField = keyof typeof FIELD_WEIGHTS;
+
+/** A query term that's only a prefix of a word scores this fraction of a full match. */
+const PREFIX_MATCH_MULTIPLIER = 0.5;
+
+const MAX_QUERY_TERMS = 10;
+
+
+
+
+type Posting = {
+    modIndex: number;
+    weight: number;
+};
+
+
+export type ModSearchIndex = {
+    mods: ModSearchDatabaseMod[];
+    /** the highest field weight of each word, for each mod containing it */
+    postings: Map<string, Posting[]>;
+};
+
+
+export type ModSearchOptions = {
+    query: string;
+    pageSize: number;
+    /** starts at 1 */
+    pageNumber: number;
+    /** ie. "Mod" or "Tool". all types if undefined. */
+    gamebananaType?: string;
+    /** mods to leave out of the results, by GameBanana id. only applies to entries whose gamebananaType is "Mod". */
+    excludedGamebananaModIds?: Set<number>;
+};
+
+
+export type ModSearchResult = {
+    mod: ModSearchDatabaseMod;
+    score: number;
+};
+
+
+
+
+/** Lowercases, strips accents, and splits on anything that isn't a letter or digit. */
+const getWords = (text: string): string[] => text
+    .normalize("NFKD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word !== "");
+
+
+
+
+export const createModSearchIndex = (mods: ModSearchDatabaseMod[]): ModSearchIndex => {
+    const postings = new Map<string, Posting[]>();
+
+
+    mods.forEach((mod, modIndex) => {
+        const wordWeights = new Map<string, number>();
+
+        for (const [field, weight] of Object.entries(FIELD_WEIGHTS) as [IndexedField, number][]) {
+            const fieldValue = mod[field];
+
+            const fieldText = Array.isArray(fieldValue) ? fieldValue.join(" ") : fieldValue;
+
+            for (const word of getWords(fieldText)) {
+                wordWeights.set(word, Math.max(wordWeights.get(word) ?? 0, weight));
+            }
+        }
+
+
+        for (const [word, weight] of wordWeights) {
+            const wordPostings = postings.get(word);
+
+            if (wordPostings) wordPostings.push({ modIndex, weight });
+            else postings.set(word, [{ modIndex, weight }]);
+        }
+    });
+
+
+    return { mods, postings };
+};
+
+
+
+
+/**
+ * Returns the page of mods that match every word in the query, best match first, and the total number of matches.
+ * A query word matches a mod if it's a prefix of one of the words in the mod's name, author, categories, or description.
+ * An empty query matches every mod, ordered by downloads.
+ */
+export const searchMods = (
+    { mods, postings }: ModSearchIndex,
+    { query, pageSize, pageNumber, gamebananaType, excludedGamebananaModIds }: ModSearchOptions,
+): { results: ModSearchResult[]; totalCount: number; } => {
+    const queryWords = [...new Set(getWords(query))].slice(0, MAX_QUERY_TERMS);
+
+
+    let scores: Map<number, number>;
+
+    if (queryWords.length === 0) {
+        scores = new Map(mods.map((_mod, modIndex) => [modIndex, 0]));
+    }
+    else {
+        scores = new Map();
+
+        for (const [queryWordIndex, queryWord] of queryWords.entries()) {
+            const queryWordScores = new Map<number, number>();
+
+            for (const [word, wordPostings] of postings) {
+                if (!word.startsWith(queryWord)) continue;
+
+                const multiplier = word === queryWord ? 1 : PREFIX_MATCH_MULTIPLIER;
+
+                for (const { modIndex, weight } of wordPostings) {
+                    queryWordScores.set(modIndex, Math.max(queryWordScores.get(modIndex) ?? 0, weight * multiplier));
+                }
+            }
+
+
+            if (queryWordIndex === 0) {
+                scores = queryWordScores;
+                continue;
+            }
+
+            for (const [modIndex, score] of scores) {     //every query word must match
+                const queryWordScore = queryWordScores.get(modIndex);
+
+                if (queryWordScore === undefined) scores.delete(modIndex);
+                else scores.set(modIndex, score + queryWordScore);
+            }
+        }
+    }
+
+
+    const results: ModSearchResult[] = [];
+
+    for (const [modIndex, score] of scores) {
+        const mod = mods[modIndex];
+
+        if (!mod) continue;     //narrows the type. unreachable.
+
+        if (gamebananaType !== undefined && mod.gamebananaType !== gamebananaType) continue;
+
+        if (mod.gamebananaType === "Mod" && excludedGamebananaModIds?.has(mod.gamebananaId)) continue;
+
+
+        results.push({ mod, score });
+    }
+
+
+    //downloads only break ties. adding them to the score would let a popular mod outrank a better match.
+    results.sort((a, b) => b.score - a.score || b.mod.downloads - a.mod.downloads || a.mod.name.localeCompare(b.mod.name));
+
+
+    const numToSkip = pageSize * (pageNumber - 1);
+
+    return {
+        results: results.slice(numToSkip, numToSkip + pageSize),
+        totalCount: results.length,
+    };
+};
\ No newline at end of file
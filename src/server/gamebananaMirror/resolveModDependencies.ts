@@ -0,0 +1,118 @@
+import type { MyPrismaClient } from "~/server/prisma";
+import { getIndexedEverestUpdateDatabase } from "./yamlHandlers/everestUpdateDatabase";
+import { getModDependencyGraph } from "./yamlHandlers/modDependencyGraph";
+
+
+
+
+/** Everest itself. Every mod depends on it, so it isn't worth listing. */
+const EVEREST_CORE_MOD_NAMES = new Set(["Everest", "EverestCore", "Celeste"]);
+
+
+
+
+export type ModDependency = {
+    /** the name in the dependency's everest.yaml */
+    name: string;
+    /** the highest minimum version required by any mod in the dependency tree */
+    version: string;
+    /** null if the dependency isn't in the Everest Update Database as a GameBanana mod */
+    gamebananaModId: number | null;
+    /** the modlist's Mod for gamebananaModId. null if it isn't listed. */
+    modId: number | null;
+    modName: string | null;
+};
+
+
+
+
+/** Compares dot separated version numbers, ie. "1.10.0" is greater than "1.9.2". Missing parts count as 0. */
+const compareVersions = (a: string, b: string): number => {
+    const aParts = a.split(".").map((part) => parseInt(part, 10) || 0);
+    const bParts = b.split(".").map((part) => parseInt(part, 10) || 0);
+
+
+    for (let partIndex = 0; partIndex < Math.max(aParts.length, bParts.length); partIndex++) {
+        const difference = (aParts[partIndex] ?? 0) - (bParts[partIndex] ?? 0);
+
+        if (difference !== 0) return difference;
+    }
+
+
+    return 0;
+};
+
+
+
+
+/**
+ * Returns everything Everest installs alongside the GameBanana mod, sorted by name.
+ * Follows required dependencies transitively, ignoring optional dependencies, Everest itself, and the mod's own Everest mods.
+ * Throws if the Everest Update Database or the Mod Dependency Graph are unavailable.
+ */
+export const resolveModDependencies = async (prisma: MyPrismaClient, gamebananaModId: number): Promise<ModDependency[]> => {
+    const [everestUpdateDatabase, modDependencyGraph] = await Promise.all([getIndexedEverestUpdateDatabase(), getModDependencyGraph()]);
+
+
+    const ownEverestModNames = new Set((everestUpdateDatabase.byGamebananaModId.get(gamebananaModId) ?? []).map((everestMod) => everestMod.name));
+
+    const requiredVersions = new Map<string, string>();
+
+    const namesToVisit = [...ownEverestModNames];
+    const visitedNames = new Set(ownEverestModNames);
+
+
+    for (let name = namesToVisit.pop(); name !== undefined; name = namesToVisit.pop()) {
+        const dependencies = modDependencyGraph[name]?.Dependencies ?? {};
+
+        for (const [dependencyName, version] of Object.entries(dependencies)) {
+            if (EVEREST_CORE_MOD_NAMES.has(dependencyName) || ownEverestModNames.has(dependencyName)) continue;
+
+
+            const requiredVersion = requiredVersions.get(dependencyName);
+
+            if (requiredVersion === undefined || compareVersions(version, requiredVersion) > 0) requiredVersions.set(dependencyName, version);
+
+
+            if (visitedNames.has(dependencyName)) continue;
+
+            visitedNames.add(dependencyName);
+            namesToVisit.push(dependencyName);
+        }
+    }
+
+
+    const dependencyGamebananaModIds = new Map<string, number>();
+
+    for (const dependencyName of requiredVersions.keys()) {
+        const everestMod = everestUpdateDatabase.byName.get(dependencyName);
+
+        if (everestMod?.GameBananaType === "Mod") dependencyGamebananaModIds.set(dependencyName, everestMod.GameBananaId);
+    }
+
+
+    const listedMods = await prisma.mod.findMany({
+        where: { gamebananaModId: { in: [...new Set(dependencyGamebananaModIds.values())] } },
+        select: { id: true, name: true, gamebananaModId: true },
+    });
+
+    const listedModsByGamebananaModId = new Map(listedMods.map((mod) => [mod.gamebananaModId, mod]));
+
+
+    return [...requiredVersions]
+        .map(([name, version]) => {
+            const dependencyGamebananaModId = dependencyGamebananaModIds.get(name) ?? null;
+
+            const listedMod = dependencyGamebananaModId === null ? undefined : listedModsByGamebananaModId.get(dependencyGamebananaModId);
+
+
+            return {
+                name,
+                version,
+                gamebananaModId: dependencyGamebananaModId,
+                modId: listedMod?.id ?? null,
+                modName: listedMod?.name ?? null,
+            };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
\ No newline at end of file
@@ -0,0 +1,64 @@
+import type { MyPrismaClient } from "~/server/prisma";
+import { getGamebananaModMetadata } from "~/server/gamebanana/modMetadataCache";
+import { getCachedFileListForCategory } from "./cloudflareApi/getCachedFileListForCategory";
+
+
+
+
+const GAMEBANANA_MOD_IMAGES_BASE_URL = process.env.NEXT_PUBLIC_GAMEBANANA_MOD_IMAGES_URL || "https://images.gamebanana.com/img/ss/mods/";
+
+/** The public URL of the mirror's screenshots bucket. Must not include a trailing slash. If empty, GameBanana's URLs are always used. */
+const GAMEBANANA_MIRROR_SCREENSHOTS_BASE_URL = process.env.GAMEBANANA_MIRROR_SCREENSHOTS_URL || "";
+
+
+
+
+export type ModScreenshot = {
+    /** the mirror's copy if it has one, otherwise GameBanana's */
+    url: string;
+    /** GameBanana's copy when `url` is the mirror's, for use if the mirror's copy fails to load */
+    fallbackUrl: string | null;
+};
+
+
+
+
+/** Matches the file names in the Mod Search Database's MirroredScreenshots, ie. "abc.jpg" becomes "img_ss_mods_abc.png". */
+const getMirrorScreenshotFileName = (gamebananaFileName: string): string => {
+    const extensionIndex = gamebananaFileName.lastIndexOf(".");
+
+    const baseName = extensionIndex === -1 ? gamebananaFileName : gamebananaFileName.slice(0, extensionIndex);
+
+
+    return `img_ss_mods_${baseName}.png`;
+};
+
+
+
+
+/**
+ * Returns the URLs of the mod's screenshots, preferring the mirror's copies.
+ * Uses the cached GameBanana metadata, so this keeps working while GameBanana is down.
+ * If the mirror's file list can't be retrieved, GameBanana's URLs are used.
+ */
+export const resolveModScreenshots = async (prisma: MyPrismaClient, gamebananaModId: number): Promise<ModScreenshot[]> => {
+    const { screenshots } = await getGamebananaModMetadata(prisma, gamebananaModId);
+
+
+    const mirrorFileNames = GAMEBANANA_MIRROR_SCREENSHOTS_BASE_URL === "" ? undefined : await getCachedFileListForCategory("screenshots");
+
+
+    return screenshots.map((gamebananaFileName) => {
+        const gamebananaUrl = `${GAMEBANANA_MOD_IMAGES_BASE_URL}${gamebananaFileName}`;
+
+        const mirrorFileName = getMirrorScreenshotFileName(gamebananaFileName);
+
+        if (!mirrorFileNames?.has(mirrorFileName)) return { url: gamebananaUrl, fallbackUrl: null };
+
+
+        return {
+            url: `${GAMEBANANA_MIRROR_SCREENSHOTS_BASE_URL}/${mirrorFileName}`,
+            fallbackUrl: gamebananaUrl,
+        };
+    });
+};
\ No newline at end of file
@@ -3,9 +3,22 @@ import { headers } from "next/headers";
 import { serverLogger as logger } from "~/logger/serverLogger";
 import { authenticateUpdateWebhookRequest } from "~/server/gamebananaMirror/authentication/authenticateUpdateWebhookRequest";
 import { getUpdatedModSearchDatabase } from "~/server/gamebananaMirror/yamlHandlers/modSearchDatabase";
+import { getUpdatedEverestUpdateDatabase } from "~/server/gamebananaMirror/yamlHandlers/everestUpdateDatabase";
+import { getUpdatedModDependencyGraph } from "~/server/gamebananaMirror/yamlHandlers/modDependencyGraph";
 import { DELETE_BATCH_SIZE, FILE_CATEGORIES, isFileCategory, type FileCategory } from "~/server/gamebananaMirror/cloudflareApi/constsAndTypes";
 import { sendDownloadRequestToMirror, deleteFilesFromMirror } from "~/server/gamebananaMirror/cloudflareApi/httpHandlers";
-import { getFileListForCategory } from "~/server/gamebananaMirror/cloudflareApi/getFileListForCategory";
+import { getFileMetadataListForCategory } from "~/server/gamebananaMirror/cloudflareApi/getFileListForCategory";
+import { clearCachedFileLists } from "~/server/gamebananaMirror/cloudflareApi/getCachedFileListForCategory";
+import { refreshAllGamebananaModMetadata } from "~/server/gamebanana/modMetadataCache";
+import {
+    decideMirrorFileSync, getExpectedChecksums, getMirrorFileSyncRecords, saveMirrorFileSyncRecords,
+    type MirrorFileCategorySyncReport, type MirrorFileSyncDecision,
+} from "~/server/gamebananaMirror/mirrorSync";
+import {
+    claimNextMirrorUpdateJob, createMirrorUpdateJob, finishMirrorUpdateJob, requeueInterruptedMirrorUpdateJobs, retryMirrorUpdateJob, saveMirrorUpdateJobProgress,
+    type ClaimedMirrorUpdateJob, type MirrorUpdateJobProgress,
+} from "~/server/gamebananaMirror/mirrorUpdateJobs";
+import { prisma } from "~/server/prisma";
 
 
 
@@ -20,6 +33,22 @@ const FILE_EXTENSIONS_BY_CATEGORY = {
 };
 
 
+/** The number of download and deletion requests sent to the mirror at once. */
+const MIRROR_REQUEST_CONCURRENCY = 4;
+
+/** Failed requests are retried until they've been sent this many times. */
+const MAX_MIRROR_REQUEST_ATTEMPTS = 3;
+
+/** Multiplied by the number of attempts so far. */
+const MIRROR_REQUEST_RETRY_DELAY_MILLISECONDS = 2000;
+
+const MIRROR_UPDATE_JOB_PROGRESS_SAVE_INTERVAL_MILLISECONDS = 5000;
+
+const MIRROR_UPDATE_JOB_RETRY_DELAY_MILLISECONDS = 30 * 1000;
+
+const MIRROR_UPDATE_JOB_POLL_INTERVAL_MILLISECONDS = 60 * 1000;
+
+
 
 
 /** For each FileCategory, contains an array with the download URLs of all of the files that should now exist for that Category.
@@ -51,6 +80,14 @@ type FileInfo = {
 };
 
 
+/** A download or deletion request, and the decisions it carries out. */
+type MirrorRequest = {
+    decisions: MirrorFileSyncDecision[];
+    /** returns an HTTP status code */
+    send: () => Promise<number>;
+};
+
+
 
 
 const isValidFileExtension = <
@@ -175,6 +212,34 @@ const isUpdate = (value: unknown): value is Update => {
 
 
 
+/** Sends the request until it succeeds or has been sent MAX_MIRROR_REQUEST_ATTEMPTS times, waiting longer after each failure.
+ * Returns the HTTP status code of the last attempt.
+ */
+const sendMirrorRequestWithRetries = async (sendRequest: () => Promise<number>): Promise<number> => {
+    let statusCode = 500;
+
+    for (let attempt = 1; attempt <= MAX_MIRROR_REQUEST_ATTEMPTS; attempt++) {
+        try {
+            statusCode = await sendRequest();
+        } catch (error) {
+            logger.warn(`A request to the GameBanana mirror threw on attempt ${attempt}. ${String(error)}`);
+
+            statusCode = 500;
+        }
+
+        if (statusCode === 200) return statusCode;
+
+
+        if (attempt < MAX_MIRROR_REQUEST_ATTEMPTS) await new Promise((resolve) => setTimeout(resolve, MIRROR_REQUEST_RETRY_DELAY_MILLISECONDS * attempt));
+    }
+
+
+    return statusCode;
+};
+
+
+
+
 /** Returns a FileInfo array, or an HTTP status code if there was an error. */
 const getFileInfoArrayFromDownloadUrls = (fileCategory: FileCategory, downloadUrls: string[]): FileInfo[] | number => {
     const validFileExtension = FILE_EXTENSIONS_BY_CATEGORY[fileCategory];
@@ -219,10 +284,11 @@ const getFileInfoArrayFromDownloadUrls = (fileCategory: FileCategory, downloadUr
 
 
 /** Updates a single category of files on the Gamebanana mirror.
- * Assumes that files with the same name are the same file.
- * Returns the HTTP status code of the update.
+ * Files with the same name are compared by their checksums where the Everest Update Database has them, and re-downloaded if they don't match.
+ * Adds the category's downloads and deletions to the progress as they're sent.
+ * Returns the HTTP status code of the update, and what was done with each file.
  */
-const updateFileCategory = async (fileCategory: FileCategory, downloadUrls: string[]): Promise<number> => {
+const updateFileCategory = async (fileCategory: FileCategory, downloadUrls: string[], progress: MirrorUpdateJobProgress): Promise<MirrorFileCategorySyncReport> => {
     // Get the FileInfo array
     logger.debug(`Getting the FileInfo array for file category: ${fileCategory}`);
 
@@ -231,112 +297,148 @@ const updateFileCategory = async (fileCategory: FileCategory, downloadUrls: stri
     if (typeof fileInfoArrayOrStatusCode === "number") {
         logger.error(`Failed to generate fileInfoArray for file category: ${fileCategory}. Status code: ${fileInfoArrayOrStatusCode}`);
 
-        return fileInfoArrayOrStatusCode;
+        return { statusCode: fileInfoArrayOrStatusCode, decisions: [] };
     }
 
     logger.debug(`FileInfo array: ${JSON.stringify(fileInfoArrayOrStatusCode)}`);
 
 
-    // Get the existing file names
-    logger.debug(`Getting the existing file names for file category: ${fileCategory}`);
+    // Get the existing files
+    logger.debug(`Getting the existing files for file category: ${fileCategory}`);
 
-    const existingFileNamesOrStatusCode = await getFileListForCategory(fileCategory);
+    const existingFilesOrStatusCode = await getFileMetadataListForCategory(fileCategory);
 
-    if (typeof existingFileNamesOrStatusCode === "number") {
-        logger.error(`Failed to get existing file names for file category: ${fileCategory}. Status code: ${existingFileNamesOrStatusCode}`);
+    if (typeof existingFilesOrStatusCode === "number") {
+        logger.error(`Failed to get existing files for file category: ${fileCategory}. Status code: ${existingFilesOrStatusCode}`);
 
-        return existingFileNamesOrStatusCode;
+        return { statusCode: existingFilesOrStatusCode, decisions: [] };
     }
 
-    logger.debug(`Existing file names: ${JSON.stringify(existingFileNamesOrStatusCode)}`);
+    logger.debug(`Existing files: ${JSON.stringify(existingFilesOrStatusCode)}`);
 
 
-    // Determine which files already exist (so don't need to be downloaded) and which files should be deleted
+    // Decide which files should be kept, downloaded, re-downloaded, or deleted
     logger.debug(`Comparing the existing files with the new files for file category: ${fileCategory}`);
 
-    const filesToDelete: string[] = [];
+    const expectedChecksums = await getExpectedChecksums(prisma, fileCategory);
 
-    for (const existingFileName of existingFileNamesOrStatusCode) {
-        const existingFileIndex = fileInfoArrayOrStatusCode.findIndex(fileInfo => fileInfo.fileName === existingFileName);
+    let syncRecords: Awaited<ReturnType<typeof getMirrorFileSyncRecords>>;
 
-        if (existingFileIndex === -1) { // The file should be deleted
-            filesToDelete.push(existingFileName);
-        } else {    // The file already exists
-            fileInfoArrayOrStatusCode.splice(existingFileIndex, 1);
-        }
+    try {
+        syncRecords = await getMirrorFileSyncRecords(prisma, fileCategory);
+    } catch (error) {
+        logger.error(`Failed to get the mirror sync records for file category: ${fileCategory}. ${String(error)}`);
+
+        return { statusCode: 500, decisions: [] };
+    }
+
+    const decisions = decideMirrorFileSync(fileInfoArrayOrStatusCode, existingFilesOrStatusCode, expectedChecksums, syncRecords);
+
+    for (const decision of decisions) {
+        const message = `Mirror sync decision for file category ${fileCategory}: ${JSON.stringify(decision)}`;
+
+        if (decision.action === "keep") logger.debug(message);
+        else logger.info(message);
     }
 
 
-    // Delete the files that should no longer exist
+    // Queue the deletions of the files that should no longer exist
+    const filesToDelete = decisions.filter((decision) => decision.action === "delete");
+
         logger.info(`Deleting ${filesToDelete.length} files from the GameBanana mirror for file category: ${fileCategory}`);
-        logger.debug(`Files to delete: ${JSON.stringify(filesToDelete)}`);
 
-    const fileDeletionPromises: Promise<number>[] = [];
+    const mirrorRequests: MirrorRequest[] = [];
 
     for (let index = 0; index < filesToDelete.length; index += DELETE_BATCH_SIZE) {
-        const fileNamesBatch = filesToDelete.slice(index, index + DELETE_BATCH_SIZE);
+        const decisionsBatch = filesToDelete.slice(index, index + DELETE_BATCH_SIZE);
+
+        const fileNamesBatch = decisionsBatch.map((decision) => decision.fileName);
 
         if (fileNamesBatch.length === 0) {
             break;
         }
 
 
-        const deletionPromise = deleteFilesFromMirror(fileCategory, fileNamesBatch as [string, ...string[]]);   // This is safe because the length is checked above
+        mirrorRequests.push({
+            decisions: decisionsBatch,
+            send: () => deleteFilesFromMirror(fileCategory, fileNamesBatch as [string, ...string[]]),   // This is safe because the length is checked above
+        });
+    }
+
+
+    // Queue the downloads of the new and mismatched files
+    const filesToDownload = decisions.filter((decision) => decision.action === "download" || decision.action === "redownload");
 
-        fileDeletionPromises.push(deletionPromise);
+        logger.info(`Downloading ${filesToDownload.length} new or changed files to the GameBanana mirror for file category: ${fileCategory}`);
+
+    for (const decision of filesToDownload) {
+        mirrorRequests.push({
+            decisions: [decision],
+            send: () => sendDownloadRequestToMirror(fileCategory, decision.fileName, decision.downloadUrl ?? ""),   // Download decisions always have a download URL
+        });
     }
 
 
-    // Download the new files
-        logger.info(`Downloading ${fileInfoArrayOrStatusCode.length} new files to the GameBanana mirror for file category: ${fileCategory}`);
-        logger.debug(`Files to download: ${JSON.stringify(fileInfoArrayOrStatusCode)}`);
+    // Send the requests, a few at a time
+    progress.filesTotal += filesToDelete.length + filesToDownload.length;
 
-    const newFileDownloadPromises: Promise<number>[] = [];
+    let nextRequestIndex = 0;
 
-    for (const fileInfo of fileInfoArrayOrStatusCode) {
-        const downloadPromise = sendDownloadRequestToMirror(fileCategory, fileInfo.fileName, fileInfo.downloadUrl);
+    const sendNextRequests = async () => {
+        while (nextRequestIndex < mirrorRequests.length) {
+            const mirrorRequest = mirrorRequests[nextRequestIndex++];
 
-        newFileDownloadPromises.push(downloadPromise);
-    }
+            if (mirrorRequest === undefined) return;     // Narrows the type. Unreachable.
+
+
+            const statusCode = await sendMirrorRequestWithRetries(mirrorRequest.send);
 
+            for (const decision of mirrorRequest.decisions) {
+                decision.statusCode = statusCode;
+            }
+
+            progress.filesProcessed += mirrorRequest.decisions.length;
+
+            if (statusCode !== 200) progress.filesFailed += mirrorRequest.decisions.length;
+        }
+    };
 
-    // Wait for all deletions and downloads to complete
-    const deletionResults = await Promise.all(fileDeletionPromises);
-    const downloadResults = await Promise.all(newFileDownloadPromises);
+    await Promise.all(Array.from({ length: MIRROR_REQUEST_CONCURRENCY }, sendNextRequests));
 
         logger.debug(`All deletions and downloads have completed for file category: ${fileCategory}`);
-        logger.debug(`Deletion results: ${JSON.stringify(deletionResults)}`);
-        logger.debug(`Download results: ${JSON.stringify(downloadResults)}`);
 
 
-    // Check for any errors
-    const allResults = [...deletionResults, ...downloadResults];
+    // Record the files' checksums for the next sync
+    try {
+        await saveMirrorFileSyncRecords(prisma, fileCategory, decisions, existingFilesOrStatusCode, expectedChecksums, syncRecords);
+    } catch (error) {
+        logger.error(`Failed to save the mirror sync records for file category: ${fileCategory}. ${String(error)}`);     // The next sync compares against the previous records
+    }
 
-    const hasError = allResults.some(result => result !== 200);
+
+    // Check for any errors
+    const hasError = decisions.some(decision => decision.action !== "keep" && decision.statusCode !== 200);
 
     if (hasError) {
         logger.warn(`Failed to update the GameBanana mirror for file category: ${fileCategory}`);
 
-        return 500;
+        return { statusCode: 500, decisions };
     }
 
 
     logger.info(`Successfully updated the GameBanana mirror for file category: ${fileCategory}`);
 
-    return 200;
+    return { statusCode: 200, decisions };
 };
 
 
 
 
-/** Updates the GameBanana mirror.
- * Assumes that files with the same name are the same file.
+/** Updates the GameBanana mirror, one file category at a time.
+ * Adds each category's report to the progress when the category is finished.
  * Returns the HTTP status code of the update.
 */
-const updateGamebananaMirror = async (update: Update): Promise<number> => {
-    const updatePromises: Promise<number>[] = [];
-
-
+const updateGamebananaMirror = async (update: Update, progress: MirrorUpdateJobProgress): Promise<number> => {
     logger.info("Updating the GameBanana mirror.");
 
     for (const fileCategory of FILE_CATEGORIES) {
@@ -344,19 +446,14 @@ const updateGamebananaMirror = async (update: Update): Promise<number> => {
 
         logger.debug(`Download URLs for ${fileCategory}: ${downloadUrls}`);
 
-        
-        const updatePromise = updateFileCategory(fileCategory, downloadUrls);
 
-        updatePromises.push(updatePromise);
+        progress.report[fileCategory] = await updateFileCategory(fileCategory, downloadUrls, progress);
     }
 
-
-    const updateResults = await Promise.all(updatePromises);
-
     logger.info("All file categories have been updated.");
 
 
-    const hasError = updateResults.some(result => result !== 200);
+    const hasError = FILE_CATEGORIES.some(fileCategory => progress.report[fileCategory]?.statusCode !== 200);
 
     if (hasError) {
         return 500;
@@ -369,10 +466,141 @@ const updateGamebananaMirror = async (update: Update): Promise<number> => {
 
 
 
-/** Downloads the new Everest Update Database and Mod Search Database before sending a response.
- * Assumes that files with the same name are the same file.
- * Sends a 200 status code if the download was successful.
- * Sends a 500 status code if the download was unsuccessful.
+/** Runs a claimed job to completion. Progress is saved periodically so it can be checked while the job runs. */
+const runMirrorUpdateJob = async (job: ClaimedMirrorUpdateJob): Promise<void> => {
+    const progress: MirrorUpdateJobProgress = { filesTotal: 0, filesProcessed: 0, filesFailed: 0, report: {} };
+
+
+    if (!isUpdate(job.update)) {   // Validated before the job was created, so this only happens if the stored job was changed
+        logger.error(`GameBanana mirror update job ${job.id} has an invalid update.`);
+
+        await finishMirrorUpdateJob(prisma, job.id, "Failed", progress);
+
+        return;
+    }
+
+    const update = job.update;
+
+
+    logger.info(`Running GameBanana mirror update job ${job.id}. Attempt: ${job.attempts}`);
+
+    const progressInterval = setInterval(
+        () => {
+            saveMirrorUpdateJobProgress(prisma, job.id, progress).catch((error) => logger.warn(`Failed to save the progress of GameBanana mirror update job ${job.id}. ${String(error)}`));
+        },
+        MIRROR_UPDATE_JOB_PROGRESS_SAVE_INTERVAL_MILLISECONDS,
+    );
+
+    let mirrorUpdateStatus: number;
+
+    try {
+        // Update the Everest Update Database first, so the mirror's files are compared against the latest checksums
+        try {
+            await getUpdatedEverestUpdateDatabase();
+        } catch (error) {
+            logger.warn(`Failed to update the Everest Update Database. The stored copy will be used to compare checksums. ${String(error)}`);
+        }
+
+
+        // Update the GameBanana mirror
+        mirrorUpdateStatus = await updateGamebananaMirror(update, progress);
+    } finally {
+        clearInterval(progressInterval);
+
+        clearCachedFileLists();     // Even a failed update may have changed some files
+    }
+
+
+    if (mirrorUpdateStatus === 200) {
+        logger.info("Successfully updated the GameBanana mirror.");
+    }   // The errors are logged in the httpHandler functions
+
+    await finishMirrorUpdateJob(prisma, job.id, mirrorUpdateStatus === 200 ? "Succeeded" : "Failed", progress);
+
+
+    // Refresh the cached GameBanana metadata and the Mod Dependency Graph in the background. It can take a while, and the job's status doesn't depend on it.
+    refreshAllGamebananaModMetadata(prisma).catch((error) => logger.error(`Failed to refresh the cached GameBanana metadata. ${error}`));
+
+    getUpdatedModDependencyGraph().catch((error) => logger.error(`Failed to update the Mod Dependency Graph. ${String(error)}`));
+};
+
+
+let runningMirrorUpdateWorker: Promise<void> | undefined;
+
+let isMirrorUpdateJobQueuedWhileRunning = false;
+
+let mirrorUpdateJobPollInterval: ReturnType<typeof setInterval> | undefined;
+
+
+/** Runs queued jobs one at a time until there are none left. Only one worker runs at a time in each process.
+ * Jobs that threw are queued again after a delay, up to MAX_MIRROR_UPDATE_JOB_ATTEMPTS times.
+ * Jobs that were interrupted (ie. by a server restart) are queued again before looking for jobs to run.
+ */
+const processMirrorUpdateJobs = (): Promise<void> => {
+    if (runningMirrorUpdateWorker) {
+        isMirrorUpdateJobQueuedWhileRunning = true;     // The worker may have already checked for jobs
+
+        return runningMirrorUpdateWorker;
+    }
+
+
+    const work = async () => {
+        await requeueInterruptedMirrorUpdateJobs(prisma);
+
+
+        for (let job = await claimNextMirrorUpdateJob(prisma); job; job = await claimNextMirrorUpdateJob(prisma)) {
+            try {
+                await runMirrorUpdateJob(job);
+            } catch (error) {
+                await retryMirrorUpdateJob(prisma, job, error);
+
+                await new Promise((resolve) => setTimeout(resolve, MIRROR_UPDATE_JOB_RETRY_DELAY_MILLISECONDS));     // Give whatever went wrong a chance to recover
+            }
+        }
+    };
+
+
+    runningMirrorUpdateWorker = work()
+        .catch((error) => logger.error(`The GameBanana mirror update worker stopped. ${String(error)}`))
+        .finally(() => {
+            runningMirrorUpdateWorker = undefined;
+
+            if (isMirrorUpdateJobQueuedWhileRunning) {
+                isMirrorUpdateJobQueuedWhileRunning = false;
+
+                void processMirrorUpdateJobs();
+            }
+        });
+
+    return runningMirrorUpdateWorker;
+};
+
+
+/** Runs the worker now and then periodically, so that interrupted jobs and jobs queued by other instances don't wait for the next webhook request.
+ * Called once when the server starts.
+ */
+export const startMirrorUpdateJobPolling = (): void => {
+    if (mirrorUpdateJobPollInterval) return;
+
+
+    const poll = () => {
+        if (runningMirrorUpdateWorker) return;     // The worker looks for jobs again before it stops
+
+        processMirrorUpdateJobs().catch((error) => logger.error(`Failed to process the GameBanana mirror update jobs. ${String(error)}`));
+    };
+
+    poll();
+
+    mirrorUpdateJobPollInterval = setInterval(poll, MIRROR_UPDATE_JOB_POLL_INTERVAL_MILLISECONDS);
+};
+
+
+
+
+/** Downloads the new Mod Search Database before sending a response, then queues a job to update the GameBanana mirror.
+ * Files with the same name are re-downloaded if their checksums don't match the Everest Update Database.
+ * Sends a 202 status code if the job was queued. The response body is `{ jobId }`. The job's progress can be checked with the update webhook's jobs route.
+ * Sends a 500 status code if the Mod Search Database download was unsuccessful, or the job couldn't be queued.
  * Sends 40X or 500 status codes if the authentication fails.
 */
 export const updateWebhookHandler = async <
@@ -536,18 +764,30 @@ export const updateWebhookHandler = async <
     }
 
 
-    // Update the GameBanana mirror
-    const mirrorUpdateStatus = await updateGamebananaMirror(requestBodyObject);
+    // Queue the GameBanana mirror update. It can outlive the caller's timeout, so it runs after the response is sent.
+    let jobId: number;
 
-    if (mirrorUpdateStatus === 200) {
-        logger.info("Successfully updated the GameBanana mirror.");
-    }   // The errors are logged in the httpHandler functions
+    try {
+        jobId = await createMirrorUpdateJob(prisma, requestBodyObject);
+    } catch (error) {
+        logger.error(`Failed to queue the GameBanana mirror update. ${String(error)}`);
+
+        return new NextResponse(
+            "Failed to queue the GameBanana mirror update.",
+            {
+                status: 500,
+            }
+        );
+    }
+
+
+    processMirrorUpdateJobs().catch((error) => logger.error(`Failed to process the GameBanana mirror update jobs. ${String(error)}`));
 
 
-    return new NextResponse(
-        null,
+    return NextResponse.json(
+        { jobId },
         {
-            status: mirrorUpdateStatus,
+            status: 202,
         }
     );
 };
\ No newline at end of file
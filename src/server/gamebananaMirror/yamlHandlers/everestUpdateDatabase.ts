@@ -1,9 +1,10 @@
-import { getCurrentYaml, getFileSystemErrorString, getUpdatedYaml } from "./utils/getUpdatedYamlFile";
+import { z } from "zod";
+import { CELESTE_DATABASES_BASE_URL, getCachedYaml, getCurrentYaml, getFileSystemErrorString, getUpdatedYaml, getYamlRecordValidator } from "./utils/getUpdatedYamlFile";
 
 
 
 
-const EVEREST_UPDATE_DATABASE_YAML_URL = "https://maddie480.ovh/celeste/everest_update.yaml";
+const EVEREST_UPDATE_DATABASE_YAML_URL = `${CELESTE_DATABASES_BASE_URL}/everest_update.yaml`;
 
 const EVEREST_UPDATE_DATABASE_JSON_PATH = process.env.EVEREST_UPDATE_DATABASE_JSON_PATH || "";
 
@@ -15,14 +16,67 @@ const everestUpdateDatabaseFileSystemErrorString = getFileSystemErrorString(EVER
 
 
 
-export type EverestUpdateDatabase = Record<string, unknown>;
+/** Keys that aren't listed are stripped, so that new keys in the yaml file don't fail validation. */
+const everestUpdateDatabaseEntrySchema = z.object({
+    GameBananaType: z.string().min(1),
+    Version: z.string().min(1),
+    LastUpdate: z.number().int().nonnegative().optional(),
+    Size: z.number().int().nonnegative().optional(),
+    GameBananaId: z.number().int().positive(),
+    GameBananaFileId: z.number().int().positive(),
+    xxHash: z.array(z.string().regex(/^[0-9a-f]{1,16}$/)).min(1),    //64-bit hashes in lowercase hex
+    URL: z.string().url(),
+    MirrorURL: z.string().url(),
+});
 
+export type EverestUpdateDatabaseEntry = z.infer<typeof everestUpdateDatabaseEntrySchema>;
 
 
+/** Keyed by the name in the mod's everest.yaml. Invalid entries are dropped when the file is validated. */
+export type EverestUpdateDatabase = Record<string, EverestUpdateDatabaseEntry>;
 
-/** Only validates the parts of the object that this repository consumes. */
-const isValidEverestUpdateInfo = (value: unknown): value is EverestUpdateDatabase => {
-    return true;    // currently unused, so not validating anything
+
+export type EverestMod = {
+    /** the name in the mod's everest.yaml */
+    name: string;
+} & EverestUpdateDatabaseEntry;
+
+
+export type IndexedEverestUpdateDatabase = {
+    byName: Map<string, EverestMod>;
+    /** Only includes entries whose GameBananaType is "Mod". One GameBanana mod can contain several Everest mods. */
+    byGamebananaModId: Map<number, EverestMod[]>;
+};
+
+
+
+
+const validateEverestUpdateDatabase = getYamlRecordValidator(EVEREST_UPDATE_DATABASE_YAML_NAME, everestUpdateDatabaseEntrySchema);
+
+
+const indexEverestUpdateDatabase = (everestUpdateDatabase: EverestUpdateDatabase): IndexedEverestUpdateDatabase => {
+    const indexedEverestUpdateDatabase: IndexedEverestUpdateDatabase = {
+        byName: new Map(),
+        byGamebananaModId: new Map(),
+    };
+
+
+    for (const [name, entry] of Object.entries(everestUpdateDatabase)) {
+        const everestMod: EverestMod = { name, ...entry };
+
+        indexedEverestUpdateDatabase.byName.set(name, everestMod);
+
+
+        if (entry.GameBananaType !== "Mod") continue;
+
+        const gamebananaModEntries = indexedEverestUpdateDatabase.byGamebananaModId.get(entry.GameBananaId);
+
+        if (gamebananaModEntries) gamebananaModEntries.push(everestMod);
+        else indexedEverestUpdateDatabase.byGamebananaModId.set(entry.GameBananaId, [everestMod]);
+    }
+
+
+    return indexedEverestUpdateDatabase;
 };
 
 
@@ -34,9 +88,9 @@ export const getCurrentEverestUpdateDatabase = async (): Promise<EverestUpdateDa
         EVEREST_UPDATE_DATABASE_YAML_NAME,
         everestUpdateDatabaseFileSystemErrorString,
         EVEREST_UPDATE_DATABASE_JSON_PATH,
-        isValidEverestUpdateInfo,
+        validateEverestUpdateDatabase,
     );
-    
+
 
     return parsedYaml;
 };
@@ -44,18 +98,25 @@ export const getCurrentEverestUpdateDatabase = async (): Promise<EverestUpdateDa
 
 
 
-/** Updates the everest update database json file.
- * Also returns the parsed and validated object.
-*/
-export const getUpdatedEverestUpdateDatabase = async (): Promise<EverestUpdateDatabase> => {
-    const parsedYaml = getUpdatedYaml(
+const cachedEverestUpdateDatabase = getCachedYaml(
+    EVEREST_UPDATE_DATABASE_YAML_NAME,
+    getCurrentEverestUpdateDatabase,
+    () => getUpdatedYaml(
         EVEREST_UPDATE_DATABASE_YAML_URL,
         EVEREST_UPDATE_DATABASE_YAML_NAME,
         everestUpdateDatabaseFileSystemErrorString,
         EVEREST_UPDATE_DATABASE_JSON_PATH,
-        isValidEverestUpdateInfo,
-    );
+        validateEverestUpdateDatabase,
+    ),
+    indexEverestUpdateDatabase,
+);
 
 
-    return parsedYaml;
-};
\ No newline at end of file
+/** Updates the everest update database json file and the in-memory index.
+ * Also returns the parsed and validated object.
+*/
+export const getUpdatedEverestUpdateDatabase = cachedEverestUpdateDatabase.update;
+
+
+/** Returns the in-memory index of the everest update database. */
+export const getIndexedEverestUpdateDatabase = cachedEverestUpdateDatabase.get;
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { CELESTE_DATABASES_BASE_URL, getCachedYaml, getCurrentYaml, getFileSystemErrorString, getUpdatedYaml, getYamlValidator } from "./utils/getUpdatedYamlFile";
+
+
+
+
+const MOD_DEPENDENCY_GRAPH_YAML_URL = `${CELESTE_DATABASES_BASE_URL}/mod_dependency_graph.yaml`;
+
+const MOD_DEPENDENCY_GRAPH_JSON_PATH = process.env.MOD_DEPENDENCY_GRAPH_JSON_PATH || "";
+
+
+const MOD_DEPENDENCY_GRAPH_YAML_NAME = "Mod Dependency Graph";
+
+const modDependencyGraphFileSystemErrorString = getFileSystemErrorString(MOD_DEPENDENCY_GRAPH_YAML_NAME);
+
+
+
+
+/** Keyed by the dependency's name in its everest.yaml. The values are the minimum required versions. */
+const modDependenciesSchema = z.record(z.string().min(1), z.string());
+
+
+/** Keys that aren't listed are stripped, so that new keys in the yaml file don't fail validation. */
+const modDependencyGraphEntrySchema = z.object({
+    URL: z.string().url(),
+    Dependencies: modDependenciesSchema,
+    OptionalDependencies: modDependenciesSchema.optional(),
+});
+
+export type ModDependencyGraphEntry = z.infer<typeof modDependencyGraphEntrySchema>;
+
+
+/** Keyed by the name in the mod's everest.yaml, like the Everest Update Database. */
+const modDependencyGraphSchema = z.record(z.string().min(1), modDependencyGraphEntrySchema);
+
+export type ModDependencyGraph = z.infer<typeof modDependencyGraphSchema>;
+
+
+
+
+const validateModDependencyGraph = getYamlValidator(MOD_DEPENDENCY_GRAPH_YAML_NAME, modDependencyGraphSchema);
+
+
+
+
+/** Returns the mod dependency graph json file currently stored on disk. */
+export const getCurrentModDependencyGraph = async (): Promise<ModDependencyGraph> => {
+    const parsedYaml = getCurrentYaml(
+        MOD_DEPENDENCY_GRAPH_YAML_NAME,
+        modDependencyGraphFileSystemErrorString,
+        MOD_DEPENDENCY_GRAPH_JSON_PATH,
+        validateModDependencyGraph,
+    );
+
+
+    return parsedYaml;
+};
+
+
+
+
+const cachedModDependencyGraph = getCachedYaml(
+    MOD_DEPENDENCY_GRAPH_YAML_NAME,
+    getCurrentModDependencyGraph,
+    () => getUpdatedYaml(
+        MOD_DEPENDENCY_GRAPH_YAML_URL,
+        MOD_DEPENDENCY_GRAPH_YAML_NAME,
+        modDependencyGraphFileSystemErrorString,
+        MOD_DEPENDENCY_GRAPH_JSON_PATH,
+        validateModDependencyGraph,
+    ),
+    (modDependencyGraph) => modDependencyGraph,
+);
+
+
+/** Updates the mod dependency graph json file and the in-memory copy.
+ * Also returns the parsed and validated object.
+*/
+export const getUpdatedModDependencyGraph = cachedModDependencyGraph.update;
+
+
+/** Returns the in-memory copy of the mod dependency graph. */
+export const getModDependencyGraph = cachedModDependencyGraph.get;
\ No newline at end of file
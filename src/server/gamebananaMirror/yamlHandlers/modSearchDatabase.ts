@@ -1,9 +1,11 @@
-import { getCurrentYaml, getFileSystemErrorString, getUpdatedYaml } from "./utils/getUpdatedYamlFile";
+import { z } from "zod";
+import { createModSearchIndex } from "../modSearchIndex";
+import { CELESTE_DATABASES_BASE_URL, getCachedYaml, getCurrentYaml, getFileSystemErrorString, getUpdatedYaml, getYamlValidator } from "./utils/getUpdatedYamlFile";
 
 
 
 
-const MOD_SEARCH_DATABASE_YAML_URL = "https://maddie480.ovh/celeste/mod_search_database.yaml";
+const MOD_SEARCH_DATABASE_YAML_URL = `${CELESTE_DATABASES_BASE_URL}/mod_search_database.yaml`;
 
 const MOD_SEARCH_DATABASE_JSON_PATH = process.env.MOD_SEARCH_DATABASE_JSON_PATH || "";
 
@@ -15,28 +17,123 @@ const modSearchDatabaseFileSystemErrorString = getFileSystemErrorString(MOD_SEAR
 
 
 
-export type ModSearchDatabase = Record<string, unknown>;
+/** Keys that aren't listed are stripped, so that new keys in the yaml file don't fail validation. */
+const modSearchDatabaseFileSchema = z.object({
+    URL: z.string().url(),
+    Name: z.string(),
+    Size: z.number().int().nonnegative(),
+    CreatedDate: z.number().int().nonnegative(),
+    Downloads: z.number().int().nonnegative(),
+    Description: z.string(),
+    HasEverestYaml: z.boolean(),
+});
 
 
+/** Keys that aren't listed are stripped, so that new keys in the yaml file don't fail validation. */
+const modSearchDatabaseEntrySchema = z.object({
+    GameBananaType: z.string().min(1),
+    GameBananaId: z.number().int().positive(),
+    Name: z.string(),
+    PageURL: z.string().url(),
+    Author: z.string(),
+    Description: z.string(),
+    Views: z.number().int().nonnegative(),
+    Likes: z.number().int().nonnegative(),
+    Downloads: z.number().int().nonnegative(),
+    CategoryName: z.string().optional(),
+    SubcategoryName: z.string().optional(),
+    CreatedDate: z.number().int().nonnegative(),
+    ModifiedDate: z.number().int().nonnegative(),
+    Screenshots: z.array(z.string().url()),
+    MirroredScreenshots: z.array(z.string().url()).optional(),
+    Files: z.array(modSearchDatabaseFileSchema),
+});
 
 
-/** Only validates the parts of the object that this repository consumes. */
-const isValidModSearchDatabase = (value: unknown): value is ModSearchDatabase => {
-    return true;    // currently unused, so not validating anything
+const modSearchDatabaseSchema = z.array(modSearchDatabaseEntrySchema);
+
+export type ModSearchDatabase = z.infer<typeof modSearchDatabaseSchema>;
+
+
+
+
+export type ModSearchDatabaseFile = {
+    url: string;
+    name: string;
+    size: number;
+    timeCreated: number;
+    downloads: number;
+    description: string;
+    hasEverestYaml: boolean;
+};
+
+
+export type ModSearchDatabaseMod = {
+    gamebananaType: string;
+    gamebananaId: number;
+    name: string;
+    pageUrl: string;
+    author: string;
+    /** the category, followed by the subcategory if there is one */
+    categories: string[];
+    description: string;
+    screenshots: string[];
+    mirroredScreenshots: string[];
+    files: ModSearchDatabaseFile[];
+    views: number;
+    likes: number;
+    downloads: number;
+    timeCreated: number;
+    timeModified: number;
 };
 
 
 
 
+const validateModSearchDatabase = getYamlValidator(MOD_SEARCH_DATABASE_YAML_NAME, modSearchDatabaseSchema);
+
+
+/** Converts the yaml file's entries into the typed model used by the rest of the app. */
+const getModSearchDatabaseMods = (modSearchDatabase: ModSearchDatabase): ModSearchDatabaseMod[] => modSearchDatabase.map(
+    (entry) => ({
+        gamebananaType: entry.GameBananaType,
+        gamebananaId: entry.GameBananaId,
+        name: entry.Name,
+        pageUrl: entry.PageURL,
+        author: entry.Author,
+        categories: [entry.CategoryName, entry.SubcategoryName].filter((category): category is string => category !== undefined && category !== ""),
+        description: entry.Description,
+        screenshots: entry.Screenshots,
+        mirroredScreenshots: entry.MirroredScreenshots ?? [],
+        files: entry.Files.map((file) => ({
+            url: file.URL,
+            name: file.Name,
+            size: file.Size,
+            timeCreated: file.CreatedDate,
+            downloads: file.Downloads,
+            description: file.Description,
+            hasEverestYaml: file.HasEverestYaml,
+        })),
+        views: entry.Views,
+        likes: entry.Likes,
+        downloads: entry.Downloads,
+        timeCreated: entry.CreatedDate,
+        timeModified: entry.ModifiedDate,
+    }),
+);
+
+
+
+
 /** Returns the mod search database json file currently stored on disk. */
 export const getCurrentModSearchDatabase = async (): Promise<ModSearchDatabase> => {
     const parsedYaml = getCurrentYaml(
         MOD_SEARCH_DATABASE_YAML_NAME,
         modSearchDatabaseFileSystemErrorString,
         MOD_SEARCH_DATABASE_JSON_PATH,
-        isValidModSearchDatabase,
+        validateModSearchDatabase,
     );
-    
+
 
     return parsedYaml;
 };
@@ -44,18 +141,25 @@ export const getCurrentModSearchDatabase = async (): Promise<ModSearchDatabase>
 
 
 
-/** Updates the mod search database json file.
- * Also returns the parsed and validated object.
-*/
-export const getUpdatedModSearchDatabase = async (): Promise<ModSearchDatabase> => {
-    const parsedYaml = getUpdatedYaml(
+const cachedModSearchDatabase = getCachedYaml(
+    MOD_SEARCH_DATABASE_YAML_NAME,
+    getCurrentModSearchDatabase,
+    () => getUpdatedYaml(
         MOD_SEARCH_DATABASE_YAML_URL,
         MOD_SEARCH_DATABASE_YAML_NAME,
         modSearchDatabaseFileSystemErrorString,
         MOD_SEARCH_DATABASE_JSON_PATH,
-        isValidModSearchDatabase,
-    );
+        validateModSearchDatabase,
+    ),
+    (modSearchDatabase) => createModSearchIndex(getModSearchDatabaseMods(modSearchDatabase)),
+);
 
 
-    return parsedYaml;
-};
\ No newline at end of file
+/** Updates the mod search database json file and the in-memory search index.
+ * Also returns the parsed and validated object.
+*/
+export const getUpdatedModSearchDatabase = cachedModSearchDatabase.update;
+
+
+/** Returns the in-memory search index of the mod search database. */
+export const getModSearchIndex = cachedModSearchDatabase.get;
\ No newline at end of file
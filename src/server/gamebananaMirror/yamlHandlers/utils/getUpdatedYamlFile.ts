@@ -1,5 +1,6 @@
 import { writeFile, readFile } from "fs/promises";
 import { parse } from "yaml";
+import { z } from "zod";
 import { serverLogger as logger } from "~/logger/serverLogger";
 
 
@@ -7,6 +8,12 @@ import { serverLogger as logger } from "~/logger/serverLogger";
 
 const JSON_FILE_ENCODING = "utf-8";
 
+const MAX_VALIDATION_ISSUES_IN_LOG = 10;
+
+
+/** Set CELESTE_DATABASES_URL to the fake services server to run without network access. Must not include a trailing slash. */
+export const CELESTE_DATABASES_BASE_URL = process.env.CELESTE_DATABASES_URL || "https://maddie480.ovh/celeste";
+
 
 
 
@@ -15,22 +22,89 @@ export const getFileSystemErrorString = (yamlName: string) => `Failed to write t
 
 
 
-export const getCurrentYaml = async <
-    ParsedYaml extends Record<string, unknown>,
-    TypePredicate extends (value: unknown) => value is ParsedYaml = (value: unknown) => value is ParsedYaml,
->(
+/** Returns the validated object, or undefined if the value failed validation. */
+export type YamlValidator<ParsedYaml extends object> = (value: unknown) => ParsedYaml | undefined;
+
+
+/** Returns a validator that parses the value with the schema, and logs the first few issues if it fails. */
+export const getYamlValidator = <ParsedYaml extends object>(
+    yamlName: string,
+    schema: z.ZodType<ParsedYaml, z.ZodTypeDef, unknown>,
+): YamlValidator<ParsedYaml> => (value) => {
+    const parseResult = schema.safeParse(value);
+
+    if (parseResult.success) return parseResult.data;
+
+
+    const issues = parseResult.error.issues.slice(0, MAX_VALIDATION_ISSUES_IN_LOG).map(({ path, message }) => `${path.join(".")}: ${message}`);
+
+    logger.error(`${yamlName} validation failed with ${parseResult.error.issues.length} issues. ${issues.join("; ")}`);
+
+
+    return undefined;
+};
+
+
+/** Returns a validator for a record that validates each entry separately.
+ * Invalid entries are dropped and logged, so that one malformed entry doesn't fail the whole file.
+ */
+export const getYamlRecordValidator = <Entry extends object>(
+    yamlName: string,
+    entrySchema: z.ZodType<Entry, z.ZodTypeDef, unknown>,
+): YamlValidator<Record<string, Entry>> => {
+    const validateRecord = getYamlValidator(yamlName, z.record(z.string().min(1), z.unknown()));
+
+
+    return (value) => {
+        const record = validateRecord(value);
+
+        if (!record) return undefined;
+
+
+        const validEntries: [string, Entry][] = [];
+        const invalidEntryIssues: string[] = [];
+
+        for (const [key, entry] of Object.entries(record)) {
+            const parseResult = entrySchema.safeParse(entry);
+
+            if (parseResult.success) {
+                validEntries.push([key, parseResult.data]);
+
+                continue;
+            }
+
+
+            const issue = parseResult.error.issues[0];
+
+            invalidEntryIssues.push(issue ? `${[key, ...issue.path].join(".")}: ${issue.message}` : key);
+        }
+
+
+        if (invalidEntryIssues.length) {
+            logger.warn(`Dropped ${invalidEntryIssues.length} invalid entries from the ${yamlName}. ${invalidEntryIssues.slice(0, MAX_VALIDATION_ISSUES_IN_LOG).join("; ")}`);
+        }
+
+
+        return Object.fromEntries(validEntries);
+    };
+};
+
+
+
+
+export const getCurrentYaml = async <ParsedYaml extends object>(
     yamlName: string,
     fileSystemErrorString: string,
     jsonPath: string,
-    isValidParsedYaml: TypePredicate,
+    validateParsedYaml: YamlValidator<ParsedYaml>,
 ): Promise<ParsedYaml> => {
     try {
         const currentModSearchDatabase = await readFile(jsonPath, JSON_FILE_ENCODING);
 
 
-        const currentYaml = JSON.parse(currentModSearchDatabase);
+        const currentYaml = validateParsedYaml(JSON.parse(currentModSearchDatabase));
 
-        if (!isValidParsedYaml(currentYaml)) {
+        if (!currentYaml) {
             throw `The current ${yamlName} failed validation.`;
         }
 
@@ -49,15 +123,12 @@ export const getCurrentYaml = async <
 /** Updates the json file with the latest yaml file.
  * Also returns the parsed and validated object.
 */
-export const getUpdatedYaml = async <
-    ParsedYaml extends Record<string, unknown>,
-    TypePredicate extends (value: unknown) => value is ParsedYaml = (value: unknown) => value is ParsedYaml,
->(
+export const getUpdatedYaml = async <ParsedYaml extends object>(
     yamlUrl: string,
     yamlName: string,
     fileSystemErrorString: string,
     jsonPath: string,
-    isValidParsedYaml: TypePredicate,
+    validateParsedYaml: YamlValidator<ParsedYaml>,
 ): Promise<ParsedYaml> => {
     logger.debug(`Downloading the ${yamlName}.`);
 
@@ -75,9 +146,9 @@ export const getUpdatedYaml = async <
 
     const newYaml = await response.text();
 
-    const parsedYaml: unknown = parse(newYaml);
+    const parsedYaml = validateParsedYaml(parse(newYaml));
 
-    if (!isValidParsedYaml(parsedYaml)) {
+    if (!parsedYaml) {
         logger.error(`The downloaded ${yamlName} failed validation.`);
 
         throw `The downloaded ${yamlName} failed validation.`;
@@ -96,4 +167,75 @@ export const getUpdatedYaml = async <
 
 
     return parsedYaml;
+};
+
+
+
+
+export type CachedYaml<ParsedYaml extends object, Cached> = {
+    /** Downloads the yaml file, updates the json file, and replaces the in-memory copy.
+     * Also returns the parsed and validated object.
+     */
+    update: () => Promise<ParsedYaml>;
+    /** Returns the in-memory copy.
+     * It's built from the json file on disk the first time, or downloaded if the file can't be read.
+     * Failures aren't cached, so the next call tries again.
+     */
+    get: () => Promise<Cached>;
+};
+
+
+/** Keeps an in-memory copy of a yaml file, built from the parsed object by `transform`. */
+export const getCachedYaml = <ParsedYaml extends object, Cached>(
+    yamlName: string,
+    getCurrentParsedYaml: () => Promise<ParsedYaml>,
+    getUpdatedParsedYaml: () => Promise<ParsedYaml>,
+    transform: (parsedYaml: ParsedYaml) => Cached,
+): CachedYaml<ParsedYaml, Cached> => {
+    let cachedPromise: Promise<Cached> | undefined;
+
+
+    const update = async (): Promise<ParsedYaml> => {
+        const parsedYaml = await getUpdatedParsedYaml();
+
+        cachedPromise = Promise.resolve(transform(parsedYaml));
+
+        return parsedYaml;
+    };
+
+
+    const get = (): Promise<Cached> => {
+        if (cachedPromise) return cachedPromise;
+
+
+        const load = async () => {
+            let parsedYaml: ParsedYaml;
+
+            try {
+                parsedYaml = await getCurrentParsedYaml();
+            } catch {
+                logger.info(`Downloading the ${yamlName} because the stored copy couldn't be read.`);
+
+                parsedYaml = await getUpdatedParsedYaml();
+            }
+
+
+            return transform(parsedYaml);
+        };
+
+
+        const newCachedPromise = load();
+
+        cachedPromise = newCachedPromise;
+
+        newCachedPromise.catch(() => {
+            if (cachedPromise === newCachedPromise) cachedPromise = undefined;
+        });
+
+
+        return newCachedPromise;
+    };
+
+
+    return { update, get };
 };
\ No newline at end of file
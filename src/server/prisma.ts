@@ -3,7 +3,7 @@
  * @link https://www.prisma.io/docs/support/help-articles/nextjs-prisma-client-dev-practices
  */
 
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, type Prisma } from "@prisma/client";
 
 import { env } from "~/env.mjs";
 
@@ -18,4 +18,7 @@ export const prisma =
 
 if (env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
 
-export type MyPrismaClient = typeof prisma;
\ No newline at end of file
+export type MyPrismaClient = typeof prisma;
+
+/** Use for helpers that need to work both inside and outside of an interactive transaction. */
+export type MyPrismaClientOrTransaction = MyPrismaClient | Prisma.TransactionClient;
\ No newline at end of file
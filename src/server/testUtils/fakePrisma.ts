@@ -0,0 +1,137 @@
+import type { MyPrismaClient } from "~/server/prisma";
+
+
+
+
+type FakePrismaWrite = {
+    /** `model.method`, ie. "mod_New.delete" */
+    query: string;
+    args: unknown;
+};
+
+
+type FakePrismaOptions = {
+    /**
+     * The results of queries, keyed by `model.method`, or "$queryRaw" for raw queries. A function result is called with the query's args.
+     * Reads and raw queries that aren't listed find nothing. Writes that aren't listed return `{ id: 1 }`, or `{ count: 0 }` for batch writes.
+     */
+    results?: Record<string, unknown>;
+    /** The write that throws, keyed by `model.method`. Used to check that the writes before it are rolled back. */
+    failingWrite?: string;
+};
+
+
+export type FakePrisma = {
+    prisma: MyPrismaClient;
+    /** The writes that would be in the database: writes made outside of a transaction, and writes made in transactions that finished. */
+    committedWrites: FakePrismaWrite[];
+    /** The writes made in transactions that threw, which the database would have rolled back. */
+    rolledBackWrites: FakePrismaWrite[];
+};
+
+
+
+
+const READ_METHODS = ["findUnique", "findUniqueOrThrow", "findFirst", "findFirstOrThrow", "findMany", "count", "aggregate", "groupBy"];
+
+const WRITE_METHODS = ["create", "createMany", "update", "updateMany", "upsert", "delete", "deleteMany"];
+
+const BATCH_WRITE_METHODS = ["createMany", "updateMany", "deleteMany"];
+
+
+export const INJECTED_FAILURE_MESSAGE = "Injected failure";
+
+
+
+
+/**
+ * Returns a stand-in for the Prisma client that records writes instead of running them.
+ * Interactive transactions only commit their writes if their callback finishes, like the real database.
+ * Batch transactions aren't supported, as their queries would have already been recorded outside of the transaction.
+ */
+export const getFakePrisma = ({ results = {}, failingWrite }: FakePrismaOptions = {}): FakePrisma => {
+    const committedWrites: FakePrismaWrite[] = [];
+    const rolledBackWrites: FakePrismaWrite[] = [];
+
+
+    const getResult = (query: string, args: unknown, defaultResult: unknown): unknown => {
+        const result = results[query];
+
+        if (result === undefined) return defaultResult;
+
+        return typeof result === "function" ? (result as (args: unknown) => unknown)(args) : result;
+    };
+
+
+    const getModel = (modelName: string, writes: FakePrismaWrite[]) => new Proxy({}, {
+        get: (_target, methodName) => {
+            if (typeof methodName !== "string") return undefined;
+
+            const query = `${modelName}.${methodName}`;
+
+
+            if (READ_METHODS.includes(methodName)) {
+                return (args: unknown) => Promise.resolve(getResult(query, args, methodName === "findMany" || methodName === "groupBy" ? [] : methodName === "count" ? 0 : null));
+            }
+
+            if (WRITE_METHODS.includes(methodName)) {
+                return (args: unknown) => {
+                    if (query === failingWrite) return Promise.reject(new Error(`${INJECTED_FAILURE_MESSAGE}: ${query}`));
+
+                    writes.push({ query, args });
+
+                    return Promise.resolve(getResult(query, args, BATCH_WRITE_METHODS.includes(methodName) ? { count: 0 } : { id: 1 }));
+                };
+            }
+
+
+            throw new Error(`The fake Prisma client doesn't support ${query}`);
+        },
+    });
+
+
+    const getClient = (writes: FakePrismaWrite[]): unknown => new Proxy({}, {
+        get: (_target, propertyName) => {
+            if (typeof propertyName !== "string" || propertyName === "then") return undefined;     //the client isn't a promise
+
+
+            if (propertyName === "$transaction") {
+                return async (callback: unknown) => {
+                    if (typeof callback !== "function") throw new Error("The fake Prisma client doesn't support batch transactions");
+
+
+                    const transactionWrites: FakePrismaWrite[] = [];
+
+                    try {
+                        const result: unknown = await (callback as (transaction: unknown) => Promise<unknown>)(getClient(transactionWrites));
+
+                        writes.push(...transactionWrites);
+
+                        return result;
+                    }
+                    catch (error) {
+                        rolledBackWrites.push(...transactionWrites);
+
+                        throw error;
+                    }
+                };
+            }
+
+            if (propertyName === "$queryRaw") {
+                return (...args: unknown[]) => Promise.resolve(getResult(propertyName, args, []));
+            }
+
+            if (propertyName.startsWith("$")) throw new Error(`The fake Prisma client doesn't support ${propertyName}`);
+
+
+            return getModel(propertyName, writes);
+        },
+    });
+
+
+    return {
+        prisma: getClient(committedWrites) as MyPrismaClient,
+        committedWrites,
+        rolledBackWrites,
+    };
+};
\ No newline at end of file
@@ -0,0 +1,18 @@
+import type { Session } from "next-auth";
+import type { Permission } from "~/server/api/utils/permissions";
+
+
+
+
+export const FAKE_SESSION_USER_ID = "fake-session-user";
+
+
+export const getFakeSession = (permissions: Permission[]): Session => ({
+    user: {
+        id: FAKE_SESSION_USER_ID,
+        name: "Fake Session User",
+        permissions,
+        accountStatus: "Active",
+    },
+    expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+});
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { vi } from "vitest";
+
+
+
+
+//tests pass a fake client through the context, so modules that import the shared client get an empty fake one instead. the real client would try to load the query engine.
+vi.mock("~/server/prisma", async () => {
+    const { getFakePrisma } = await import("./fakePrisma");
+
+    return { prisma: getFakePrisma().prisma };
+});
\ No newline at end of file
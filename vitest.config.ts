@@ -0,0 +1,20 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+
+
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            "~": fileURLToPath(new URL("./src", import.meta.url)),
+        },
+    },
+    test: {
+        include: ["src/**/*.test.ts", "fakeServices/**/*.test.ts"],
+        setupFiles: ["src/server/testUtils/setup.ts"],
+        env: {
+            SKIP_ENV_VALIDATION: "true",    //tests use a fake database, so the real environment variables aren't needed
+        },
+    },
+});
\ No newline at end of file